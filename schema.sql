@@ -8,6 +8,7 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE TABLE IF NOT EXISTS divisions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     name VARCHAR(255) NOT NULL UNIQUE,
+    parent_id UUID REFERENCES divisions(id), -- NULL for top-level business units
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_by UUID,
@@ -26,6 +27,7 @@ CREATE TABLE IF NOT EXISTS users (
     division_id UUID REFERENCES divisions(id),
     spending_limit_cents BIGINT DEFAULT 0,
     is_active BOOLEAN DEFAULT TRUE,
+    email_verified_at TIMESTAMP WITH TIME ZONE, -- Self-registered users cannot log in until set
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_by UUID,
@@ -84,6 +86,33 @@ CREATE TABLE IF NOT EXISTS user_roles (
     UNIQUE(user_id, role_id)
 );
 
+-- Login sessions (access tokens carry the session ID as their sid claim, so revoking a
+-- session locks out its access tokens immediately)
+CREATE TABLE IF NOT EXISTS sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    refresh_token_hash CHAR(64) NOT NULL UNIQUE, -- SHA-256 of the current refresh token
+    previous_refresh_token_hash CHAR(64), -- Rotated-out token; reusing it revokes the session
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    user_agent VARCHAR(500),
+    ip_address VARCHAR(45),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(50) CHECK (revoked_reason IN ('logout', 'admin_revoked', 'password_changed', 'refresh_token_reuse', 'user_inactive')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Single-use tokens sent by email (password reset, email verification)
+CREATE TABLE IF NOT EXISTS account_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    purpose VARCHAR(30) NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+    token_hash CHAR(64) NOT NULL UNIQUE, -- SHA-256 of the emailed token
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE, -- Set when redeemed or superseded by a newer token
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Suppliers table
 CREATE TABLE IF NOT EXISTS suppliers (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -163,13 +192,88 @@ CREATE TABLE IF NOT EXISTS po_lines (
     UNIQUE(po_id, line_no)
 );
 
+-- Division approval steps (ordered approval chain per division and amount band)
+CREATE TABLE IF NOT EXISTS division_approval_steps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    division_id UUID NOT NULL REFERENCES divisions(id),
+    step_order INTEGER NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    min_total_cents BIGINT NOT NULL DEFAULT 0, -- Step applies to POs totalling at least this amount
+    approver_role VARCHAR(50) CHECK (approver_role IN ('basic', 'manager', 'admin')),
+    approver_user_id UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID,
+    deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Division budgets (one row per fiscal period)
+CREATE TABLE IF NOT EXISTS division_budgets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    division_id UUID NOT NULL REFERENCES divisions(id),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    budget_cents BIGINT NOT NULL CHECK (budget_cents >= 0),
+    enforcement VARCHAR(10) NOT NULL DEFAULT 'warn' CHECK (enforcement IN ('warn', 'block')), -- What happens when a submission would overrun the budget
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID,
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    CHECK (period_end >= period_start)
+);
+
+-- Purchase order approval tasks (one per applicable step, created on submission)
+CREATE TABLE IF NOT EXISTS po_approvals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    po_id UUID NOT NULL REFERENCES purchase_orders(id),
+    step_id UUID REFERENCES division_approval_steps(id),
+    round INTEGER NOT NULL DEFAULT 1, -- Incremented each time the PO is (re)submitted
+    step_order INTEGER NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    approver_role VARCHAR(50),
+    approver_user_id UUID REFERENCES users(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    acted_by UUID REFERENCES users(id),
+    acted_at TIMESTAMP WITH TIME ZONE,
+    comments TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID NOT NULL,
+    updated_by UUID NOT NULL
+);
+
+-- Files table (uploaded objects in storage, optionally linked to a business record)
+CREATE TABLE IF NOT EXISTS files (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_id UUID NOT NULL REFERENCES users(id),
+    entity_type VARCHAR(50) CHECK (entity_type IN ('purchase_order', 'delivery', 'invoice')),
+    entity_id UUID,
+    filename VARCHAR(255) NOT NULL,
+    content_type VARCHAR(255) NOT NULL,
+    size_bytes BIGINT,
+    sha256 CHAR(64), -- Content hash, known for files uploaded through the API
+    storage_key VARCHAR(500) NOT NULL UNIQUE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'uploaded')),
+    uploaded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID NOT NULL,
+    updated_by UUID NOT NULL,
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    CHECK ((entity_type IS NULL) = (entity_id IS NULL))
+);
+
 -- Deliveries table
 CREATE TABLE IF NOT EXISTS deliveries (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     po_id UUID NOT NULL REFERENCES purchase_orders(id),
     delivered_at TIMESTAMP WITH TIME ZONE NOT NULL,
-    pod_file_url VARCHAR(500), -- Proof of delivery file URL
+    pod_file_url VARCHAR(500), -- Proof of delivery file URL (legacy, superseded by pod_file_id)
+    pod_file_id UUID REFERENCES files(id), -- Proof of delivery scan
     notes TEXT,
+    void_reason TEXT, -- Set when a delivery record is voided (soft-deleted)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_by UUID NOT NULL,
@@ -196,8 +300,20 @@ CREATE TABLE IF NOT EXISTS invoices (
     po_id UUID NOT NULL REFERENCES purchase_orders(id),
     supplier_invoice_no VARCHAR(255) NOT NULL,
     invoice_date DATE NOT NULL,
-    invoice_file_url VARCHAR(500),
+    invoice_file_url VARCHAR(500), -- Legacy, superseded by invoice_file_id
+    invoice_file_id UUID REFERENCES files(id), -- Supplier invoice document
     status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'paid')),
+    match_status VARCHAR(20) NOT NULL DEFAULT 'unmatched' CHECK (match_status IN ('unmatched', 'matched', 'exceptions')),
+    match_discrepancies JSONB DEFAULT '[]', -- Per-line discrepancies from the last three-way match
+    match_tolerances JSONB, -- Tolerances the last match ran with, and whether an admin overrode them
+    matched_at TIMESTAMP WITH TIME ZONE,
+    matched_by UUID REFERENCES users(id),
+    approved_by UUID REFERENCES users(id),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    paid_by UUID REFERENCES users(id),
+    paid_at TIMESTAMP WITH TIME ZONE,
+    payment_reference VARCHAR(255),
+    payment_date DATE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_by UUID NOT NULL,
@@ -219,20 +335,69 @@ CREATE TABLE IF NOT EXISTS invoice_lines (
     deleted_at TIMESTAMP WITH TIME ZONE
 );
 
+-- Report definitions (saved reports regenerated on a cron schedule through the exports pipeline)
+CREATE TABLE IF NOT EXISTS report_definitions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_id UUID NOT NULL REFERENCES users(id), -- data is scoped to the owner's division access
+    name VARCHAR(255) NOT NULL,
+    report_type VARCHAR(50) NOT NULL CHECK (report_type IN ('purchase_orders', 'spend_by_supplier')),
+    format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'json')),
+    parameters JSONB NOT NULL DEFAULT '{}', -- filters plus an optional relative period
+    schedule VARCHAR(100) NOT NULL, -- five-field cron expression, evaluated in UTC
+    delivery_channels TEXT[] NOT NULL DEFAULT '{inbox}',
+    recipient_ids UUID[] NOT NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID,
+    deleted_at TIMESTAMP WITH TIME ZONE
+);
+
 -- Exports table (for tracking data exports)
 CREATE TABLE IF NOT EXISTS exports (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     po_id UUID REFERENCES purchase_orders(id),
     format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'json', 'pdf')),
-    file_url VARCHAR(500),
+    report_type VARCHAR(50) NOT NULL DEFAULT 'purchase_orders' CHECK (report_type IN ('purchase_orders', 'spend_by_supplier')),
+    report_id UUID REFERENCES report_definitions(id), -- set on scheduled report runs
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    error_message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    filename VARCHAR(255),
+    content_type VARCHAR(100),
+    size_bytes BIGINT,
+    row_count INTEGER,
+    filters JSONB, -- PO list filters for csv/json exports
+    storage_key VARCHAR(500) UNIQUE,
+    file_url VARCHAR(500), -- API download path; the link stops working after expires_at
     generated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     generated_by UUID NOT NULL,
     expires_at TIMESTAMP WITH TIME ZONE
 );
 
+-- Notifications table (per-user inbox)
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    type VARCHAR(50) NOT NULL CHECK (type IN ('report_ready', 'report_failed')),
+    title VARCHAR(255) NOT NULL,
+    body TEXT,
+    report_id UUID REFERENCES report_definitions(id),
+    export_id UUID REFERENCES exports(id),
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    deleted_at TIMESTAMP WITH TIME ZONE
+);
+
 -- Audit log table
 CREATE TABLE IF NOT EXISTS audit_log (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    seq BIGINT NOT NULL UNIQUE, -- Position in the hash chain, assigned by the chain trigger
     table_name VARCHAR(100) NOT NULL,
     record_id UUID NOT NULL,
     action VARCHAR(20) NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
@@ -240,13 +405,78 @@ CREATE TABLE IF NOT EXISTS audit_log (
     new_values JSONB,
     user_id UUID,
     po_id UUID, -- For PO-related actions
-    at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    prev_hash CHAR(64), -- Hash of the entry at seq - 1 (NULL for the first entry)
+    hash CHAR(64) NOT NULL -- SHA-256 of prev_hash and this entry's contents
 );
 
+-- Upgrades for databases created from an earlier version of this file. CREATE TABLE IF NOT EXISTS
+-- leaves existing tables as they were, so columns added since are added here; every statement
+-- is a no-op on a fresh database and on re-runs.
+ALTER TABLE divisions ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES divisions(id);
+
+-- Accounts that predate email verification are treated as verified, otherwise nobody could log in
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'email_verified_at'
+    ) THEN
+        ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMP WITH TIME ZONE;
+        UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+    END IF;
+END $$;
+
+ALTER TABLE deliveries
+    ADD COLUMN IF NOT EXISTS pod_file_id UUID REFERENCES files(id),
+    ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+ALTER TABLE invoices
+    ADD COLUMN IF NOT EXISTS invoice_file_id UUID REFERENCES files(id),
+    ADD COLUMN IF NOT EXISTS match_status VARCHAR(20) NOT NULL DEFAULT 'unmatched' CHECK (match_status IN ('unmatched', 'matched', 'exceptions')),
+    ADD COLUMN IF NOT EXISTS match_discrepancies JSONB DEFAULT '[]',
+    ADD COLUMN IF NOT EXISTS match_tolerances JSONB,
+    ADD COLUMN IF NOT EXISTS matched_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS matched_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS paid_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS payment_reference VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS payment_date DATE;
+
+-- Exports that predate the queue were generated synchronously, so they start out done rather
+-- than queued for the worker
+ALTER TABLE exports
+    ADD COLUMN IF NOT EXISTS report_type VARCHAR(50) NOT NULL DEFAULT 'purchase_orders' CHECK (report_type IN ('purchase_orders', 'spend_by_supplier')),
+    ADD COLUMN IF NOT EXISTS report_id UUID REFERENCES report_definitions(id),
+    ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'done' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    ADD COLUMN IF NOT EXISTS progress INTEGER NOT NULL DEFAULT 100 CHECK (progress BETWEEN 0 AND 100),
+    ADD COLUMN IF NOT EXISTS error_message TEXT,
+    ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS filename VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS content_type VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS size_bytes BIGINT,
+    ADD COLUMN IF NOT EXISTS row_count INTEGER,
+    ADD COLUMN IF NOT EXISTS filters JSONB,
+    ADD COLUMN IF NOT EXISTS storage_key VARCHAR(500) UNIQUE;
+ALTER TABLE exports ALTER COLUMN status SET DEFAULT 'queued', ALTER COLUMN progress SET DEFAULT 0;
+
+-- Existing entries are chained and the columns made NOT NULL further down, once audit_log_hash exists
+ALTER TABLE audit_log
+    ADD COLUMN IF NOT EXISTS seq BIGINT UNIQUE,
+    ADD COLUMN IF NOT EXISTS prev_hash CHAR(64),
+    ADD COLUMN IF NOT EXISTS hash CHAR(64);
+
 -- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_divisions_parent ON divisions(parent_id) WHERE deleted_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email) WHERE deleted_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_users_division ON users(division_id) WHERE deleted_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_users_role ON users(role) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_token ON sessions(previous_refresh_token_hash) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_account_tokens_user ON account_tokens(user_id, purpose) WHERE used_at IS NULL;
 
 CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
 CREATE INDEX IF NOT EXISTS idx_purchase_orders_division ON purchase_orders(division_id);
@@ -257,12 +487,32 @@ CREATE INDEX IF NOT EXISTS idx_purchase_orders_created_at ON purchase_orders(cre
 CREATE INDEX IF NOT EXISTS idx_po_lines_po_id ON po_lines(po_id);
 CREATE INDEX IF NOT EXISTS idx_po_lines_sku ON po_lines(sku);
 
+CREATE UNIQUE INDEX IF NOT EXISTS idx_division_approval_steps_order ON division_approval_steps(division_id, step_order) WHERE deleted_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_division_budgets_period ON division_budgets(division_id, period_start) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_po_approvals_po_id ON po_approvals(po_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_po_approvals_round_step ON po_approvals(po_id, round, step_order);
+CREATE INDEX IF NOT EXISTS idx_po_approvals_pending ON po_approvals(status) WHERE status = 'pending';
+
 CREATE INDEX IF NOT EXISTS idx_deliveries_po_id ON deliveries(po_id);
 CREATE INDEX IF NOT EXISTS idx_deliveries_delivered_at ON deliveries(delivered_at);
+CREATE INDEX IF NOT EXISTS idx_delivery_lines_delivery_id ON delivery_lines(delivery_id);
+CREATE INDEX IF NOT EXISTS idx_delivery_lines_po_line_id ON delivery_lines(po_line_id) WHERE deleted_at IS NULL;
 
 CREATE INDEX IF NOT EXISTS idx_invoices_po_id ON invoices(po_id);
 CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
 CREATE INDEX IF NOT EXISTS idx_invoices_supplier_invoice_no ON invoices(supplier_invoice_no);
+CREATE INDEX IF NOT EXISTS idx_invoices_match_status ON invoices(match_status) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice_id ON invoice_lines(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_po_line_id ON invoice_lines(po_line_id) WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_files_entity ON files(entity_type, entity_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_files_owner ON files(owner_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_exports_generated_by ON exports(generated_by, generated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_exports_queue ON exports(generated_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_exports_report ON exports(report_id, generated_at DESC) WHERE report_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_report_definitions_due ON report_definitions(next_run_at) WHERE is_active = TRUE AND deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_report_definitions_owner ON report_definitions(owner_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC) WHERE deleted_at IS NULL;
 
 CREATE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers(name) WHERE deleted_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_suppliers_active ON suppliers(is_active) WHERE deleted_at IS NULL;
@@ -286,17 +536,219 @@ END;
 $$ language 'plpgsql';
 
 -- Create updated_at triggers for all tables
-CREATE TRIGGER update_divisions_updated_at BEFORE UPDATE ON divisions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_permissions_updated_at BEFORE UPDATE ON permissions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_roles_updated_at BEFORE UPDATE ON roles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_role_permissions_updated_at BEFORE UPDATE ON role_permissions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_user_roles_updated_at BEFORE UPDATE ON user_roles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_delivery_addresses_updated_at BEFORE UPDATE ON delivery_addresses FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_po_lines_updated_at BEFORE UPDATE ON po_lines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_deliveries_updated_at BEFORE UPDATE ON deliveries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_delivery_lines_updated_at BEFORE UPDATE ON delivery_lines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON invoices FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_invoice_lines_updated_at BEFORE UPDATE ON invoice_lines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
+CREATE OR REPLACE TRIGGER update_divisions_updated_at BEFORE UPDATE ON divisions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_permissions_updated_at BEFORE UPDATE ON permissions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_roles_updated_at BEFORE UPDATE ON roles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_role_permissions_updated_at BEFORE UPDATE ON role_permissions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_user_roles_updated_at BEFORE UPDATE ON user_roles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_delivery_addresses_updated_at BEFORE UPDATE ON delivery_addresses FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_po_lines_updated_at BEFORE UPDATE ON po_lines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_division_approval_steps_updated_at BEFORE UPDATE ON division_approval_steps FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_division_budgets_updated_at BEFORE UPDATE ON division_budgets FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_po_approvals_updated_at BEFORE UPDATE ON po_approvals FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_deliveries_updated_at BEFORE UPDATE ON deliveries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_delivery_lines_updated_at BEFORE UPDATE ON delivery_lines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_invoices_updated_at BEFORE UPDATE ON invoices FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_invoice_lines_updated_at BEFORE UPDATE ON invoice_lines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_files_updated_at BEFORE UPDATE ON files FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE OR REPLACE TRIGGER update_report_definitions_updated_at BEFORE UPDATE ON report_definitions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Audit logging
+-- Every change to an audited table is recorded in audit_log with before/after snapshots.
+-- Setting deleted_at is logged as a DELETE, and the acting user is the row's updated_by,
+-- which the route helpers (withCreateAudit, withUpdateAudit, withSoftDelete) always set.
+
+-- Columns whose values must never be copied into the audit log
+CREATE OR REPLACE FUNCTION audit_redact(row_values JSONB)
+RETURNS JSONB AS $$
+    SELECT jsonb_object_agg(
+        key,
+        CASE
+            WHEN key = ANY(ARRAY['password_hash']) AND value <> 'null'::jsonb
+            THEN '"[REDACTED]"'::jsonb
+            ELSE value
+        END
+    )
+    FROM jsonb_each(row_values)
+$$ language 'sql' IMMUTABLE;
+
+-- Trigger arguments name extra columns (e.g. scheduler bookkeeping) whose changes alone are
+-- not worth an entry
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB;
+    new_row JSONB;
+    row_values JSONB;
+    ignored_columns TEXT[] := ARRAY['updated_at', 'updated_by'] || TG_ARGV;
+    audit_action VARCHAR(20) := TG_OP;
+    audit_po_id UUID;
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        old_row := to_jsonb(OLD);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        new_row := to_jsonb(NEW);
+    END IF;
+    row_values := COALESCE(new_row, old_row);
+
+    IF TG_OP = 'UPDATE' THEN
+        IF (old_row - ignored_columns) = (new_row - ignored_columns) THEN
+            RETURN NULL;
+        END IF;
+        IF old_row->>'deleted_at' IS NULL AND new_row->>'deleted_at' IS NOT NULL THEN
+            audit_action := 'DELETE';
+        END IF;
+    END IF;
+
+    -- Changes to a purchase order's lines, deliveries, invoices and documents are filed under it
+    audit_po_id := CASE TG_TABLE_NAME
+        WHEN 'purchase_orders' THEN (row_values->>'id')::UUID
+        WHEN 'delivery_lines' THEN (
+            SELECT po_id FROM deliveries WHERE id = (row_values->>'delivery_id')::UUID
+        )
+        WHEN 'invoice_lines' THEN (
+            SELECT po_id FROM invoices WHERE id = (row_values->>'invoice_id')::UUID
+        )
+        WHEN 'files' THEN CASE row_values->>'entity_type'
+            WHEN 'purchase_order' THEN (row_values->>'entity_id')::UUID
+            WHEN 'delivery' THEN (
+                SELECT po_id FROM deliveries WHERE id = (row_values->>'entity_id')::UUID
+            )
+            WHEN 'invoice' THEN (
+                SELECT po_id FROM invoices WHERE id = (row_values->>'entity_id')::UUID
+            )
+        END
+        ELSE (row_values->>'po_id')::UUID
+    END;
+
+    INSERT INTO audit_log (table_name, record_id, action, old_values, new_values, user_id, po_id)
+    VALUES (
+        TG_TABLE_NAME,
+        (row_values->>'id')::UUID,
+        audit_action,
+        audit_redact(old_row),
+        audit_redact(new_row),
+        (row_values->>'updated_by')::UUID,
+        audit_po_id
+    );
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Create audit triggers for all business tables
+CREATE OR REPLACE TRIGGER audit_divisions AFTER INSERT OR UPDATE OR DELETE ON divisions FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_users AFTER INSERT OR UPDATE OR DELETE ON users FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_permissions AFTER INSERT OR UPDATE OR DELETE ON permissions FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_roles AFTER INSERT OR UPDATE OR DELETE ON roles FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_role_permissions AFTER INSERT OR UPDATE OR DELETE ON role_permissions FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_user_roles AFTER INSERT OR UPDATE OR DELETE ON user_roles FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_suppliers AFTER INSERT OR UPDATE OR DELETE ON suppliers FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_delivery_addresses AFTER INSERT OR UPDATE OR DELETE ON delivery_addresses FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_purchase_orders AFTER INSERT OR UPDATE OR DELETE ON purchase_orders FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_po_lines AFTER INSERT OR UPDATE OR DELETE ON po_lines FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_division_approval_steps AFTER INSERT OR UPDATE OR DELETE ON division_approval_steps FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_division_budgets AFTER INSERT OR UPDATE OR DELETE ON division_budgets FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_po_approvals AFTER INSERT OR UPDATE OR DELETE ON po_approvals FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_files AFTER INSERT OR UPDATE OR DELETE ON files FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_deliveries AFTER INSERT OR UPDATE OR DELETE ON deliveries FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_delivery_lines AFTER INSERT OR UPDATE OR DELETE ON delivery_lines FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_invoices AFTER INSERT OR UPDATE OR DELETE ON invoices FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_invoice_lines AFTER INSERT OR UPDATE OR DELETE ON invoice_lines FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE OR REPLACE TRIGGER audit_report_definitions AFTER INSERT OR UPDATE OR DELETE ON report_definitions FOR EACH ROW EXECUTE FUNCTION audit_row_change('next_run_at', 'last_run_at');
+
+-- Audit log hash chain
+-- Each entry stores the hash of the one before it, so editing, deleting or reordering an entry
+-- breaks every later link. Entries can only be appended. Verification recomputes hashes with
+-- audit_log_hash (see src/lib/audit.ts and src/scripts/verify-audit-log.ts).
+
+-- jsonb_build_array gives an unambiguous encoding, and jsonb text output has a canonical
+-- key order, so the same contents always hash the same
+CREATE OR REPLACE FUNCTION audit_log_hash(
+    entry_seq BIGINT,
+    entry_table_name VARCHAR,
+    entry_record_id UUID,
+    entry_action VARCHAR,
+    entry_old_values JSONB,
+    entry_new_values JSONB,
+    entry_user_id UUID,
+    entry_po_id UUID,
+    entry_at TIMESTAMP WITH TIME ZONE,
+    entry_prev_hash CHAR(64)
+)
+RETURNS CHAR(64) AS $$
+    SELECT encode(sha256(convert_to(jsonb_build_array(
+        entry_seq,
+        entry_table_name,
+        entry_record_id,
+        entry_action,
+        entry_old_values,
+        entry_new_values,
+        entry_user_id,
+        entry_po_id,
+        to_char(entry_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        entry_prev_hash
+    )::text, 'UTF8')), 'hex')
+$$ language 'sql' IMMUTABLE;
+
+-- Chain entries written before the hash chain existed, oldest first (see the upgrades above)
+DO $$
+DECLARE
+    entry audit_log%ROWTYPE;
+    entry_seq BIGINT := 0;
+    previous_hash CHAR(64);
+    entry_hash CHAR(64);
+BEGIN
+    FOR entry IN SELECT * FROM audit_log WHERE hash IS NULL ORDER BY at, id LOOP
+        entry_seq := entry_seq + 1;
+        entry_hash := audit_log_hash(
+            entry_seq, entry.table_name, entry.record_id, entry.action, entry.old_values,
+            entry.new_values, entry.user_id, entry.po_id, entry.at, previous_hash
+        );
+
+        UPDATE audit_log
+        SET seq = entry_seq, prev_hash = previous_hash, hash = entry_hash
+        WHERE id = entry.id;
+
+        previous_hash := entry_hash;
+    END LOOP;
+END $$;
+
+ALTER TABLE audit_log ALTER COLUMN seq SET NOT NULL, ALTER COLUMN hash SET NOT NULL;
+
+-- Entries are chained one at a time: the advisory lock serializes concurrent writers until
+-- their transaction ends, so each sees the previous writer's committed entry
+CREATE OR REPLACE FUNCTION audit_log_chain()
+RETURNS TRIGGER AS $$
+DECLARE
+    previous audit_log%ROWTYPE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('audit_log_chain'));
+
+    SELECT * INTO previous FROM audit_log ORDER BY seq DESC LIMIT 1;
+
+    NEW.seq := COALESCE(previous.seq, 0) + 1;
+    NEW.prev_hash := previous.hash;
+    NEW.hash := audit_log_hash(
+        NEW.seq, NEW.table_name, NEW.record_id, NEW.action, NEW.old_values, NEW.new_values,
+        NEW.user_id, NEW.po_id, NEW.at, NEW.prev_hash
+    );
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION audit_log_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE TRIGGER audit_log_chain BEFORE INSERT ON audit_log FOR EACH ROW EXECUTE FUNCTION audit_log_chain();
+CREATE OR REPLACE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE ON audit_log FOR EACH ROW EXECUTE FUNCTION audit_log_append_only();
+CREATE OR REPLACE TRIGGER audit_log_no_truncate BEFORE TRUNCATE ON audit_log FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only();
\ No newline at end of file
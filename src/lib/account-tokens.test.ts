@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import sql from './db';
+import {
+  consumeAccountToken,
+  createAccountToken,
+  generateSecretToken,
+  hashSecretToken,
+} from './account-tokens';
+
+vi.mock('./db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./db')>()),
+  default: Object.assign(vi.fn(), { transaction: vi.fn() }),
+}));
+
+const mockSql = vi.mocked(sql) as unknown as ReturnType<typeof vi.fn>;
+const mockTransaction = vi.mocked(sql.transaction) as unknown as ReturnType<typeof vi.fn>;
+
+describe('generateSecretToken', () => {
+  it('returns a different URL-safe token each time', () => {
+    const token = generateSecretToken();
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateSecretToken()).not.toBe(token);
+  });
+});
+
+describe('hashSecretToken', () => {
+  it('returns the SHA-256 hex digest', () => {
+    expect(hashSecretToken('abc'))
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('createAccountToken', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+    mockTransaction.mockReset();
+    mockSql.mockReturnValue('query');
+    mockTransaction.mockResolvedValue([]);
+  });
+
+  it('retires earlier tokens and stores the hash of the new one together', async () => {
+    const { token } = await createAccountToken('user-1', 'password_reset');
+
+    expect(mockTransaction).toHaveBeenCalledWith(['query', 'query']);
+
+    const [retireCall, insertCall] = mockSql.mock.calls;
+    expect((retireCall[0] as string[]).join('?')).toContain('SET used_at = NOW()');
+    expect(retireCall).toEqual([expect.anything(), 'user-1', 'password_reset']);
+    expect(insertCall).toContain(hashSecretToken(token));
+    expect(insertCall).not.toContain(token);
+  });
+
+  it('expires password resets after an hour and verifications after two days', async () => {
+    const before = Date.now();
+
+    const reset = await createAccountToken('user-1', 'password_reset');
+    const verification = await createAccountToken('user-1', 'email_verification');
+
+    expect(reset.expiresAt.getTime() - before).toBeGreaterThanOrEqual(60 * 60 * 1000);
+    expect(reset.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+    expect(verification.expiresAt.getTime() - before)
+      .toBeGreaterThanOrEqual(48 * 60 * 60 * 1000);
+    expect(verification.expiresAt.getTime() - Date.now())
+      .toBeLessThanOrEqual(48 * 60 * 60 * 1000);
+  });
+});
+
+describe('consumeAccountToken', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+  });
+
+  it('returns the user of a valid token, looked up by its hash', async () => {
+    mockSql.mockResolvedValue([{ user_id: 'user-1' }]);
+
+    expect(await consumeAccountToken('token', 'email_verification')).toBe('user-1');
+    expect(mockSql.mock.calls[0]).toEqual(
+      [expect.anything(), hashSecretToken('token'), 'email_verification'],
+    );
+  });
+
+  it('returns null for an unknown, expired or used token', async () => {
+    mockSql.mockResolvedValue([]);
+
+    expect(await consumeAccountToken('token', 'password_reset')).toBeNull();
+  });
+});
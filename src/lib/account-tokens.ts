@@ -0,0 +1,64 @@
+// lib/account-tokens.ts
+// Secret tokens handed to clients and stored only as hashes: refresh tokens, and the
+// single-use password reset and email verification tokens sent by email
+
+import crypto from 'crypto';
+import sql from './db';
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+const ACCOUNT_TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+  password_reset: 60,
+  email_verification: 48 * 60,
+};
+
+export function generateSecretToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+// Tokens are random, so a fast unsalted hash is enough to make a leaked table useless
+export function hashSecretToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Issues a token for the user, retiring any earlier unused token for the same purpose so
+// only the latest email works
+export async function createAccountToken(
+  userId: string,
+  purpose: AccountTokenPurpose,
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = generateSecretToken();
+  const expiresAt = new Date(Date.now() + ACCOUNT_TOKEN_TTL_MINUTES[purpose] * 60 * 1000);
+
+  await sql.transaction([
+    sql`
+      UPDATE account_tokens
+      SET used_at = NOW()
+      WHERE user_id = ${userId} AND purpose = ${purpose} AND used_at IS NULL
+    `,
+    sql`
+      INSERT INTO account_tokens (user_id, purpose, token_hash, expires_at)
+      VALUES (${userId}, ${purpose}, ${hashSecretToken(token)}, ${expiresAt})
+    `,
+  ]);
+
+  return { token, expiresAt };
+}
+
+// Redeems a token, returning its user; null when unknown, expired or already used
+export async function consumeAccountToken(
+  token: string,
+  purpose: AccountTokenPurpose,
+): Promise<string | null> {
+  const [row] = await sql`
+    UPDATE account_tokens
+    SET used_at = NOW()
+    WHERE token_hash = ${hashSecretToken(token)}
+      AND purpose = ${purpose}
+      AND used_at IS NULL
+      AND expires_at > NOW()
+    RETURNING user_id
+  `;
+
+  return row ? row.user_id : null;
+}
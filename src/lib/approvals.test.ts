@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import sql from './db';
+import {
+  buildApprovalTaskQueries,
+  getApplicableApprovalSteps,
+  getApprovalTaskError,
+  getCurrentApprovalTask,
+} from './approvals';
+import { AuthenticatedUser, POApproval } from './types';
+
+vi.mock('./db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./db')>()),
+  default: vi.fn(),
+}));
+
+const mockSql = vi.mocked(sql) as unknown as ReturnType<typeof vi.fn>;
+
+function stepRow(stepOrder: number, minTotalCents: number, extra: Record<string, unknown> = {}) {
+  return {
+    id: `step-${stepOrder}`,
+    division_id: 'division-1',
+    step_order: stepOrder,
+    name: `Step ${stepOrder}`,
+    min_total_cents: String(minTotalCents),
+    approver_role: null,
+    approver_user_id: null,
+    ...extra,
+  };
+}
+
+function task(stepOrder: number, overrides: Partial<POApproval> = {}): POApproval {
+  return {
+    id: `task-${stepOrder}`,
+    po_id: 'po-1',
+    round: 1,
+    step_order: stepOrder,
+    name: `Step ${stepOrder}`,
+    status: 'pending',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const manager: AuthenticatedUser = {
+  id: 'user-manager',
+  sub: 'user-manager',
+  email: 'manager@example.com',
+  role: 'manager',
+  spending_limit_cents: 100000,
+};
+
+const admin: AuthenticatedUser = { ...manager, id: 'user-admin', role: 'admin' };
+
+describe('getApplicableApprovalSteps', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+  });
+
+  it('keeps the steps whose amount band starts at or below the total', async () => {
+    mockSql.mockResolvedValue([
+      stepRow(1, 0),
+      stepRow(2, 100000, { approver_role: 'manager' }),
+      stepRow(3, 1000000, { approver_role: 'admin' }),
+    ]);
+
+    const steps = await getApplicableApprovalSteps('division-1', 100000);
+
+    expect(steps.map((step) => step.step_order)).toEqual([1, 2]);
+    expect(steps[1].approver_role).toBe('manager');
+  });
+
+  it('falls back to a single default step when no band applies', async () => {
+    mockSql.mockResolvedValue([stepRow(1, 500000)]);
+
+    const steps = await getApplicableApprovalSteps('division-1', 1000);
+
+    expect(steps).toEqual([{ step_order: 1, name: 'Approval' }]);
+  });
+
+  it('falls back to the default step when the division has no policy', async () => {
+    mockSql.mockResolvedValue([]);
+
+    expect(await getApplicableApprovalSteps('division-1', 1000)).toEqual([
+      { step_order: 1, name: 'Approval' },
+    ]);
+  });
+});
+
+describe('buildApprovalTaskQueries', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+  });
+
+  it('inserts every step in one statement that depends on this submission', async () => {
+    mockSql
+      .mockResolvedValueOnce([stepRow(1, 0), stepRow(2, 0, { approver_role: 'manager' })])
+      .mockReturnValue('query');
+
+    const submittedAt = '2024-01-01T00:00:00.000Z';
+    const queries = await buildApprovalTaskQueries(
+      'po-1',
+      'division-1',
+      5000,
+      'user-1',
+      submittedAt,
+    );
+
+    expect(queries).toHaveLength(2);
+
+    const [cancelCall, insertCall] = mockSql.mock.calls.slice(1);
+    const cancelText = (cancelCall[0] as string[]).join('?');
+    expect(cancelText).toContain("status = 'submitted' AND submitted_at =");
+    expect(cancelCall).toContain(submittedAt);
+
+    const insertText = (insertCall[0] as string[]).join('?');
+    expect(insertText).toContain('COALESCE(MAX(round), 0) + 1');
+    expect(insertText).toContain("status = 'submitted' AND submitted_at =");
+    expect(insertCall).toContainEqual(['step-1', 'step-2']);
+    expect(insertCall).toContainEqual([null, 'manager']);
+    expect(insertCall).toContain(submittedAt);
+  });
+});
+
+describe('getCurrentApprovalTask', () => {
+  it('returns the first pending step', () => {
+    const chain = [task(1, { status: 'approved' }), task(2), task(3)];
+
+    expect(getCurrentApprovalTask(chain)?.id).toBe('task-2');
+  });
+
+  it('returns undefined when nothing is pending', () => {
+    expect(getCurrentApprovalTask([task(1, { status: 'approved' })])).toBeUndefined();
+  });
+});
+
+describe('getApprovalTaskError', () => {
+  it('allows a user matching the step role', () => {
+    const chain = [task(1, { approver_role: 'manager' })];
+
+    expect(getApprovalTaskError(manager, chain[0], chain)).toBeNull();
+  });
+
+  it('refuses a user without the step role', () => {
+    const chain = [task(1, { approver_role: 'admin' })];
+
+    expect(getApprovalTaskError(manager, chain[0], chain))
+      .toBe('This approval step requires the admin role');
+  });
+
+  it('refuses a step assigned to another user', () => {
+    const chain = [task(1, { approver_user_id: 'someone-else' })];
+
+    expect(getApprovalTaskError(manager, chain[0], chain))
+      .toBe('This approval step is assigned to another user');
+  });
+
+  it('lets admins act on any step', () => {
+    const chain = [task(1, { approver_role: 'manager', approver_user_id: 'someone-else' })];
+
+    expect(getApprovalTaskError(admin, chain[0], chain)).toBeNull();
+  });
+
+  it('refuses a second sign-off by the same person, admins included', () => {
+    const chain = [task(1, { status: 'approved', acted_by: admin.id }), task(2)];
+
+    expect(getApprovalTaskError(admin, chain[1], chain))
+      .toBe('You have already approved an earlier step of this purchase order');
+  });
+});
@@ -0,0 +1,204 @@
+// lib/approvals.ts
+// Approval chain helpers: per-division approval policies and per-PO approval tasks
+
+import sql, { FilterBuilder, withCreateAudit } from './db';
+import { ApprovalStep, AuthenticatedUser, POApproval } from './types';
+
+type ApprovalStepTemplate = Pick<
+  ApprovalStep,
+  'step_order' | 'name' | 'approver_role' | 'approver_user_id'
+> & { id?: string };
+
+// Used when a division has no steps configured for the PO's amount band:
+// a single sign-off by anyone holding pos:approve within their spending limit
+const DEFAULT_APPROVAL_STEP: ApprovalStepTemplate = {
+  step_order: 1,
+  name: 'Approval',
+};
+
+function formatApprovalStep(row: Record<string, any>): ApprovalStep {
+  return {
+    ...row,
+    min_total_cents: Number(row.min_total_cents),
+    approver_role: row.approver_role ?? undefined,
+    approver_user_id: row.approver_user_id ?? undefined,
+  } as ApprovalStep;
+}
+
+export async function getDivisionApprovalSteps(divisionId: string): Promise<ApprovalStep[]> {
+  const steps = await sql`
+    SELECT id, division_id, step_order, name, min_total_cents, approver_role, approver_user_id,
+           created_at, updated_at
+    FROM division_approval_steps
+    WHERE division_id = ${divisionId} AND deleted_at IS NULL
+    ORDER BY step_order
+  `;
+
+  return steps.map(formatApprovalStep);
+}
+
+// Steps whose amount band covers the given total, in order
+export async function getApplicableApprovalSteps(
+  divisionId: string,
+  totalCents: number,
+): Promise<ApprovalStepTemplate[]> {
+  const steps = await getDivisionApprovalSteps(divisionId);
+  const applicable = steps.filter((step) => totalCents >= step.min_total_cents);
+
+  return applicable.length > 0 ? applicable : [DEFAULT_APPROVAL_STEP];
+}
+
+// Queries that open a fresh round of approval tasks, for use inside sql.transaction()
+// after the guarded status update that submits the PO. That update takes the PO's row
+// lock, so these only run when the PO is still the one this request submitted at
+// `submittedAt`; a concurrent submit that loses the race neither cancels the winner's
+// tasks nor leaves a second set of pending tasks behind.
+export async function buildApprovalTaskQueries(
+  poId: string,
+  divisionId: string,
+  totalCents: number,
+  userId: string,
+  submittedAt: string,
+) {
+  const steps = await getApplicableApprovalSteps(divisionId, totalCents);
+  const tasks = steps.map((step) => withCreateAudit({
+    step_id: step.id ?? null,
+    step_order: step.step_order,
+    name: step.name,
+    approver_role: step.approver_role ?? null,
+    approver_user_id: step.approver_user_id ?? null,
+  }, userId));
+  const [audit] = tasks;
+
+  return [
+    // Any tasks left over from a previous round no longer apply
+    sql`
+      UPDATE po_approvals
+      SET status = 'cancelled', updated_at = NOW(), updated_by = ${userId}
+      WHERE po_id = ${poId} AND status = 'pending' AND EXISTS (
+        SELECT 1 FROM purchase_orders
+        WHERE id = ${poId} AND status = 'submitted' AND submitted_at = ${submittedAt}
+      )
+    `,
+    // One statement for every step, so they all share the round computed here
+    sql`
+      INSERT INTO po_approvals (
+        id, po_id, step_id, round, step_order, name, approver_role, approver_user_id,
+        status, created_at, updated_at, created_by, updated_by
+      )
+      SELECT
+        step.id, ${poId}, step.step_id, next_round.round, step.step_order, step.name,
+        step.approver_role, step.approver_user_id, 'pending',
+        ${audit.created_at}, ${audit.updated_at}, ${audit.created_by}, ${audit.updated_by}
+      FROM unnest(
+        ${tasks.map((task) => task.id)}::uuid[],
+        ${tasks.map((task) => task.step_id)}::uuid[],
+        ${tasks.map((task) => task.step_order)}::integer[],
+        ${tasks.map((task) => task.name)}::varchar[],
+        ${tasks.map((task) => task.approver_role)}::varchar[],
+        ${tasks.map((task) => task.approver_user_id)}::uuid[]
+      ) AS step(id, step_id, step_order, name, approver_role, approver_user_id)
+      CROSS JOIN (
+        SELECT COALESCE(MAX(round), 0) + 1 AS round FROM po_approvals WHERE po_id = ${poId}
+      ) next_round
+      WHERE EXISTS (
+        SELECT 1 FROM purchase_orders
+        WHERE id = ${poId} AND status = 'submitted' AND submitted_at = ${submittedAt}
+      )
+    `,
+  ];
+}
+
+// Approval tasks for the PO's latest submission round
+export async function getApprovalChain(poId: string): Promise<POApproval[]> {
+  const tasks = await sql`
+    SELECT
+      a.id, a.po_id, a.step_id, a.round, a.step_order, a.name, a.approver_role,
+      a.approver_user_id, a.status, a.acted_by, u.name as acted_by_name, a.acted_at,
+      a.comments, a.created_at, a.updated_at
+    FROM po_approvals a
+    LEFT JOIN users u ON a.acted_by = u.id
+    WHERE a.po_id = ${poId}
+      AND a.round = (SELECT MAX(round) FROM po_approvals WHERE po_id = ${poId})
+    ORDER BY a.step_order
+  `;
+
+  return tasks as POApproval[];
+}
+
+export function getCurrentApprovalTask(chain: POApproval[]): POApproval | undefined {
+  return chain.find((task) => task.status === 'pending');
+}
+
+// Returns why the user may not act on the task, or null when they may
+export function getApprovalTaskError(
+  user: AuthenticatedUser,
+  task: POApproval,
+  chain: POApproval[],
+): string | null {
+  // Admins can act on any step
+  if (user.role !== 'admin') {
+    if (task.approver_user_id && task.approver_user_id !== user.id) {
+      return 'This approval step is assigned to another user';
+    }
+
+    if (task.approver_role && task.approver_role !== user.role) {
+      return `This approval step requires the ${task.approver_role} role`;
+    }
+  }
+
+  // The same person cannot sign off more than one step of a chain
+  const alreadyApproved = chain.some(
+    (other) => other.id !== task.id && other.status === 'approved' && other.acted_by === user.id,
+  );
+  if (alreadyApproved) {
+    return 'You have already approved an earlier step of this purchase order';
+  }
+
+  return null;
+}
+
+// Joins each purchase order to its current pending approval task as `task`
+export const CURRENT_APPROVAL_TASK_JOIN = `
+  JOIN LATERAL (
+    SELECT a.id, a.round, a.step_order, a.name, a.approver_role, a.approver_user_id
+    FROM po_approvals a
+    WHERE a.po_id = po.id AND a.status = 'pending'
+    ORDER BY a.round DESC, a.step_order
+    LIMIT 1
+  ) task ON true
+`;
+
+// SQL counterpart of getApprovalTaskError plus the spending limit, for queries
+// joined with CURRENT_APPROVAL_TASK_JOIN. `user` must come from a fresh database lookup.
+export function applyApproverFilters(filters: FilterBuilder, user: AuthenticatedUser) {
+  const userId = filters.param(user.id);
+
+  filters.add(`NOT EXISTS (
+    SELECT 1 FROM po_approvals prior
+    WHERE prior.po_id = po.id AND prior.round = task.round
+      AND prior.status = 'approved' AND prior.acted_by = ${userId}
+  )`);
+
+  // Admins can act on any step and have no spending limit
+  if (user.role === 'admin') {
+    return;
+  }
+
+  filters.add(`(task.approver_user_id IS NULL OR task.approver_user_id = ${userId})`);
+  filters.add(`(task.approver_role IS NULL OR task.approver_role = ${filters.param(user.role)})`);
+  filters.add(`po.total_value_cents <= ${filters.param(Number(user.spending_limit_cents))}`);
+}
+
+export function summarizeApprovalChain(chain: POApproval[]) {
+  const current = getCurrentApprovalTask(chain);
+
+  return {
+    total_steps: chain.length,
+    approved_steps: chain.filter((task) => task.status === 'approved').length,
+    current_step: current ? { step_order: current.step_order, name: current.name } : null,
+    status: chain.some((task) => task.status === 'rejected')
+      ? 'rejected'
+      : current ? 'pending' : chain.length > 0 ? 'approved' : 'not_submitted',
+  };
+}
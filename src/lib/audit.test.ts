@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import sql from './db';
+import { verifyAuditChain } from './audit';
+
+vi.mock('./db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./db')>()),
+  default: vi.fn(),
+}));
+
+const mockSql = vi.mocked(sql) as unknown as ReturnType<typeof vi.fn>;
+
+function hashFor(seq: number): string {
+  return seq.toString(16).padStart(64, '0');
+}
+
+// A chain row as the verification query returns it; seq comes back as a string (BIGINT)
+function entry(seq: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `entry-${seq}`,
+    seq: String(seq),
+    prev_hash: seq === 1 ? null : hashFor(seq - 1),
+    hash: hashFor(seq),
+    expected_hash: hashFor(seq),
+    ...overrides,
+  };
+}
+
+function chain(from: number, to: number) {
+  return Array.from({ length: to - from + 1 }, (_, index) => entry(from + index));
+}
+
+describe('verifyAuditChain', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+  });
+
+  it('accepts an empty log', async () => {
+    mockSql.mockResolvedValueOnce([]);
+
+    expect(await verifyAuditChain()).toEqual({ valid: true, checked_count: 0, head: undefined });
+  });
+
+  it('accepts an intact chain and reports its head', async () => {
+    mockSql.mockResolvedValueOnce(chain(1, 3));
+
+    expect(await verifyAuditChain()).toEqual({
+      valid: true,
+      checked_count: 3,
+      head: { seq: 3, hash: hashFor(3) },
+    });
+  });
+
+  it('reads the log in batches, continuing after the last seq', async () => {
+    const onProgress = vi.fn();
+    mockSql.mockResolvedValueOnce(chain(1, 1000)).mockResolvedValueOnce(chain(1001, 1002));
+
+    const result = await verifyAuditChain(onProgress);
+
+    expect(result).toMatchObject({ valid: true, checked_count: 1002 });
+    expect(mockSql).toHaveBeenCalledTimes(2);
+    expect(mockSql.mock.calls[0][1]).toBe(0);
+    expect(mockSql.mock.calls[1][1]).toBe(1000);
+    expect(onProgress.mock.calls).toEqual([[1000], [1002]]);
+  });
+
+  it('detects a deleted first entry', async () => {
+    mockSql.mockResolvedValueOnce(chain(2, 3));
+
+    expect(await verifyAuditChain()).toEqual({
+      valid: false,
+      checked_count: 0,
+      head: undefined,
+      first_broken_link: { seq: 2, id: 'entry-2', reason: 'Entry 1 is missing' },
+    });
+  });
+
+  it('detects gaps left by deleted entries', async () => {
+    mockSql.mockResolvedValueOnce([...chain(1, 2), entry(5)]);
+
+    expect(await verifyAuditChain()).toEqual({
+      valid: false,
+      checked_count: 2,
+      head: { seq: 2, hash: hashFor(2) },
+      first_broken_link: { seq: 5, id: 'entry-5', reason: 'Entries 3 to 4 are missing' },
+    });
+  });
+
+  it('detects an entry that does not point at the previous hash', async () => {
+    mockSql.mockResolvedValueOnce([entry(1), entry(2, { prev_hash: hashFor(99) })]);
+
+    expect((await verifyAuditChain()).first_broken_link).toEqual({
+      seq: 2,
+      id: 'entry-2',
+      reason: 'prev_hash does not match the previous entry\'s hash',
+    });
+  });
+
+  it('detects a first entry that claims a predecessor', async () => {
+    mockSql.mockResolvedValueOnce([entry(1, { prev_hash: hashFor(0) })]);
+
+    expect((await verifyAuditChain()).first_broken_link?.reason)
+      .toBe('prev_hash does not match the previous entry\'s hash');
+  });
+
+  it('detects edited contents', async () => {
+    mockSql.mockResolvedValueOnce([entry(1), entry(2, { expected_hash: hashFor(42) })]);
+
+    expect(await verifyAuditChain()).toEqual({
+      valid: false,
+      checked_count: 1,
+      head: { seq: 1, hash: hashFor(1) },
+      first_broken_link: { seq: 2, id: 'entry-2', reason: 'Entry contents do not match its hash' },
+    });
+  });
+});
@@ -0,0 +1,401 @@
+// lib/audit.ts
+// Audit log queries, and the purchase order history timeline rendered from them
+
+import sql, { FilterBuilder } from './db';
+import { isValidUUID } from './auth';
+import {
+  AuditAction,
+  AuditChainVerification,
+  AuditLogEntry,
+  FieldChange,
+  PurchaseOrderHistoryEvent,
+  PurchaseOrderHistoryKind,
+} from './types';
+
+// Tables with audit triggers (see schema.sql)
+export const AUDITED_TABLES = [
+  'divisions',
+  'users',
+  'permissions',
+  'roles',
+  'role_permissions',
+  'user_roles',
+  'suppliers',
+  'delivery_addresses',
+  'purchase_orders',
+  'po_lines',
+  'division_approval_steps',
+  'division_budgets',
+  'po_approvals',
+  'files',
+  'deliveries',
+  'delivery_lines',
+  'invoices',
+  'invoice_lines',
+  'report_definitions',
+];
+
+export const AUDIT_ACTIONS: AuditAction[] = ['INSERT', 'UPDATE', 'DELETE'];
+
+// Bookkeeping columns that change with every write and say nothing about the change itself
+const UNDIFFED_COLUMNS = [
+  'id',
+  'created_at',
+  'updated_at',
+  'created_by',
+  'updated_by',
+  'deleted_at',
+];
+
+// Entries are ordered by seq, which the chain trigger assigns in commit order; `at` is the
+// transaction time, shared by every entry a transaction writes
+const AUDIT_LOG_SELECT = `
+  SELECT a.id, a.table_name, a.record_id, a.action, a.old_values, a.new_values, a.user_id,
+         COALESCE(u.name, u.email) as user_name, a.po_id, a.at, a.seq, a.prev_hash, a.hash
+  FROM audit_log a
+  LEFT JOIN users u ON a.user_id = u.id
+`;
+
+export function formatAuditLogEntry(row: Record<string, any>): AuditLogEntry {
+  return {
+    ...row,
+    old_values: row.old_values ?? undefined,
+    new_values: row.new_values ?? undefined,
+    user_id: row.user_id ?? undefined,
+    user_name: row.user_name ?? undefined,
+    po_id: row.po_id ?? undefined,
+    seq: Number(row.seq),
+    prev_hash: row.prev_hash ?? undefined,
+  } as AuditLogEntry;
+}
+
+// Cursors are opaque to clients: the seq of the last entry on the previous page
+interface AuditCursor {
+  seq: number;
+}
+
+function encodeAuditCursor(row: Record<string, any>): string {
+  return Buffer.from(JSON.stringify({ seq: Number(row.seq) })).toString('base64url');
+}
+
+function decodeAuditCursor(cursor: string): AuditCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (!Number.isSafeInteger(decoded?.seq) || decoded.seq < 1) {
+      return null;
+    }
+
+    return { seq: decoded.seq };
+  } catch {
+    return null;
+  }
+}
+
+export interface AuditLogQuery {
+  table?: string;
+  record_id?: string;
+  user_id?: string;
+  po_id?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  cursor?: string;
+}
+
+// Adds the audit log filters to a filter builder. Queries must alias audit_log as `a`.
+// Returns an error for the caller to send when a filter is invalid.
+export function applyAuditFilters(
+  filters: FilterBuilder,
+  query: AuditLogQuery,
+): { status: number; error: string } | null {
+  if (query.table) {
+    if (!AUDITED_TABLES.includes(query.table)) {
+      return { status: 400, error: 'Invalid table' };
+    }
+    filters.add(`a.table_name = ${filters.param(query.table)}`);
+  }
+
+  const idFilters = [
+    ['record_id', 'record', query.record_id],
+    ['user_id', 'user', query.user_id],
+    ['po_id', 'purchase order', query.po_id],
+  ] as const;
+
+  for (const [column, label, value] of idFilters) {
+    if (value) {
+      if (!isValidUUID(value)) {
+        return { status: 400, error: `Invalid ${label} ID format` };
+      }
+      filters.add(`a.${column} = ${filters.param(value)}`);
+    }
+  }
+
+  if (query.action) {
+    if (!AUDIT_ACTIONS.includes(query.action as AuditAction)) {
+      return { status: 400, error: 'Invalid action' };
+    }
+    filters.add(`a.action = ${filters.param(query.action)}`);
+  }
+
+  for (const [bound, value] of [['from', query.from], ['to', query.to]] as const) {
+    if (value && Number.isNaN(Date.parse(value))) {
+      return { status: 400, error: `Invalid ${bound} date` };
+    }
+  }
+
+  if (query.from) {
+    filters.add(`a.at >= ${filters.param(new Date(query.from))}`);
+  }
+
+  if (query.to) {
+    filters.add(`a.at <= ${filters.param(new Date(query.to))}`);
+  }
+
+  if (query.cursor) {
+    const cursor = decodeAuditCursor(query.cursor);
+
+    if (!cursor) {
+      return { status: 400, error: 'Invalid cursor' };
+    }
+
+    filters.add(`a.seq < ${filters.param(cursor.seq)}`);
+  }
+
+  return null;
+}
+
+// Newest first. next_cursor is null on the last page.
+export async function listAuditLog(
+  filters: FilterBuilder,
+  limit: number,
+): Promise<{ entries: AuditLogEntry[]; next_cursor: string | null }> {
+  // One extra row tells whether another page follows
+  const rows = await sql(`
+    ${AUDIT_LOG_SELECT}
+    ${filters.toString()}
+    ORDER BY a.seq DESC
+    LIMIT ${filters.param(limit + 1)}
+  `, filters.params);
+
+  const page = rows.slice(0, limit);
+
+  return {
+    entries: page.map(formatAuditLogEntry),
+    next_cursor: rows.length > limit ? encodeAuditCursor(page[page.length - 1]) : null,
+  };
+}
+
+const CHAIN_BATCH_SIZE = 1000;
+
+// Walks the hash chain from the first entry and stops at the first broken link: an entry
+// whose contents no longer match its hash, which does not point at the previous entry's hash,
+// or which follows a gap left by a deleted entry
+export async function verifyAuditChain(
+  onProgress?: (checkedCount: number) => void,
+): Promise<AuditChainVerification> {
+  let checkedCount = 0;
+  let previous: { seq: number; hash: string } | undefined;
+
+  for (;;) {
+    const rows = await sql`
+      SELECT id, seq, prev_hash, hash,
+             audit_log_hash(
+               seq, table_name, record_id, action, old_values, new_values, user_id, po_id, at,
+               prev_hash
+             ) as expected_hash
+      FROM audit_log
+      WHERE seq > ${previous?.seq ?? 0}
+      ORDER BY seq
+      LIMIT ${CHAIN_BATCH_SIZE}
+    `;
+
+    for (const row of rows) {
+      const seq = Number(row.seq);
+      let reason: string | null = null;
+
+      const expectedSeq = (previous?.seq ?? 0) + 1;
+
+      if (seq !== expectedSeq) {
+        reason = seq === expectedSeq + 1
+          ? `Entry ${expectedSeq} is missing`
+          : `Entries ${expectedSeq} to ${seq - 1} are missing`;
+      } else if ((row.prev_hash ?? undefined) !== previous?.hash) {
+        reason = 'prev_hash does not match the previous entry\'s hash';
+      } else if (row.hash !== row.expected_hash) {
+        reason = 'Entry contents do not match its hash';
+      }
+
+      if (reason) {
+        return {
+          valid: false,
+          checked_count: checkedCount,
+          head: previous,
+          first_broken_link: { seq, id: row.id, reason },
+        };
+      }
+
+      previous = { seq, hash: row.hash };
+      checkedCount++;
+    }
+
+    onProgress?.(checkedCount);
+
+    if (rows.length < CHAIN_BATCH_SIZE) {
+      return { valid: true, checked_count: checkedCount, head: previous };
+    }
+  }
+}
+
+// Field-level changes between two row snapshots; inserts list the values that were set
+export function diffAuditValues(
+  oldValues: Record<string, unknown> | undefined,
+  newValues: Record<string, unknown> | undefined,
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+
+  if (!newValues) {
+    return changes;
+  }
+
+  for (const [field, after] of Object.entries(newValues)) {
+    if (UNDIFFED_COLUMNS.includes(field)) {
+      continue;
+    }
+
+    const before = oldValues ? oldValues[field] ?? null : null;
+
+    if (JSON.stringify(before) !== JSON.stringify(after ?? null)) {
+      changes[field] = { from: before, to: after ?? null };
+    }
+  }
+
+  return changes;
+}
+
+const ACTION_VERBS: Record<AuditAction, string> = {
+  INSERT: 'added',
+  UPDATE: 'updated',
+  DELETE: 'removed',
+};
+
+// Turns one audit entry about a purchase order (or a row filed under it) into a timeline
+// event. Delivery and invoice lines refer to PO lines by ID, so line numbers are looked up.
+function describeHistoryEntry(
+  entry: AuditLogEntry,
+  changes: Record<string, FieldChange>,
+  lineNumbers: Map<string, number>,
+): { kind: PurchaseOrderHistoryKind; summary: string } {
+  const values = (entry.new_values ?? entry.old_values ?? {}) as Record<string, any>;
+  const verb = ACTION_VERBS[entry.action];
+  const statusChange = changes.status;
+  const lineNo = lineNumbers.get(values.po_line_id) ?? '?';
+
+  switch (entry.table_name) {
+  case 'purchase_orders':
+    if (entry.action === 'UPDATE' && statusChange) {
+      const reason = statusChange.to === 'rejected' && values.rejection_reason
+        ? `: ${values.rejection_reason}`
+        : '';
+      return {
+        kind: 'status',
+        summary: `Status changed from ${statusChange.from} to ${statusChange.to}${reason}`,
+      };
+    }
+    return {
+      kind: 'purchase_order',
+      summary: {
+        INSERT: 'Purchase order created',
+        UPDATE: 'Purchase order details updated',
+        DELETE: 'Purchase order deleted',
+      }[entry.action],
+    };
+  case 'po_lines':
+    return { kind: 'line', summary: `Line ${values.line_no} ${verb}` };
+  case 'po_approvals':
+    if (entry.action === 'INSERT') {
+      return { kind: 'approval', summary: `Approval step "${values.name}" requested` };
+    }
+    if (entry.action === 'UPDATE' && statusChange && statusChange.to !== 'pending') {
+      const comments = values.comments ? `: ${values.comments}` : '';
+      return {
+        kind: 'approval',
+        summary: `Approval step "${values.name}" ${statusChange.to}${comments}`,
+      };
+    }
+    return { kind: 'approval', summary: `Approval step "${values.name}" ${verb}` };
+  case 'deliveries':
+    if (entry.action === 'DELETE') {
+      const reason = values.void_reason ? `: ${values.void_reason}` : '';
+      return { kind: 'delivery', summary: `Delivery voided${reason}` };
+    }
+    if (entry.action === 'UPDATE' && changes.pod_file_id) {
+      return { kind: 'delivery', summary: 'Proof of delivery attached' };
+    }
+    return {
+      kind: 'delivery',
+      summary: entry.action === 'INSERT' ? 'Delivery recorded' : 'Delivery updated',
+    };
+  case 'delivery_lines':
+    return {
+      kind: 'delivery',
+      summary: entry.action === 'INSERT'
+        ? `Received ${values.qty_received} on line ${lineNo}`
+        : `Receipt on line ${lineNo} ${entry.action === 'DELETE' ? 'voided' : 'updated'}`,
+    };
+  case 'invoices': {
+    const invoice = `Invoice ${values.supplier_invoice_no}`;
+    if (entry.action === 'UPDATE' && statusChange) {
+      return { kind: 'invoice', summary: `${invoice} marked ${statusChange.to}` };
+    }
+    if (entry.action === 'UPDATE' && changes.match_status) {
+      return { kind: 'invoice', summary: `${invoice} match result: ${changes.match_status.to}` };
+    }
+    return {
+      kind: 'invoice',
+      summary: entry.action === 'INSERT' ? `${invoice} recorded` : `${invoice} ${verb}`,
+    };
+  }
+  case 'invoice_lines':
+    return {
+      kind: 'invoice',
+      summary: entry.action === 'INSERT'
+        ? `Invoiced ${values.qty_invoiced} on line ${lineNo}`
+        : `Invoice line for line ${lineNo} ${verb}`,
+    };
+  case 'files':
+    if (entry.action === 'UPDATE' && statusChange?.to === 'uploaded') {
+      return { kind: 'document', summary: `Document "${values.filename}" uploaded` };
+    }
+    return { kind: 'document', summary: `Document "${values.filename}" ${verb}` };
+  default:
+    return { kind: 'purchase_order', summary: `${entry.table_name} record ${verb}` };
+  }
+}
+
+// Oldest first, as a timeline reads
+export async function getPurchaseOrderHistory(poId: string): Promise<PurchaseOrderHistoryEvent[]> {
+  const [rows, lines] = await Promise.all([
+    sql(`${AUDIT_LOG_SELECT} WHERE a.po_id = $1 ORDER BY a.seq`, [poId]),
+    sql`SELECT id, line_no FROM po_lines WHERE po_id = ${poId}`,
+  ]);
+
+  const lineNumbers = new Map<string, number>(lines.map((line) => [line.id, line.line_no]));
+
+  return rows.map(formatAuditLogEntry).map((entry) => {
+    const changes = entry.action === 'DELETE'
+      ? {}
+      : diffAuditValues(entry.old_values, entry.new_values);
+
+    return {
+      at: entry.at,
+      ...describeHistoryEntry(entry, changes, lineNumbers),
+      action: entry.action,
+      user_id: entry.user_id,
+      user_name: entry.user_name,
+      table_name: entry.table_name,
+      record_id: entry.record_id,
+      changes,
+    };
+  });
+}
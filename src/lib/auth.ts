@@ -4,7 +4,9 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { FastifyRequest } from 'fastify';
-import sql from './db';
+import sql, { FilterBuilder } from './db';
+import { divisionSubtreeSql, isWithinDivision } from './divisions';
+import { getSessionUser } from './sessions';
 import { AuthenticatedUser } from './types';
 
 const JWT_SECRET = process.env.JWT_SECRET!;
@@ -12,16 +14,25 @@ if (!JWT_SECRET) {
   throw new Error('JWT_SECRET environment variable is required');
 }
 
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+// Access tokens are short-lived; clients renew them with their session's refresh token
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+
+// Set by authenticateUser for requests with a valid access token on a live session
+declare module 'fastify' {
+  interface FastifyRequest {
+    user?: AuthenticatedUser;
+  }
+}
 
 // JWT token utilities
-export function generateToken(user: AuthenticatedUser): string {
+export function generateToken(user: AuthenticatedUser, sessionId: string): string {
   const payload = {
     sub: user.sub,
     id: user.id,
     email: user.email,
     role: user.role,
     division_id: user.division_id,
+    sid: sessionId,
   };
   
   // Cast to avoid TypeScript issues with JWT library
@@ -75,12 +86,14 @@ export function extractUserFromRequest(request: FastifyRequest): AuthenticatedUs
     role: decoded.role,
     division_id: decoded.division_id,
     spending_limit_cents: decoded.spending_limit_cents || 0,
+    session_id: decoded.sid,
   };
 }
 
-// Authentication middleware for Fastify
+// Authentication middleware for Fastify. Returns the user loaded by the authenticateUser
+// hook, which only accepts tokens whose session is still live.
 export function requireAuth(request: FastifyRequest): AuthenticatedUser {
-  const user = extractUserFromRequest(request);
+  const user = request.user;
   
   if (!user) {
     throw new Error('Unauthorized: Valid JWT token required');
@@ -141,14 +154,64 @@ export function canManageRoles(user: AuthenticatedUser): boolean {
 }
 
 // Division-based authorization
-export function canAccessDivision(user: AuthenticatedUser, divisionId: string): boolean {
+export async function canAccessDivision(
+  user: AuthenticatedUser,
+  divisionId: string,
+): Promise<boolean> {
   // Admins can access all divisions
   if (user.role === 'admin') {
     return true;
   }
-  
-  // Users can only access their own division
-  return user.division_id === divisionId;
+
+  if (!user.division_id) {
+    return false;
+  }
+
+  if (user.division_id === divisionId) {
+    return true;
+  }
+
+  // Managers can also access every division beneath their own
+  return user.role === 'manager' && isWithinDivision(user.division_id, divisionId);
+}
+
+// Restricts a list query to one division (optionally with its descendants). Without an
+// explicit division, non-admins are scoped to their own. Returns an error for the caller
+// to send when the requested division is invalid or not accessible.
+export async function applyDivisionScope(
+  filters: FilterBuilder,
+  column: string,
+  user: AuthenticatedUser,
+  options: { divisionId?: string; includeDescendants?: boolean },
+): Promise<{ status: number; error: string } | null> {
+  let divisionId = options.divisionId;
+
+  if (divisionId) {
+    if (!isValidUUID(divisionId)) {
+      return { status: 400, error: 'Invalid division ID format' };
+    }
+    if (!(await canAccessDivision(user, divisionId))) {
+      return { status: 403, error: 'Forbidden' };
+    }
+  } else if (user.role !== 'admin') {
+    divisionId = user.division_id;
+    if (!divisionId) {
+      filters.add('FALSE');
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  // Basic users never see other divisions, so descendants only widen the scope for
+  // managers and admins
+  if (options.includeDescendants && user.role !== 'basic') {
+    filters.add(`${column} IN ${divisionSubtreeSql(filters.param(divisionId))}`);
+  } else {
+    filters.add(`${column} = ${filters.param(divisionId)}`);
+  }
+
+  return null;
 }
 
 // Spending limit authorization
@@ -162,21 +225,29 @@ export function canCreatePurchaseOrder(user: AuthenticatedUser, totalCents: numb
   return totalCents <= user.spending_limit_cents;
 }
 
-// Get authenticated user with database lookup
-export async function getAuthenticatedUser(request: FastifyRequest): Promise<AuthenticatedUser> {
-  const tokenUser = requireAuth(request);
-  
-  // Get fresh user data from database
+export function canApprovePurchaseOrder(user: AuthenticatedUser, totalCents: number): boolean {
+  // Admins have no spending limits
+  if (user.role === 'admin') {
+    return true;
+  }
+
+  // Approvers can only sign off orders within their own spending limit
+  return totalCents <= Number(user.spending_limit_cents);
+}
+
+// Load an active user from the database, or null when they are missing or deactivated.
+// Used where no request token is available, e.g. background jobs acting for a user.
+export async function getActiveUser(userId: string): Promise<AuthenticatedUser | null> {
   const [dbUser] = await sql`
     SELECT id, sub, email, name, role, division_id, spending_limit_cents, is_active
     FROM users 
-    WHERE id = ${tokenUser.id} AND deleted_at IS NULL
+    WHERE id = ${userId} AND deleted_at IS NULL
   `;
-  
+
   if (!dbUser || !dbUser.is_active) {
-    throw new Error('Unauthorized: User not found or inactive');
+    return null;
   }
-  
+
   return {
     id: dbUser.id,
     sub: dbUser.sub,
@@ -188,6 +259,22 @@ export async function getAuthenticatedUser(request: FastifyRequest): Promise<Aut
   };
 }
 
+// Get authenticated user with database lookup
+export async function getAuthenticatedUser(request: FastifyRequest): Promise<AuthenticatedUser> {
+  const tokenUser = requireAuth(request);
+  
+  // Get fresh user data from database
+  const dbUser = await getActiveUser(tokenUser.id);
+  
+  if (!dbUser) {
+    throw new Error('Unauthorized: User not found or inactive');
+  }
+
+  dbUser.session_id = tokenUser.session_id;
+  
+  return dbUser;
+}
+
 // Error types for better error handling
 export class AuthenticationError extends Error {
   statusCode = 401;
@@ -205,13 +292,17 @@ export class AuthorizationError extends Error {
   }
 }
 
-// Fastify hook for authentication
+// Fastify hook for authentication. The session lookup makes logout, revocation and user
+// deactivation take effect on access tokens that have not expired yet.
 export async function authenticateUser(request: FastifyRequest): Promise<void> {
   try {
-    const user = extractUserFromRequest(request);
-    if (user) {
-      // Add user to request context
-      (request as any).user = user;
+    const tokenUser = extractUserFromRequest(request);
+    if (tokenUser?.session_id) {
+      const user = await getSessionUser(tokenUser.session_id, tokenUser.id);
+      if (user) {
+        // Add user to request context
+        request.user = user;
+      }
     }
   } catch (error) {
     // Don't throw here - let individual routes decide if auth is required
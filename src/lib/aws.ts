@@ -9,8 +9,8 @@ const AWS_ACCESS_KEY_ID = process.env.AWS_ACCESS_KEY_ID;
 const AWS_SECRET_ACCESS_KEY = process.env.AWS_SECRET_ACCESS_KEY;
 const AWS_S3_BUCKET = process.env.AWS_S3_BUCKET;
 
-if (!AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY || !AWS_S3_BUCKET) {
-  console.warn('AWS credentials not configured. File upload/download features will be disabled.');
+export function isS3Configured(): boolean {
+  return Boolean(AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY && AWS_S3_BUCKET);
 }
 
 // Initialize S3 client
@@ -48,23 +48,33 @@ export function generateFileKey(folder: string, filename: string): string {
 export async function generateUploadUrl(
   filename: string,
   contentType: string,
-  folder: string = 'attachments'
+  folder: string = 'attachments',
 ): Promise<{ uploadUrl: string; key: string }> {
-  if (!AWS_S3_BUCKET) {
-    throw new Error('AWS S3 not configured');
-  }
-
   if (!ALLOWED_ATTACHMENT_TYPES.includes(contentType)) {
     throw new Error(`File type ${contentType} not allowed`);
   }
 
   const key = generateFileKey(folder, filename);
-  
+  const uploadUrl = await generateUploadUrlForKey(key, contentType);
+
+  return { uploadUrl, key };
+}
+
+// Generate pre-signed URL for uploading to a specific key
+export async function generateUploadUrlForKey(
+  key: string,
+  contentType: string,
+  expiresIn: number = 300, // 5 minutes
+): Promise<string> {
+  if (!AWS_S3_BUCKET) {
+    throw new Error('AWS S3 not configured');
+  }
+
   const params = {
     Bucket: AWS_S3_BUCKET,
     Key: key,
     ContentType: contentType,
-    Expires: 300, // 5 minutes
+    Expires: expiresIn,
     Conditions: [
       ['content-length-range', 0, MAX_ATTACHMENT_SIZE],
       ['eq', '$Content-Type', contentType],
@@ -72,18 +82,38 @@ export async function generateUploadUrl(
   };
 
   try {
-    const uploadUrl = await s3.getSignedUrlPromise('putObject', params);
-    return { uploadUrl, key };
+    return await s3.getSignedUrlPromise('putObject', params);
   } catch (error) {
     console.error('Error generating upload URL:', error);
     throw new Error('Failed to generate upload URL');
   }
 }
 
+// Upload file contents directly from the server
+export async function uploadFile(key: string, body: Buffer, contentType: string): Promise<void> {
+  if (!AWS_S3_BUCKET) {
+    throw new Error('AWS S3 not configured');
+  }
+
+  const params = {
+    Bucket: AWS_S3_BUCKET,
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+  };
+
+  try {
+    await s3.putObject(params).promise();
+  } catch (error) {
+    console.error('Error uploading file:', error);
+    throw new Error('Failed to upload file');
+  }
+}
+
 // Generate pre-signed URL for file download
 export async function generateDownloadUrl(
   key: string,
-  expiresIn: number = 3600 // 1 hour
+  expiresIn: number = 3600, // 1 hour
 ): Promise<string> {
   if (!AWS_S3_BUCKET) {
     throw new Error('AWS S3 not configured');
@@ -0,0 +1,115 @@
+// lib/budgets.ts
+// Division budget helpers: per-period budgets, commitments and actuals
+
+import sql from './db';
+import { BudgetSummary, DivisionBudget } from './types';
+
+// POs awaiting approval, and approved POs that have not been invoiced yet, count as
+// commitments, so a submission cannot ignore spend that is already in the approval queue
+const OPEN_COMMITMENT_PO_STATUSES = ['submitted', 'approved', 'delivered'];
+
+const BUDGET_COLUMNS = `
+  id, division_id, period_start::text as period_start, period_end::text as period_end,
+  budget_cents, enforcement, created_at, updated_at
+`;
+
+// BIGINT columns come back from the driver as strings
+function formatBudget(row: Record<string, any>): DivisionBudget {
+  return {
+    ...row,
+    budget_cents: Number(row.budget_cents),
+  } as DivisionBudget;
+}
+
+// The budget whose fiscal period contains `date` (YYYY-MM-DD, defaults to today)
+export async function getDivisionBudget(
+  divisionId: string,
+  date?: string,
+): Promise<DivisionBudget | null> {
+  const [row] = await sql(`
+    SELECT ${BUDGET_COLUMNS}
+    FROM division_budgets
+    WHERE division_id = $1 AND deleted_at IS NULL
+      AND COALESCE($2::date, CURRENT_DATE) BETWEEN period_start AND period_end
+    ORDER BY period_start DESC
+    LIMIT 1
+  `, [divisionId, date ?? null]);
+
+  return row ? formatBudget(row) : null;
+}
+
+// True when another active budget of the division overlaps the given period
+export async function hasOverlappingBudget(
+  divisionId: string,
+  periodStart: string,
+  periodEnd: string,
+  excludeId?: string,
+): Promise<boolean> {
+  const [overlap] = await sql`
+    SELECT id FROM division_budgets
+    WHERE division_id = ${divisionId} AND deleted_at IS NULL
+      AND period_start <= ${periodEnd}::date AND period_end >= ${periodStart}::date
+      AND id IS DISTINCT FROM ${excludeId ?? null}::uuid
+    LIMIT 1
+  `;
+
+  return Boolean(overlap);
+}
+
+// Commitments are submitted or approved POs not yet invoiced, attributed to the period
+// they were approved in, or submitted in while awaiting approval. Actuals are invoices
+// dated in the period; invoices against POs that are still committed are left out so the
+// same spend is never counted twice.
+export async function getBudgetSummary(budget: DivisionBudget): Promise<BudgetSummary> {
+  const [row] = await sql`
+    SELECT
+      (
+        SELECT COALESCE(SUM(po.total_value_cents), 0)
+        FROM purchase_orders po
+        WHERE po.division_id = ${budget.division_id} AND po.deleted_at IS NULL
+          AND po.status = ANY(${OPEN_COMMITMENT_PO_STATUSES})
+          AND COALESCE(po.approved_at, po.submitted_at, po.created_at)::date
+            BETWEEN ${budget.period_start}::date AND ${budget.period_end}::date
+      ) as committed_cents,
+      (
+        SELECT COALESCE(SUM(ROUND(il.qty_invoiced * il.unit_price_cents)), 0)
+        FROM invoice_lines il
+        JOIN invoices i ON il.invoice_id = i.id AND i.deleted_at IS NULL
+        JOIN purchase_orders po ON i.po_id = po.id
+        WHERE il.deleted_at IS NULL
+          AND po.division_id = ${budget.division_id}
+          AND po.status <> ALL(${OPEN_COMMITMENT_PO_STATUSES})
+          AND i.invoice_date BETWEEN ${budget.period_start}::date AND ${budget.period_end}::date
+      ) as actual_cents
+  `;
+
+  const committedCents = Number(row.committed_cents);
+  const actualCents = Number(row.actual_cents);
+
+  return {
+    budget,
+    committed_cents: committedCents,
+    actual_cents: actualCents,
+    remaining_cents: budget.budget_cents - committedCents - actualCents,
+  };
+}
+
+// Budget position for a PO about to be submitted. Returns null when the division has no
+// budget for the current period.
+export async function checkBudgetForSubmission(divisionId: string, totalCents: number) {
+  const budget = await getDivisionBudget(divisionId);
+
+  if (!budget) {
+    return null;
+  }
+
+  const summary = await getBudgetSummary(budget);
+  const projectedRemainingCents = summary.remaining_cents - totalCents;
+
+  return {
+    ...summary,
+    po_total_cents: totalCents,
+    projected_remaining_cents: projectedRemainingCents,
+    exceeded: projectedRemainingCents < 0,
+  };
+}
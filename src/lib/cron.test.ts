@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { CronParseError, getNextCronTime, parseCron } from './cron';
+
+function next(expression: string, after: string): string {
+  return getNextCronTime(expression, new Date(after)).toISOString();
+}
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-11 */10 1-12/6 mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect([...schedule.months]).toEqual([1, 7]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('runs a stepped single value to the end of the range', () => {
+    expect([...parseCron('10/20 * * * *').minutes]).toEqual([10, 30, 50]);
+  });
+
+  it('expands macros', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it.each([
+    ['* * * *', 'Cron expression must have 5 fields: minute hour day month weekday'],
+    ['60 * * * *', 'Invalid minute value: 60'],
+    ['*/0 * * * *', 'Invalid minute step: 0'],
+    ['5-1 * * * *', 'Invalid minute range: 5-1'],
+    ['* * 0 * *', 'Invalid day of month value: 0'],
+    ['* * * foo *', 'Invalid month value: foo'],
+    ['1/2/3 * * * *', 'Invalid minute field: 1/2/3'],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(new CronParseError(message));
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('returns the next matching minute', () => {
+    expect(next('*/15 * * * *', '2024-01-01T10:07:30Z')).toBe('2024-01-01T10:15:00.000Z');
+  });
+
+  it('is strictly after the given time', () => {
+    expect(next('*/15 * * * *', '2024-01-01T10:15:00Z')).toBe('2024-01-01T10:30:00.000Z');
+  });
+
+  it('finds the next weekday', () => {
+    // 3 January 2024 is a Wednesday
+    expect(next('0 9 * * 1', '2024-01-03T12:00:00Z')).toBe('2024-01-08T09:00:00.000Z');
+    expect(next('0 0 * * 7', '2024-01-03T12:00:00Z')).toBe('2024-01-07T00:00:00.000Z');
+  });
+
+  it('rolls over months and years', () => {
+    expect(next('@monthly', '2024-01-31T12:00:00Z')).toBe('2024-02-01T00:00:00.000Z');
+    expect(next('@yearly', '2024-06-01T00:00:00Z')).toBe('2025-01-01T00:00:00.000Z');
+    expect(next('30 8 * jan,jul mon-fri', '2024-06-15T00:00:00Z'))
+      .toBe('2024-07-01T08:30:00.000Z');
+  });
+
+  it('waits for a leap day', () => {
+    expect(next('0 0 29 2 *', '2023-03-01T00:00:00Z')).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  it('fires on either day field when both are restricted', () => {
+    // The 13th or any Friday; 5 January 2024 is the first Friday
+    expect(next('0 0 13 * 5', '2024-01-01T00:00:00Z')).toBe('2024-01-05T00:00:00.000Z');
+    expect(next('0 0 13 * 5', '2024-01-06T00:00:00Z')).toBe('2024-01-12T00:00:00.000Z');
+    expect(next('0 0 13 * 5', '2024-01-12T00:00:00Z')).toBe('2024-01-13T00:00:00.000Z');
+  });
+
+  it('accepts a parsed schedule', () => {
+    expect(getNextCronTime(parseCron('@hourly'), new Date('2024-01-01T10:59:59Z')).toISOString())
+      .toBe('2024-01-01T11:00:00.000Z');
+  });
+
+  it('gives up on dates that never exist', () => {
+    expect(() => next('0 0 30 2 *', '2024-01-01T00:00:00Z'))
+      .toThrow(new CronParseError('Cron expression never matches a date'));
+  });
+});
@@ -0,0 +1,172 @@
+// lib/cron.ts
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // As in standard cron, when both day fields are restricted a day matching either one runs
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is accepted as an alias for Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+// Searching minute by minute is bounded so impossible dates (e.g. 30 February) fail fast
+const MAX_SEARCH_STEPS = 100000;
+
+function parseValue(text: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex >= 0
+    ? nameIndex + (field.name === 'month' ? 1 : 0)
+    : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+
+  if (Number.isNaN(value) || value < field.min || value > field.max) {
+    throw new CronParseError(`Invalid ${field.name} value: ${text}`);
+  }
+
+  return value;
+}
+
+// Parses one field: '*', values, ranges and steps, combined in comma-separated lists
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+
+    if (extra !== undefined || !range) {
+      throw new CronParseError(`Invalid ${field.name} field: ${text}`);
+    }
+
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!/^\d+$/.test(stepText ?? '1') || step < 1) {
+      throw new CronParseError(`Invalid ${field.name} step: ${stepText}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [startText, endText] = range.split('-');
+      start = parseValue(startText, field);
+      end = parseValue(endText, field);
+    } else {
+      // A single value with a step runs from that value to the end of the range
+      start = parseValue(range, field);
+      end = stepText === undefined ? start : field.max;
+    }
+
+    if (start > end) {
+      throw new CronParseError(`Invalid ${field.name} range: ${range}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const parts = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+
+  if (parts.length !== FIELDS.length) {
+    throw new CronParseError('Cron expression must have 5 fields: minute hour day month weekday');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseField(part, FIELDS[index]),
+  );
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+// The first time strictly after `after` (to the minute) that the schedule fires
+export function getNextCronTime(schedule: CronSchedule | string, after: Date = new Date()): Date {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const time = new Date(after.getTime());
+
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!parsed.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(parsed, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!parsed.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+    } else if (!parsed.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return time;
+    }
+  }
+
+  throw new CronParseError('Cron expression never matches a date');
+}
@@ -25,9 +25,11 @@ export function isValidUUID(uuid: string): boolean {
 }
 
 // Audit trail helpers
+// The audit_log triggers in schema.sql attribute each change to the row's updated_by, so every
+// write must go through these
 export function withCreateAudit<T extends Record<string, any>>(
   data: T,
-  userId?: string
+  userId?: string,
 ): T & {
   id: string;
   created_at: string;
@@ -51,7 +53,7 @@ export function withCreateAudit<T extends Record<string, any>>(
 
 export function withUpdateAudit<T extends Record<string, any>>(
   data: T,
-  userId?: string
+  userId?: string,
 ): T & {
   updated_at: string;
   updated_by: string;
@@ -96,7 +98,7 @@ export function formatPaginationResponse<T>(
   data: T[],
   total: number,
   page: number,
-  limit: number
+  limit: number,
 ) {
   const totalPages = Math.ceil(total / limit);
   
@@ -111,6 +113,31 @@ export function formatPaginationResponse<T>(
   };
 }
 
+// Dynamic filter helper
+// The Neon HTTP driver does not compose nested sql`` fragments, so list endpoints
+// with optional filters build their WHERE clause as text and run it via sql(query, params)
+export function createFilterBuilder(baseConditions: string[] = []) {
+  const conditions = [...baseConditions];
+  const params: unknown[] = [];
+
+  return {
+    params,
+    // Registers a bound parameter and returns its placeholder ($1, $2, ...)
+    param(value: unknown): string {
+      params.push(value);
+      return `$${params.length}`;
+    },
+    add(condition: string) {
+      conditions.push(condition);
+    },
+    toString(): string {
+      return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    },
+  };
+}
+
+export type FilterBuilder = ReturnType<typeof createFilterBuilder>;
+
 // Database health check
 export async function checkDatabaseHealth(): Promise<boolean> {
   try {
@@ -124,7 +151,7 @@ export async function checkDatabaseHealth(): Promise<boolean> {
 
 // Transaction helper (for complex operations)
 export async function withTransaction<T>(
-  operation: () => Promise<T>
+  operation: () => Promise<T>,
 ): Promise<T> {
   // Note: Neon doesn't support traditional transactions in the same way
   // For now, we'll just execute the operation
@@ -0,0 +1,112 @@
+// lib/deliveries.ts
+// Delivery and receiving helpers shared by the delivery route handlers
+
+import sql from './db';
+import { Delivery, DeliveryLine, POLineReceipt } from './types';
+
+// Quantities are DECIMAL(12,2); compare them in hundredths to avoid float drift
+export function toQtyHundredths(qty: number): number {
+  return Math.round(qty * 100);
+}
+
+// Ordered vs received quantities for every active line of a purchase order.
+// Only non-voided deliveries count towards the received total.
+export async function getPOLineReceipts(poId: string): Promise<POLineReceipt[]> {
+  const rows = await sql`
+    SELECT
+      pl.id as po_line_id,
+      pl.line_no,
+      pl.sku,
+      pl.description,
+      pl.qty as qty_ordered,
+      COALESCE(SUM(dl.qty_received) FILTER (WHERE d.id IS NOT NULL), 0) as qty_received
+    FROM po_lines pl
+    LEFT JOIN delivery_lines dl ON dl.po_line_id = pl.id AND dl.deleted_at IS NULL
+    LEFT JOIN deliveries d ON dl.delivery_id = d.id AND d.deleted_at IS NULL
+    WHERE pl.po_id = ${poId} AND pl.deleted_at IS NULL
+    GROUP BY pl.id, pl.line_no, pl.sku, pl.description, pl.qty
+    ORDER BY pl.line_no
+  `;
+
+  return rows.map((row) => {
+    const qtyOrdered = Number(row.qty_ordered);
+    const qtyReceived = Number(row.qty_received);
+
+    return {
+      po_line_id: row.po_line_id,
+      line_no: row.line_no,
+      sku: row.sku ?? undefined,
+      description: row.description ?? undefined,
+      qty_ordered: qtyOrdered,
+      qty_received: qtyReceived,
+      qty_outstanding: (toQtyHundredths(qtyOrdered) - toQtyHundredths(qtyReceived)) / 100,
+    };
+  });
+}
+
+export function isFullyReceived(receipts: POLineReceipt[]): boolean {
+  return receipts.length > 0 && receipts.every((receipt) => receipt.qty_outstanding <= 0);
+}
+
+// SQL condition (for a purchase order aliased as `po`) that holds while any line
+// still has an outstanding quantity
+export const PO_HAS_OUTSTANDING_LINES = `
+  EXISTS (
+    SELECT 1 FROM po_lines pl
+    WHERE pl.po_id = po.id AND pl.deleted_at IS NULL
+      AND pl.qty > (
+        SELECT COALESCE(SUM(dl.qty_received), 0)
+        FROM delivery_lines dl
+        JOIN deliveries d ON dl.delivery_id = d.id AND d.deleted_at IS NULL
+        WHERE dl.po_line_id = pl.id AND dl.deleted_at IS NULL
+      )
+  )
+`;
+
+function formatDeliveryLine(row: Record<string, any>): DeliveryLine {
+  return {
+    ...row,
+    qty_received: Number(row.qty_received),
+  } as DeliveryLine;
+}
+
+// Deliveries recorded against a purchase order, newest first, with their lines
+export async function getPODeliveries(
+  poId: string,
+  options: { deliveryId?: string; includeVoided?: boolean } = {},
+): Promise<Delivery[]> {
+  const deliveries = await sql`
+    SELECT id, po_id, delivered_at, pod_file_url, pod_file_id, notes, void_reason,
+           created_at, updated_at, created_by, updated_by, deleted_at
+    FROM deliveries
+    WHERE po_id = ${poId}
+      AND (${options.deliveryId ?? null}::uuid IS NULL OR id = ${options.deliveryId ?? null})
+      AND (${options.includeVoided ?? false} OR deleted_at IS NULL)
+    ORDER BY delivered_at DESC, created_at DESC
+  `;
+
+  if (deliveries.length === 0) {
+    return [];
+  }
+
+  const lines = await sql`
+    SELECT dl.id, dl.delivery_id, dl.po_line_id, pl.line_no, dl.qty_received,
+           dl.created_at, dl.updated_at, dl.created_by, dl.updated_by
+    FROM delivery_lines dl
+    JOIN po_lines pl ON dl.po_line_id = pl.id
+    WHERE dl.delivery_id = ANY(${deliveries.map((delivery) => delivery.id)})
+    ORDER BY pl.line_no
+  `;
+
+  return deliveries.map((delivery) => ({
+    ...delivery,
+    pod_file_url: delivery.pod_file_url ?? undefined,
+    pod_file_id: delivery.pod_file_id ?? undefined,
+    notes: delivery.notes ?? undefined,
+    void_reason: delivery.void_reason ?? undefined,
+    deleted_at: delivery.deleted_at ?? undefined,
+    lines: lines
+      .filter((line) => line.delivery_id === delivery.id)
+      .map(formatDeliveryLine),
+  })) as Delivery[];
+}
@@ -0,0 +1,48 @@
+// lib/divisions.ts
+// Division hierarchy helpers (parent/child business units)
+
+import sql from './db';
+
+// SQL subquery returning the ids of a division and all of its active descendants.
+// `param` is the placeholder ($n) holding the root division id.
+export function divisionSubtreeSql(param: string): string {
+  return `(
+    WITH RECURSIVE division_tree AS (
+      SELECT id FROM divisions WHERE id = ${param} AND deleted_at IS NULL
+      UNION
+      SELECT child.id
+      FROM divisions child
+      JOIN division_tree parent ON child.parent_id = parent.id
+      WHERE child.deleted_at IS NULL
+    )
+    SELECT id FROM division_tree
+  )`;
+}
+
+export async function getDivisionSubtreeIds(divisionId: string): Promise<string[]> {
+  const rows = await sql(`SELECT id FROM ${divisionSubtreeSql('$1')} subtree`, [divisionId]);
+  return rows.map((row) => row.id);
+}
+
+// True when `divisionId` is `ancestorId` itself or sits anywhere beneath it
+export async function isWithinDivision(ancestorId: string, divisionId: string): Promise<boolean> {
+  if (ancestorId === divisionId) {
+    return true;
+  }
+
+  const [match] = await sql(
+    `SELECT 1 FROM ${divisionSubtreeSql('$1')} subtree WHERE id = $2`,
+    [ancestorId, divisionId],
+  );
+
+  return Boolean(match);
+}
+
+// Re-parenting `divisionId` under `parentId` would create a cycle when the new parent
+// is the division itself or one of its descendants
+export async function wouldCreateDivisionCycle(
+  divisionId: string,
+  parentId: string,
+): Promise<boolean> {
+  return isWithinDivision(divisionId, parentId);
+}
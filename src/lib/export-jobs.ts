@@ -0,0 +1,297 @@
+// lib/export-jobs.ts
+// Export job runner: a polling worker inside the long-running server process, and queue runs
+// started by the cron-invoked job trigger where no worker runs (serverless)
+
+import { FastifyBaseLogger } from 'fastify';
+import sql from './db';
+import { canAccessDivision, getActiveUser, hasPermission } from './auth';
+import {
+  GeneratedExport,
+  generatePurchaseOrderList,
+  generatePurchaseOrderPdf,
+  generateSpendBySupplier,
+} from './exports';
+import { deliverReportExport, notifyReportFailure } from './reports';
+import { getStorage } from './storage';
+import { ExportFormat, ReportType } from './types';
+
+const WORKER_POLL_INTERVAL_MS = 5000;
+
+// A job still running after this long was interrupted, e.g. by a restart or a serverless
+// timeout, and is marked failed so clients stop polling
+const STALE_JOB_MINUTES = 15;
+
+// Progress once a job is claimed and once its file is generated; list exports spread the
+// reading phase between the two
+const PROGRESS_STARTED = 5;
+const PROGRESS_GENERATED = 90;
+
+interface ExportJob {
+  id: string;
+  po_id: string | null;
+  format: ExportFormat;
+  report_type: ReportType;
+  report_id: string | null;
+  filters: Record<string, string> | null;
+  generated_by: string;
+}
+
+// Failures whose message is safe to show the user who requested the export
+class ExportJobError extends Error {}
+
+const JOB_RETURNING = `
+  RETURNING id, po_id, format, report_type, report_id, filters, generated_by
+`;
+
+// Claims the oldest queued job. SKIP LOCKED lets several server processes poll the same
+// queue without running a job twice.
+async function claimExportJob(): Promise<ExportJob | null> {
+  const rows = await sql(`
+    UPDATE exports
+    SET status = 'running', progress = $1, started_at = NOW()
+    WHERE id = (
+      SELECT id FROM exports
+      WHERE status = 'queued'
+      ORDER BY generated_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    ${JOB_RETURNING}
+  `, [PROGRESS_STARTED]);
+
+  return (rows[0] as ExportJob | undefined) ?? null;
+}
+
+async function setProgress(id: string, progress: number): Promise<void> {
+  await sql`
+    UPDATE exports SET progress = ${progress} WHERE id = ${id} AND status = 'running'
+  `;
+}
+
+// Exports run with the requesting user's current access, so revoked permissions or division
+// changes apply to jobs that were queued before them
+async function generateExport(job: ExportJob): Promise<GeneratedExport> {
+  const user = await getActiveUser(job.generated_by);
+
+  if (!user || !(await hasPermission(user.id, 'pos:read'))) {
+    throw new ExportJobError('Requesting user can no longer read purchase orders');
+  }
+
+  if (job.format === 'pdf') {
+    const [purchaseOrder] = await sql`
+      SELECT division_id FROM purchase_orders WHERE id = ${job.po_id} AND deleted_at IS NULL
+    `;
+
+    if (!purchaseOrder || !(await canAccessDivision(user, purchaseOrder.division_id))) {
+      throw new ExportJobError('Purchase order not found');
+    }
+
+    const generated = await generatePurchaseOrderPdf(job.po_id!);
+
+    if (!generated) {
+      throw new ExportJobError('Purchase order not found');
+    }
+
+    return generated;
+  }
+
+  if (job.report_type === 'spend_by_supplier') {
+    const result = await generateSpendBySupplier(job.format, user, job.filters ?? {});
+
+    if ('error' in result) {
+      throw new ExportJobError(result.error);
+    }
+
+    return result;
+  }
+
+  const result = await generatePurchaseOrderList(
+    job.format,
+    user,
+    job.filters ?? {},
+    (fraction) => setProgress(
+      job.id,
+      PROGRESS_STARTED + Math.floor(fraction * (PROGRESS_GENERATED - PROGRESS_STARTED)),
+    ),
+  );
+
+  if ('error' in result) {
+    throw new ExportJobError(result.error);
+  }
+
+  return result;
+}
+
+async function executeExportJob(job: ExportJob, logger: FastifyBaseLogger): Promise<void> {
+  try {
+    const generated = await generateExport(job);
+    await setProgress(job.id, PROGRESS_GENERATED);
+
+    const storage = getStorage();
+    const storageKey = `exports/${job.id}/${generated.filename}`;
+    await storage.putObject(storageKey, generated.body, generated.contentType);
+
+    const [completed] = await sql`
+      UPDATE exports
+      SET status = 'done',
+          progress = 100,
+          completed_at = NOW(),
+          filename = ${generated.filename},
+          content_type = ${generated.contentType},
+          size_bytes = ${generated.body.length},
+          row_count = ${generated.rowCount},
+          storage_key = ${storageKey},
+          file_url = ${`/api/v1/exports/${job.id}/download`}
+      WHERE id = ${job.id} AND status = 'running'
+      RETURNING id
+    `;
+
+    // The job was given up as stale while it ran, so its file will never be served
+    if (!completed) {
+      await storage.deleteObject(storageKey);
+      return;
+    }
+
+    if (job.report_id) {
+      await deliverReport(job, generated, logger);
+    }
+  } catch (error) {
+    logger.error(error, `Export job ${job.id} failed:`);
+
+    const message = error instanceof ExportJobError ? error.message : 'Export generation failed';
+
+    const [failed] = await sql`
+      UPDATE exports
+      SET status = 'failed', error_message = ${message}, completed_at = NOW()
+      WHERE id = ${job.id} AND status = 'running'
+      RETURNING id
+    `;
+
+    if (failed && job.report_id) {
+      await notifyReportFailure(job.report_id, job.id, message)
+        .catch((notifyError) => logger.error(notifyError, 'Error notifying report failure:'));
+    }
+  }
+}
+
+// Delivery problems (e.g. a mail outage) are logged without failing the finished export
+async function deliverReport(
+  job: ExportJob,
+  generated: GeneratedExport,
+  logger: FastifyBaseLogger,
+): Promise<void> {
+  try {
+    await deliverReportExport(job.report_id!, job.id, generated);
+  } catch (error) {
+    logger.error(error, `Error delivering report export ${job.id}:`);
+  }
+}
+
+// Runs queued jobs until the queue is empty or the deadline passes, returning how many ran.
+// A job that is started runs to completion, so callers leave headroom for one.
+export async function runQueuedExportJobs(
+  logger: FastifyBaseLogger,
+  deadline: number,
+): Promise<number> {
+  await failStaleExportJobs();
+
+  let ran = 0;
+
+  while (Date.now() < deadline) {
+    const job = await claimExportJob();
+
+    if (!job) {
+      break;
+    }
+
+    await executeExportJob(job, logger);
+    ran++;
+  }
+
+  return ran;
+}
+
+export async function failStaleExportJobs(): Promise<void> {
+  await sql`
+    UPDATE exports
+    SET status = 'failed', error_message = 'Export job was interrupted', completed_at = NOW()
+    WHERE status = 'running'
+      AND started_at < NOW() - ${STALE_JOB_MINUTES}::int * INTERVAL '1 minute'
+  `;
+}
+
+interface ExportWorker {
+  logger: FastifyBaseLogger;
+  timer: NodeJS.Timeout | null;
+  current: Promise<void> | null;
+  stopping: boolean;
+}
+
+let worker: ExportWorker | null = null;
+
+async function drainQueue(activeWorker: ExportWorker): Promise<void> {
+  await failStaleExportJobs();
+
+  while (!activeWorker.stopping) {
+    const job = await claimExportJob();
+
+    if (!job) {
+      return;
+    }
+
+    await executeExportJob(job, activeWorker.logger);
+  }
+}
+
+function schedulePoll(activeWorker: ExportWorker, delayMs: number): void {
+  activeWorker.timer = setTimeout(() => {
+    activeWorker.timer = null;
+    activeWorker.current = drainQueue(activeWorker)
+      .catch((error) => activeWorker.logger.error(error, 'Export worker poll failed:'))
+      .finally(() => {
+        activeWorker.current = null;
+        if (!activeWorker.stopping) {
+          schedulePoll(activeWorker, WORKER_POLL_INTERVAL_MS);
+        }
+      });
+  }, delayMs);
+}
+
+// Starts polling for queued exports; only long-running processes (server.ts) should call this
+export function startExportWorker(logger: FastifyBaseLogger): void {
+  if (worker) {
+    return;
+  }
+
+  worker = { logger, timer: null, current: null, stopping: false };
+  schedulePoll(worker, 0);
+}
+
+// Waits for the job in progress, if any, so shutdown does not leave it half-written
+export async function stopExportWorker(): Promise<void> {
+  if (!worker) {
+    return;
+  }
+
+  const stopping = worker;
+  worker = null;
+  stopping.stopping = true;
+
+  if (stopping.timer) {
+    clearTimeout(stopping.timer);
+  }
+
+  await stopping.current;
+}
+
+export function isExportWorkerRunning(): boolean {
+  return worker !== null;
+}
+
+// Skips the wait for the next poll when a job has just been queued
+export function notifyExportWorker(): void {
+  if (worker?.timer) {
+    clearTimeout(worker.timer);
+    schedulePoll(worker, 0);
+  }
+}
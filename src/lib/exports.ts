@@ -0,0 +1,535 @@
+// lib/exports.ts
+// Export generation: printable PO PDFs for suppliers, and CSV/JSON PO lists and spend reports
+
+import sql, { createFilterBuilder, FilterBuilder } from './db';
+import { applyDivisionScope, isValidUUID } from './auth';
+import { renderPdf, PdfLine, PDF_CONTENT_WIDTH, MONO_CHAR_WIDTH_EM } from './pdf';
+import {
+  COMMITTED_PO_STATUSES,
+  PURCHASE_ORDER_COLUMNS,
+  PURCHASE_ORDER_FROM,
+  PurchaseOrderListQuery,
+  applyPurchaseOrderFilters,
+  calculateLineTotalCents,
+  formatPOLine,
+  formatPurchaseOrder,
+  getPurchaseOrderDetail,
+} from './purchase-orders';
+import {
+  AuthenticatedUser,
+  Export,
+  ExportFormat,
+  POLine,
+  PurchaseOrderWithDelivery,
+  ReportType,
+} from './types';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'pdf'];
+
+export const REPORT_TYPES: ReportType[] = ['purchase_orders', 'spend_by_supplier'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  pdf: 'application/pdf',
+};
+
+// List exports are built in memory by the job runner, so they are capped to keep it bounded
+export const MAX_EXPORT_ROWS = 50000;
+
+const EXPORT_BATCH_SIZE = 1000;
+
+export const EXPORT_COLUMNS = `
+  id, po_id, format, report_type, report_id, status, progress, error_message, started_at,
+  completed_at, filename, content_type, size_bytes, row_count, filters, storage_key, file_url,
+  generated_at, generated_by, expires_at
+`;
+
+export interface GeneratedExport {
+  body: Buffer;
+  filename: string;
+  contentType: string;
+  rowCount: number;
+}
+
+// BIGINT columns come back from the driver as strings. The storage key stays internal:
+// downloads go through the export's own link so expiry can be enforced.
+export function formatExport(row: Record<string, any>): Export {
+  const exportRecord: Record<string, any> = {
+    ...row,
+    po_id: row.po_id ?? undefined,
+    report_id: row.report_id ?? undefined,
+    error_message: row.error_message ?? undefined,
+    started_at: row.started_at ?? undefined,
+    completed_at: row.completed_at ?? undefined,
+    filename: row.filename ?? undefined,
+    content_type: row.content_type ?? undefined,
+    size_bytes: row.size_bytes === null ? undefined : Number(row.size_bytes),
+    row_count: row.row_count === null ? undefined : Number(row.row_count),
+    filters: row.filters ?? undefined,
+    file_url: row.file_url ?? undefined,
+    expired: new Date(row.expires_at).getTime() <= Date.now(),
+  };
+
+  delete exportRecord.storage_key;
+
+  return exportRecord as Export;
+}
+
+export function formatCents(cents: number): string {
+  const sign = cents < 0 ? '-' : '';
+  const absolute = Math.abs(cents);
+  const dollars = Math.floor(absolute / 100).toLocaleString('en-US');
+
+  return `${sign}${dollars}.${String(absolute % 100).padStart(2, '0')}`;
+}
+
+// Timestamp columns arrive as Date objects, DATE columns cast to text as strings
+function formatDate(value: unknown): string {
+  if (!value) {
+    return '';
+  }
+
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10);
+}
+
+function formatTimestamp(value: unknown): string {
+  if (!value) {
+    return '';
+  }
+
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      // Words longer than a whole line are broken wherever they reach the edge
+      for (let start = 0; start < word.length; start += width) {
+        const chunk = word.slice(start, start + width);
+
+        if (!current) {
+          current = chunk;
+        } else if (current.length + 1 + chunk.length <= width) {
+          current = `${current} ${chunk}`;
+        } else {
+          lines.push(current);
+          current = chunk;
+        }
+      }
+    }
+
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+const PDF_TABLE_FONT_SIZE = 8;
+const PDF_TABLE_WIDTH = Math.floor(PDF_CONTENT_WIDTH / (PDF_TABLE_FONT_SIZE * MONO_CHAR_WIDTH_EM));
+
+// Fixed-width line item table columns; description takes whatever width is left
+const PDF_TABLE_COLUMNS = { line: 4, sku: 14, qty: 10, unitPrice: 14, total: 14 };
+const PDF_DESCRIPTION_WIDTH = PDF_TABLE_WIDTH - 5 -
+  Object.values(PDF_TABLE_COLUMNS).reduce((total, width) => total + width, 0);
+
+function tableRow(
+  line: string,
+  sku: string,
+  description: string,
+  qty: string,
+  unitPrice: string,
+  total: string,
+): PdfLine {
+  const columns = PDF_TABLE_COLUMNS;
+
+  return {
+    text: [
+      line.padStart(columns.line),
+      sku.slice(0, columns.sku).padEnd(columns.sku),
+      description.padEnd(PDF_DESCRIPTION_WIDTH),
+      qty.padStart(columns.qty),
+      unitPrice.padStart(columns.unitPrice),
+      total.padStart(columns.total),
+    ].join(' '),
+    font: 'mono',
+    size: PDF_TABLE_FONT_SIZE,
+  };
+}
+
+function section(title: string): PdfLine {
+  return { text: title, font: 'bold', size: 11, spaceBefore: 12 };
+}
+
+// Printable purchase order for sending to the supplier
+export function buildPurchaseOrderPdf(
+  purchaseOrder: PurchaseOrderWithDelivery,
+  divisionName: string,
+): Buffer {
+  const { supplier, delivery_address: address } = purchaseOrder;
+  const lines: PdfLine[] = [
+    { text: 'PURCHASE ORDER', font: 'bold', size: 18 },
+    { text: `PO number: ${purchaseOrder.id}`, spaceBefore: 6 },
+    { text: `Date: ${formatDate(purchaseOrder.approved_at ?? purchaseOrder.created_at)}` },
+    { text: `Division: ${divisionName}` },
+    { text: `Status: ${purchaseOrder.status}` },
+  ];
+
+  if (purchaseOrder.order_type === 'rolling') {
+    lines.push({
+      text: `Rolling order${purchaseOrder.order_end_date
+        ? ` ending ${formatDate(purchaseOrder.order_end_date)}`
+        : ''}`,
+    });
+  }
+
+  if (!COMMITTED_PO_STATUSES.includes(purchaseOrder.status)) {
+    lines.push({
+      text: 'NOT APPROVED - this order must not be fulfilled',
+      font: 'bold',
+      spaceBefore: 6,
+    });
+  }
+
+  lines.push(section('Supplier'));
+  if (supplier) {
+    lines.push({ text: supplier.name });
+    if (supplier.contact_email) {
+      lines.push({ text: supplier.contact_email });
+    }
+    if (supplier.contact_phone) {
+      lines.push({ text: supplier.contact_phone });
+    }
+  } else {
+    lines.push({ text: 'Not specified' });
+  }
+
+  lines.push(section('Deliver to'));
+  if (address) {
+    lines.push({ text: address.name });
+    lines.push({ text: address.address_line_1 });
+    if (address.address_line_2) {
+      lines.push({ text: address.address_line_2 });
+    }
+    lines.push({ text: `${address.city}, ${address.state} ${address.postal_code}` });
+    lines.push({ text: address.country });
+  } else {
+    lines.push({ text: 'Not specified' });
+  }
+
+  const header = tableRow('Line', 'SKU', 'Description', 'Qty', 'Unit price', 'Total');
+
+  lines.push(section('Order lines'));
+  lines.push({ ...header, spaceBefore: 4 });
+  lines.push({ ...header, text: '-'.repeat(header.text.length) });
+
+  for (const line of purchaseOrder.lines ?? []) {
+    const [firstDescription, ...moreDescription] = wrapText(
+      line.description ?? '',
+      PDF_DESCRIPTION_WIDTH,
+    );
+
+    lines.push(tableRow(
+      String(line.line_no),
+      line.sku ?? '',
+      firstDescription ?? '',
+      String(line.qty),
+      formatCents(line.unit_price_cents),
+      formatCents(calculateLineTotalCents(line)),
+    ));
+
+    for (const description of moreDescription) {
+      lines.push(tableRow('', '', description, '', '', ''));
+    }
+  }
+
+  lines.push({
+    ...tableRow('', '', '', '', 'Order total', formatCents(purchaseOrder.total_value_cents)),
+    spaceBefore: 6,
+  });
+
+  return renderPdf(lines, `Purchase order ${purchaseOrder.id}`);
+}
+
+// Generates the printable PDF for one purchase order, or null when it does not exist
+export async function generatePurchaseOrderPdf(poId: string): Promise<GeneratedExport | null> {
+  const purchaseOrder = await getPurchaseOrderDetail(poId);
+
+  if (!purchaseOrder) {
+    return null;
+  }
+
+  const [division] = await sql`SELECT name FROM divisions WHERE id = ${purchaseOrder.division_id}`;
+
+  return {
+    body: buildPurchaseOrderPdf(purchaseOrder, division?.name ?? ''),
+    filename: `purchase-order-${poId}.pdf`,
+    contentType: EXPORT_CONTENT_TYPES.pdf,
+    rowCount: 1,
+  };
+}
+
+// Quotes fields containing delimiters, and neutralises values a spreadsheet would
+// otherwise evaluate as a formula
+function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number | null | undefined)[][]): Buffer {
+  const lines = [header, ...rows].map((row) => row.map(csvField).join(','));
+
+  return Buffer.from(`${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+const PURCHASE_ORDER_CSV_HEADER = [
+  'po_id',
+  'status',
+  'order_type',
+  'division',
+  'supplier',
+  'total_value_cents',
+  'total_value',
+  'line_count',
+  'tags',
+  'order_end_date',
+  'created_at',
+  'submitted_at',
+  'approved_at',
+];
+
+export function buildPurchaseOrderCsv(
+  purchaseOrders: (PurchaseOrderWithDelivery & { division_name?: string })[],
+): Buffer {
+  return toCsv(PURCHASE_ORDER_CSV_HEADER, purchaseOrders.map((po) => [
+    po.id,
+    po.status,
+    po.order_type,
+    po.division_name ?? '',
+    po.supplier?.name ?? '',
+    po.total_value_cents,
+    formatCents(po.total_value_cents),
+    po.lines?.length ?? 0,
+    (po.tags ?? []).join(';'),
+    formatDate(po.order_end_date),
+    formatTimestamp(po.created_at),
+    formatTimestamp(po.submitted_at),
+    formatTimestamp(po.approved_at),
+  ]));
+}
+
+// Builds the standard PO list filters, scoped to the divisions the user can access, and
+// counts the matching orders. Returns an error for the caller to send when the filters are
+// invalid or match too many orders.
+async function prepareListExport(
+  user: AuthenticatedUser,
+  query: PurchaseOrderListQuery,
+): Promise<{ status: number; error: string } | { filters: FilterBuilder; count: number }> {
+  const filters = createFilterBuilder(['po.deleted_at IS NULL']);
+  const filterError = await applyPurchaseOrderFilters(filters, user, query);
+
+  if (filterError) {
+    return filterError;
+  }
+
+  const [{ count }] = await sql(`
+    SELECT COUNT(*) as count
+    FROM purchase_orders po
+    LEFT JOIN suppliers s ON po.supplier_id = s.id AND s.deleted_at IS NULL
+    ${filters.toString()}
+  `, [...filters.params]);
+
+  if (Number(count) > MAX_EXPORT_ROWS) {
+    return {
+      status: 400,
+      error: `Export would include ${count} purchase orders; narrow the filters to at most ` +
+        `${MAX_EXPORT_ROWS}`,
+    };
+  }
+
+  return { filters, count: Number(count) };
+}
+
+// Checks a list export request up front, so bad filters are rejected before a job is queued
+export async function countPurchaseOrdersForExport(
+  user: AuthenticatedUser,
+  query: PurchaseOrderListQuery,
+): Promise<{ status: number; error: string } | { count: number }> {
+  const result = await prepareListExport(user, query);
+
+  return 'error' in result ? result : { count: result.count };
+}
+
+// Generates a CSV or JSON list of the purchase orders matching the standard PO list
+// filters. Orders are read in batches, reporting the fraction done after each one.
+export async function generatePurchaseOrderList(
+  format: 'csv' | 'json',
+  user: AuthenticatedUser,
+  query: PurchaseOrderListQuery,
+  onProgress?: (fraction: number) => Promise<void>,
+): Promise<{ status: number; error: string } | GeneratedExport> {
+  const prepared = await prepareListExport(user, query);
+
+  if ('error' in prepared) {
+    return prepared;
+  }
+
+  const { filters, count } = prepared;
+  const purchaseOrders: (PurchaseOrderWithDelivery & { division_name: string })[] = [];
+
+  // The offset is bound per batch, after the filter and batch size parameters
+  const batchQuery = `
+    SELECT ${PURCHASE_ORDER_COLUMNS}, dv.name as division_name
+    ${PURCHASE_ORDER_FROM}
+    LEFT JOIN divisions dv ON po.division_id = dv.id
+    ${filters.toString()}
+    ORDER BY po.created_at DESC, po.id
+    LIMIT ${filters.param(EXPORT_BATCH_SIZE)} OFFSET $${filters.params.length + 1}
+  `;
+
+  for (let offset = 0; offset < count; offset += EXPORT_BATCH_SIZE) {
+    const rows = await sql(batchQuery, [...filters.params, offset]);
+
+    if (rows.length === 0) {
+      break;
+    }
+
+    const batch = rows.map((row) => ({
+      ...formatPurchaseOrder(row),
+      division_name: row.division_name as string,
+      lines: [] as POLine[],
+    }));
+
+    const lineRows = await sql`
+      SELECT id, po_id, line_no, sku, description, qty, unit_price_cents,
+             created_at, updated_at, created_by, updated_by
+      FROM po_lines
+      WHERE po_id = ANY(${batch.map((po) => po.id)}) AND deleted_at IS NULL
+      ORDER BY po_id, line_no
+    `;
+
+    const byId = new Map(batch.map((po) => [po.id, po]));
+    for (const line of lineRows.map(formatPOLine)) {
+      byId.get(line.po_id)?.lines.push(line);
+    }
+
+    purchaseOrders.push(...batch);
+
+    if (onProgress) {
+      await onProgress(Math.min(purchaseOrders.length / count, 1));
+    }
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  const body = format === 'csv'
+    ? buildPurchaseOrderCsv(purchaseOrders)
+    : Buffer.from(JSON.stringify({
+      generated_at: new Date().toISOString(),
+      filters: query,
+      count: purchaseOrders.length,
+      purchase_orders: purchaseOrders,
+    }, null, 2), 'utf8');
+
+  return {
+    body,
+    filename: `purchase-orders-${date}.${format}`,
+    contentType: EXPORT_CONTENT_TYPES[format],
+    rowCount: purchaseOrders.length,
+  };
+}
+
+// Committed spend per supplier: approved orders (see COMMITTED_PO_STATUSES) counted by the
+// date they were committed, scoped to the divisions the user can access. Status, order type
+// and search filters do not apply.
+export async function generateSpendBySupplier(
+  format: 'csv' | 'json',
+  user: AuthenticatedUser,
+  query: PurchaseOrderListQuery,
+): Promise<{ status: number; error: string } | GeneratedExport> {
+  const filters = createFilterBuilder(['po.deleted_at IS NULL']);
+  filters.add(`po.status = ANY(${filters.param(COMMITTED_PO_STATUSES)})`);
+
+  const scopeError = await applyDivisionScope(filters, 'po.division_id', user, {
+    divisionId: query.division_id,
+    includeDescendants: query.include_descendants === 'true',
+  });
+
+  if (scopeError) {
+    return scopeError;
+  }
+
+  if (query.supplier_id && isValidUUID(query.supplier_id)) {
+    filters.add(`po.supplier_id = ${filters.param(query.supplier_id)}`);
+  }
+
+  const committedAt = 'COALESCE(po.approved_at, po.submitted_at, po.created_at)';
+
+  if (query.from_date) {
+    filters.add(`${committedAt} >= ${filters.param(new Date(query.from_date))}`);
+  }
+
+  if (query.to_date) {
+    filters.add(`${committedAt} <= ${filters.param(new Date(query.to_date))}`);
+  }
+
+  const rows = await sql(`
+    SELECT
+      s.id as supplier_id,
+      s.name as supplier_name,
+      COUNT(*) as po_count,
+      COALESCE(SUM(po.total_value_cents), 0) as committed_cents
+    FROM purchase_orders po
+    LEFT JOIN suppliers s ON po.supplier_id = s.id
+    ${filters.toString()}
+    GROUP BY s.id, s.name
+    ORDER BY committed_cents DESC, s.name
+  `, filters.params);
+
+  const suppliers = rows.map((row) => ({
+    supplier_id: row.supplier_id as string | null,
+    supplier_name: (row.supplier_name as string | null) ?? 'No supplier',
+    po_count: Number(row.po_count),
+    committed_cents: Number(row.committed_cents),
+  }));
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  const body = format === 'csv'
+    ? toCsv(
+      ['supplier_id', 'supplier', 'po_count', 'committed_cents', 'committed'],
+      suppliers.map((supplier) => [
+        supplier.supplier_id,
+        supplier.supplier_name,
+        supplier.po_count,
+        supplier.committed_cents,
+        formatCents(supplier.committed_cents),
+      ]),
+    )
+    : Buffer.from(JSON.stringify({
+      generated_at: new Date().toISOString(),
+      filters: query,
+      total_committed_cents: suppliers.reduce((total, row) => total + row.committed_cents, 0),
+      suppliers,
+    }, null, 2), 'utf8');
+
+  return {
+    body,
+    filename: `spend-by-supplier-${date}.${format}`,
+    contentType: EXPORT_CONTENT_TYPES[format],
+    rowCount: suppliers.length,
+  };
+}
@@ -0,0 +1,185 @@
+// lib/files.ts
+// File record helpers shared by the file route handlers
+
+import sql, { withSoftDelete, withUpdateAudit } from './db';
+import { canAccessDivision, hasPermission } from './auth';
+import { AuthenticatedUser, FileEntityType, StoredFile } from './types';
+
+export const FILE_ENTITY_TYPES: FileEntityType[] = ['purchase_order', 'delivery', 'invoice'];
+
+export const FILE_COLUMNS = `
+  id, owner_id, entity_type, entity_id, filename, content_type, size_bytes, sha256,
+  storage_key, status, uploaded_at, created_at, updated_at
+`;
+
+// BIGINT columns come back from the driver as strings
+export function formatFile(row: Record<string, any>): StoredFile {
+  return {
+    ...row,
+    entity_type: row.entity_type ?? undefined,
+    entity_id: row.entity_id ?? undefined,
+    size_bytes: row.size_bytes === null ? undefined : Number(row.size_bytes),
+    sha256: row.sha256 ?? undefined,
+    uploaded_at: row.uploaded_at ?? undefined,
+  } as StoredFile;
+}
+
+export async function getFile(id: string): Promise<StoredFile | null> {
+  const [row] = await sql(
+    `SELECT ${FILE_COLUMNS} FROM files WHERE id = $1 AND deleted_at IS NULL`,
+    [id],
+  );
+
+  return row ? formatFile(row) : null;
+}
+
+// Division of the purchase order a linked record belongs to, or null when the record
+// does not exist
+export async function getEntityDivisionId(
+  entityType: FileEntityType,
+  entityId: string,
+): Promise<string | null> {
+  let rows;
+
+  if (entityType === 'purchase_order') {
+    rows = await sql`
+      SELECT division_id FROM purchase_orders WHERE id = ${entityId} AND deleted_at IS NULL
+    `;
+  } else if (entityType === 'delivery') {
+    rows = await sql`
+      SELECT po.division_id
+      FROM deliveries d
+      JOIN purchase_orders po ON d.po_id = po.id
+      WHERE d.id = ${entityId} AND d.deleted_at IS NULL
+    `;
+  } else {
+    rows = await sql`
+      SELECT po.division_id
+      FROM invoices i
+      JOIN purchase_orders po ON i.po_id = po.id
+      WHERE i.id = ${entityId} AND i.deleted_at IS NULL
+    `;
+  }
+
+  return rows[0]?.division_id ?? null;
+}
+
+// Owners can always reach their files; linked files follow the division access of the
+// record they are attached to
+export async function canAccessFile(user: AuthenticatedUser, file: StoredFile): Promise<boolean> {
+  if (user.role === 'admin' || file.owner_id === user.id) {
+    return true;
+  }
+
+  if (!file.entity_type || !file.entity_id) {
+    return false;
+  }
+
+  const divisionId = await getEntityDivisionId(file.entity_type, file.entity_id);
+
+  return divisionId !== null && canAccessDivision(user, divisionId);
+}
+
+// Checks that an uploaded file may be linked to a record: the upload must be confirmed,
+// the caller must own it (unless they hold files:manage) and it must not already belong
+// to a different record. Returns the file or an error for the caller to send.
+export async function getLinkableFile(
+  user: AuthenticatedUser,
+  fileId: string,
+  entityType: FileEntityType,
+  entityId: string,
+): Promise<{ status: number; error: string } | { file: StoredFile }> {
+  const file = await getFile(fileId);
+
+  if (!file) {
+    return { status: 400, error: 'File not found' };
+  }
+
+  if (file.owner_id !== user.id && !(await hasPermission(user.id, 'files:manage'))) {
+    return { status: 403, error: 'Only the uploader can attach this file' };
+  }
+
+  if (file.status !== 'uploaded') {
+    return { status: 400, error: 'File upload has not been confirmed' };
+  }
+
+  if (file.entity_id && !(file.entity_type === entityType && file.entity_id === entityId)) {
+    return { status: 400, error: 'File is already linked to another record' };
+  }
+
+  return { file };
+}
+
+const FILE_ENTITY_TABLES: Record<FileEntityType, string> = {
+  purchase_order: 'purchase_orders',
+  delivery: 'deliveries',
+  invoice: 'invoices',
+};
+
+// Records that hold a single document, and the column pointing at it
+const DOCUMENT_COLUMNS: Record<'delivery' | 'invoice', string> = {
+  delivery: 'pod_file_id',
+  invoice: 'invoice_file_id',
+};
+
+// Query linking a file to a record, for use inside the caller's transaction after the
+// record is written. It only links when the record exists and now references the file
+// (in its attachment list or document column), so a guarded write that did nothing
+// leaves the file unlinked. The file conditions repeat getLinkableFile's, since the file may have
+// changed since that check.
+export function buildFileLinkQuery(
+  fileId: string,
+  entityType: FileEntityType,
+  entityId: string,
+  userId: string,
+) {
+  const linkData = withUpdateAudit({ entity_type: entityType, entity_id: entityId }, userId);
+  const references = entityType === 'purchase_order'
+    ? "AND attachments @> jsonb_build_array(jsonb_build_object('fileId', files.id))"
+    : `AND ${DOCUMENT_COLUMNS[entityType]} = files.id`;
+
+  return sql(`
+    UPDATE files
+    SET entity_type = $1, entity_id = $2, updated_at = $3, updated_by = $4
+    WHERE id = $5 AND deleted_at IS NULL AND status = 'uploaded'
+      AND (entity_id IS NULL OR (entity_type = $1 AND entity_id = $2))
+      AND EXISTS (
+        SELECT 1 FROM ${FILE_ENTITY_TABLES[entityType]}
+        WHERE id = $2 AND deleted_at IS NULL ${references}
+      )
+  `, [
+    linkData.entity_type,
+    linkData.entity_id,
+    linkData.updated_at,
+    linkData.updated_by,
+    fileId,
+  ]);
+}
+
+// Query soft-deleting documents still linked to a record that no longer references them,
+// for use inside the caller's transaction after the reference is replaced. It returns the
+// storage keys of the deleted files so their objects can be removed once it commits.
+export function buildReplacedDocumentDeleteQuery(
+  entityType: 'delivery' | 'invoice',
+  entityId: string,
+  userId: string,
+) {
+  const deleteData = withSoftDelete(userId);
+
+  return sql(`
+    UPDATE files
+    SET deleted_at = $1, updated_at = $2, updated_by = $3
+    WHERE entity_type = $4 AND entity_id = $5 AND deleted_at IS NULL
+      AND id <> ALL(
+        SELECT ${DOCUMENT_COLUMNS[entityType]} FROM ${FILE_ENTITY_TABLES[entityType]}
+        WHERE id = $5 AND ${DOCUMENT_COLUMNS[entityType]} IS NOT NULL
+      )
+    RETURNING storage_key
+  `, [
+    deleteData.deleted_at,
+    deleteData.updated_at,
+    deleteData.updated_by,
+    entityType,
+    entityId,
+  ]);
+}
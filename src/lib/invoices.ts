@@ -0,0 +1,129 @@
+// lib/invoices.ts
+// Invoice helpers shared by the invoice route handlers
+
+import sql from './db';
+import { Invoice, InvoiceLine } from './types';
+
+// Shared SELECT for invoice reads; callers append their own WHERE/ORDER clauses.
+// Division and supplier come from the purchase order the invoice is raised against.
+export const INVOICE_SELECT = `
+  SELECT
+    i.id,
+    i.po_id,
+    i.supplier_invoice_no,
+    i.invoice_date::text as invoice_date,
+    i.invoice_file_url,
+    i.invoice_file_id,
+    i.status,
+    i.match_status,
+    i.match_discrepancies,
+    i.match_tolerances,
+    i.matched_at,
+    i.matched_by,
+    i.approved_by,
+    i.approved_at,
+    i.paid_by,
+    i.paid_at,
+    i.payment_reference,
+    i.payment_date::text as payment_date,
+    i.created_at,
+    i.updated_at,
+    i.created_by,
+    i.updated_by,
+    po.division_id,
+    po.status as po_status,
+    po.supplier_id,
+    s.name as supplier_name,
+    (
+      SELECT COALESCE(SUM(ROUND(il.qty_invoiced * il.unit_price_cents)), 0)
+      FROM invoice_lines il
+      WHERE il.invoice_id = i.id AND il.deleted_at IS NULL
+    ) as total_cents
+  FROM invoices i
+  JOIN purchase_orders po ON i.po_id = po.id
+  LEFT JOIN suppliers s ON po.supplier_id = s.id
+`;
+
+// BIGINT and DECIMAL columns come back from the driver as strings
+export function formatInvoiceLine(row: Record<string, any>): InvoiceLine {
+  return {
+    ...row,
+    qty_invoiced: Number(row.qty_invoiced),
+    unit_price_cents: Number(row.unit_price_cents),
+  } as InvoiceLine;
+}
+
+export function formatInvoice(row: Record<string, any>) {
+  return {
+    ...row,
+    invoice_file_url: row.invoice_file_url ?? undefined,
+    invoice_file_id: row.invoice_file_id ?? undefined,
+    match_discrepancies: row.match_discrepancies ?? [],
+    match_tolerances: row.match_tolerances ?? undefined,
+    matched_at: row.matched_at ?? undefined,
+    matched_by: row.matched_by ?? undefined,
+    approved_by: row.approved_by ?? undefined,
+    approved_at: row.approved_at ?? undefined,
+    paid_by: row.paid_by ?? undefined,
+    paid_at: row.paid_at ?? undefined,
+    payment_reference: row.payment_reference ?? undefined,
+    payment_date: row.payment_date ?? undefined,
+    total_cents: Number(row.total_cents),
+  } as Invoice & {
+    division_id: string;
+    po_status: string;
+    supplier_id?: string;
+    supplier_name?: string;
+  };
+}
+
+export async function getInvoiceLines(invoiceId: string): Promise<InvoiceLine[]> {
+  const lines = await sql`
+    SELECT il.id, il.invoice_id, il.po_line_id, pl.line_no, il.qty_invoiced, il.unit_price_cents,
+           il.created_at, il.updated_at, il.created_by, il.updated_by
+    FROM invoice_lines il
+    JOIN po_lines pl ON il.po_line_id = pl.id
+    WHERE il.invoice_id = ${invoiceId} AND il.deleted_at IS NULL
+    ORDER BY pl.line_no
+  `;
+
+  return lines.map(formatInvoiceLine);
+}
+
+// Load an invoice with its active lines
+export async function getInvoiceDetail(id: string) {
+  const [row] = await sql(`${INVOICE_SELECT} WHERE i.id = $1 AND i.deleted_at IS NULL`, [id]);
+
+  if (!row) {
+    return null;
+  }
+
+  const invoice = formatInvoice(row);
+  invoice.lines = await getInvoiceLines(id);
+
+  return invoice;
+}
+
+// Query (for use inside the caller's transaction) that sets a fully received PO's status
+// from its invoices: exceptions while any invoice has match exceptions, invoiced once one
+// has matched cleanly, otherwise back to delivered. POs still awaiting goods and POs
+// already invoiced keep their status, so receiving can carry on and invoiced stays final.
+export function buildInvoicedStatusQuery(poId: string, userId: string) {
+  return sql`
+    UPDATE purchase_orders po
+    SET status = CASE
+          WHEN EXISTS (
+            SELECT 1 FROM invoices i
+            WHERE i.po_id = po.id AND i.match_status = 'exceptions' AND i.deleted_at IS NULL
+          ) THEN 'exceptions'
+          WHEN EXISTS (
+            SELECT 1 FROM invoices i
+            WHERE i.po_id = po.id AND i.match_status = 'matched' AND i.deleted_at IS NULL
+          ) THEN 'invoiced'
+          ELSE 'delivered'
+        END,
+        updated_at = NOW(),
+        updated_by = ${userId}
+    WHERE po.id = ${poId} AND po.status IN ('delivered', 'exceptions')
+  `;
+}
@@ -0,0 +1,133 @@
+// lib/mail.ts
+// Outgoing email behind a pluggable transport, selected by MAIL_TRANSPORT
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Writes messages to stdout instead of sending them; the default for development
+export function createConsoleMailTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      const attachments = (message.attachments ?? [])
+        .map((attachment) => `${attachment.filename} (${attachment.content.length} bytes)`);
+
+      console.log([
+        '📧 Email (console transport)',
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        ...(attachments.length > 0 ? [`Attachments: ${attachments.join(', ')}`] : []),
+        '',
+        message.text,
+      ].join('\n'));
+    },
+  };
+}
+
+// Nodemailer's message shape for our messages
+function toNodemailerMessage(message: MailMessage & { from: string }) {
+  return {
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    attachments: message.attachments?.map((attachment) => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      contentType: attachment.contentType,
+    })),
+  };
+}
+
+// Delivers through an SMTP server configured by the SMTP_* variables
+export function createSmtpMailTransport(): MailTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST environment variable is required when MAIL_TRANSPORT=smtp');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail(toNodemailerMessage(message));
+    },
+  };
+}
+
+// Writes each message to MAIL_FILE_DIR as an .eml file that mail clients can open; for
+// local testing of links and attachments
+export function createFileMailTransport(): MailTransport {
+  const directory = path.resolve(process.env.MAIL_FILE_DIR || './mail');
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await transporter.sendMail(toNodemailerMessage(message));
+      const filePath = path.join(directory, `${Date.now()}-${crypto.randomUUID()}.eml`);
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(filePath, info.message as Buffer);
+      console.log(`📧 Email to ${message.to} written to ${filePath}`);
+    },
+  };
+}
+
+let mailTransport: MailTransport | null = null;
+
+// Transport selected by MAIL_TRANSPORT ('smtp', 'file' or 'console', the default), created
+// on first use
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    const transportName = process.env.MAIL_TRANSPORT || 'console';
+
+    if (transportName === 'smtp') {
+      mailTransport = createSmtpMailTransport();
+    } else if (transportName === 'file') {
+      mailTransport = createFileMailTransport();
+    } else if (transportName === 'console') {
+      mailTransport = createConsoleMailTransport();
+    } else {
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transportName}`);
+    }
+  }
+
+  return mailTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({
+    ...message,
+    from: process.env.MAIL_FROM || 'Hogan RO <no-reply@localhost>',
+  });
+}
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getMatchTolerances, matchInvoiceLines, MatchReference } from './matching';
+
+const noTolerance = { price_percent: 0, qty_percent: 0 };
+
+function reference(overrides: Partial<MatchReference> = {}): MatchReference {
+  return {
+    po_line_id: 'line-1',
+    line_no: 1,
+    qty_ordered: 10,
+    unit_price_cents: 1000,
+    qty_received: 10,
+    qty_previously_invoiced: 0,
+    ...overrides,
+  };
+}
+
+describe('matchInvoiceLines', () => {
+  it('matches an invoice that agrees with the order and the receipts', () => {
+    const discrepancies = matchInvoiceLines(
+      [{ po_line_id: 'line-1', qty_invoiced: 10, unit_price_cents: 1000 }],
+      [reference()],
+      noTolerance,
+    );
+
+    expect(discrepancies).toEqual([]);
+  });
+
+  it('flags a price outside tolerance', () => {
+    const discrepancies = matchInvoiceLines(
+      [{ po_line_id: 'line-1', qty_invoiced: 10, unit_price_cents: 1100 }],
+      [reference()],
+      { price_percent: 5, qty_percent: 0 },
+    );
+
+    expect(discrepancies).toEqual([{
+      po_line_id: 'line-1',
+      line_no: 1,
+      type: 'price',
+      expected: 1000,
+      actual: 1100,
+      variance_percent: 10,
+      tolerance_percent: 5,
+    }]);
+  });
+
+  it('accepts a price within tolerance', () => {
+    const discrepancies = matchInvoiceLines(
+      [{ po_line_id: 'line-1', qty_invoiced: 10, unit_price_cents: 1040 }],
+      [reference()],
+      { price_percent: 5, qty_percent: 0 },
+    );
+
+    expect(discrepancies).toEqual([]);
+  });
+
+  it('flags any price against a zero-priced line', () => {
+    const [discrepancy] = matchInvoiceLines(
+      [{ po_line_id: 'line-1', qty_invoiced: 10, unit_price_cents: 1 }],
+      [reference({ unit_price_cents: 0 })],
+      { price_percent: 100, qty_percent: 0 },
+    );
+
+    expect(discrepancy).toMatchObject({ type: 'price', variance_percent: null });
+  });
+
+  it('flags billing for more than was received', () => {
+    const discrepancies = matchInvoiceLines(
+      [{ po_line_id: 'line-1', qty_invoiced: 10, unit_price_cents: 1000 }],
+      [reference({ qty_received: 6 })],
+      noTolerance,
+    );
+
+    expect(discrepancies).toEqual([
+      expect.objectContaining({ type: 'qty_received', expected: 6, actual: 10 }),
+    ]);
+  });
+
+  it('counts quantities billed on earlier invoices', () => {
+    const discrepancies = matchInvoiceLines(
+      [{ po_line_id: 'line-1', qty_invoiced: 4, unit_price_cents: 1000 }],
+      [reference({ qty_previously_invoiced: 8 })],
+      noTolerance,
+    );
+
+    expect(discrepancies.map((discrepancy) => [discrepancy.type, discrepancy.actual])).toEqual([
+      ['qty_ordered', 12],
+      ['qty_received', 12],
+    ]);
+  });
+
+  it('allows quantity overruns within tolerance', () => {
+    const discrepancies = matchInvoiceLines(
+      [{ po_line_id: 'line-1', qty_invoiced: 10.5, unit_price_cents: 1000 }],
+      [reference()],
+      { price_percent: 0, qty_percent: 5 },
+    );
+
+    expect(discrepancies).toEqual([]);
+  });
+
+  it('avoids float drift on fractional quantities', () => {
+    const discrepancies = matchInvoiceLines(
+      [{ po_line_id: 'line-1', qty_invoiced: 0.2, unit_price_cents: 1000 }],
+      [reference({ qty_ordered: 0.3, qty_received: 0.3, qty_previously_invoiced: 0.1 })],
+      noTolerance,
+    );
+
+    expect(discrepancies).toEqual([]);
+  });
+
+  it('ignores lines without a reference and orders results by line number', () => {
+    const discrepancies = matchInvoiceLines(
+      [
+        { po_line_id: 'line-2', qty_invoiced: 1, unit_price_cents: 999 },
+        { po_line_id: 'unknown', qty_invoiced: 1, unit_price_cents: 1 },
+        { po_line_id: 'line-1', qty_invoiced: 1, unit_price_cents: 999 },
+      ],
+      [reference(), reference({ po_line_id: 'line-2', line_no: 2 })],
+      noTolerance,
+    );
+
+    expect(discrepancies.map((discrepancy) => discrepancy.line_no)).toEqual([1, 2]);
+  });
+});
+
+describe('getMatchTolerances', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads defaults from the environment', () => {
+    vi.stubEnv('MATCH_PRICE_TOLERANCE_PERCENT', '2.5');
+    vi.stubEnv('MATCH_QTY_TOLERANCE_PERCENT', '10');
+
+    expect(getMatchTolerances()).toEqual({ price_percent: 2.5, qty_percent: 10 });
+  });
+
+  it('falls back to zero for missing or invalid values', () => {
+    vi.stubEnv('MATCH_PRICE_TOLERANCE_PERCENT', 'abc');
+    vi.stubEnv('MATCH_QTY_TOLERANCE_PERCENT', '-1');
+
+    expect(getMatchTolerances()).toEqual({ price_percent: 0, qty_percent: 0 });
+  });
+
+  it('prefers per-request overrides, including zero', () => {
+    vi.stubEnv('MATCH_PRICE_TOLERANCE_PERCENT', '5');
+
+    expect(getMatchTolerances({ price_percent: 0, qty_percent: 1 }))
+      .toEqual({ price_percent: 0, qty_percent: 1 });
+  });
+});
@@ -0,0 +1,144 @@
+// lib/matching.ts
+// Three-way match engine: invoice lines vs ordered (po_lines) vs received (delivery_lines)
+
+import sql from './db';
+import { toQtyHundredths } from './deliveries';
+import { InvoiceLine, MatchDiscrepancy, MatchTolerances } from './types';
+
+function parseTolerance(value: string | undefined): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+}
+
+// Default tolerances come from the environment; admins can override them per match request
+export function getMatchTolerances(overrides: Partial<MatchTolerances> = {}): MatchTolerances {
+  return {
+    price_percent: overrides.price_percent
+      ?? parseTolerance(process.env.MATCH_PRICE_TOLERANCE_PERCENT),
+    qty_percent: overrides.qty_percent
+      ?? parseTolerance(process.env.MATCH_QTY_TOLERANCE_PERCENT),
+  };
+}
+
+// What the invoice is matched against for a single PO line
+export interface MatchReference {
+  po_line_id: string;
+  line_no: number;
+  qty_ordered: number;
+  unit_price_cents: number;
+  qty_received: number;
+  // Quantity already billed on other invoices for this line
+  qty_previously_invoiced: number;
+}
+
+function variancePercent(expected: number, actual: number): number | null {
+  if (expected === 0) {
+    return actual === 0 ? 0 : null;
+  }
+  return Math.round((Math.abs(actual - expected) / expected) * 10000) / 100;
+}
+
+function exceedsQtyTolerance(actual: number, limit: number, tolerancePercent: number): boolean {
+  const allowed = toQtyHundredths(limit) * (1 + tolerancePercent / 100);
+  return toQtyHundredths(actual) > Math.round(allowed);
+}
+
+// Compare each invoice line with what was ordered and received. Quantities are checked
+// cumulatively, so earlier invoices against the same PO line count towards the total.
+export function matchInvoiceLines(
+  lines: Pick<InvoiceLine, 'po_line_id' | 'qty_invoiced' | 'unit_price_cents'>[],
+  references: MatchReference[],
+  tolerances: MatchTolerances,
+): MatchDiscrepancy[] {
+  const referencesByLineId = new Map(references.map((ref) => [ref.po_line_id, ref]));
+  const discrepancies: MatchDiscrepancy[] = [];
+
+  for (const line of lines) {
+    const ref = referencesByLineId.get(line.po_line_id);
+    if (!ref) {
+      continue;
+    }
+
+    const priceVariance = variancePercent(ref.unit_price_cents, line.unit_price_cents);
+    if (priceVariance === null || priceVariance > tolerances.price_percent) {
+      discrepancies.push({
+        po_line_id: ref.po_line_id,
+        line_no: ref.line_no,
+        type: 'price',
+        expected: ref.unit_price_cents,
+        actual: line.unit_price_cents,
+        variance_percent: priceVariance,
+        tolerance_percent: tolerances.price_percent,
+      });
+    }
+
+    const totalInvoiced = (
+      toQtyHundredths(ref.qty_previously_invoiced) + toQtyHundredths(line.qty_invoiced)
+    ) / 100;
+
+    if (exceedsQtyTolerance(totalInvoiced, ref.qty_ordered, tolerances.qty_percent)) {
+      discrepancies.push({
+        po_line_id: ref.po_line_id,
+        line_no: ref.line_no,
+        type: 'qty_ordered',
+        expected: ref.qty_ordered,
+        actual: totalInvoiced,
+        variance_percent: variancePercent(ref.qty_ordered, totalInvoiced),
+        tolerance_percent: tolerances.qty_percent,
+      });
+    }
+
+    if (exceedsQtyTolerance(totalInvoiced, ref.qty_received, tolerances.qty_percent)) {
+      discrepancies.push({
+        po_line_id: ref.po_line_id,
+        line_no: ref.line_no,
+        type: 'qty_received',
+        expected: ref.qty_received,
+        actual: totalInvoiced,
+        variance_percent: variancePercent(ref.qty_received, totalInvoiced),
+        tolerance_percent: tolerances.qty_percent,
+      });
+    }
+  }
+
+  return discrepancies.sort((a, b) => a.line_no - b.line_no);
+}
+
+// Ordered, received and previously invoiced quantities for every active line of a PO,
+// excluding the invoice being matched
+export async function getMatchReferences(
+  poId: string,
+  invoiceId: string,
+): Promise<MatchReference[]> {
+  const rows = await sql`
+    SELECT
+      pl.id as po_line_id,
+      pl.line_no,
+      pl.qty as qty_ordered,
+      pl.unit_price_cents,
+      (
+        SELECT COALESCE(SUM(dl.qty_received), 0)
+        FROM delivery_lines dl
+        JOIN deliveries d ON dl.delivery_id = d.id AND d.deleted_at IS NULL
+        WHERE dl.po_line_id = pl.id AND dl.deleted_at IS NULL
+      ) as qty_received,
+      (
+        SELECT COALESCE(SUM(il.qty_invoiced), 0)
+        FROM invoice_lines il
+        JOIN invoices i ON il.invoice_id = i.id AND i.deleted_at IS NULL
+        WHERE il.po_line_id = pl.id AND il.deleted_at IS NULL AND i.id <> ${invoiceId}
+      ) as qty_previously_invoiced
+    FROM po_lines pl
+    WHERE pl.po_id = ${poId} AND pl.deleted_at IS NULL
+    ORDER BY pl.line_no
+  `;
+
+  return rows.map((row) => ({
+    po_line_id: row.po_line_id,
+    line_no: row.line_no,
+    qty_ordered: Number(row.qty_ordered),
+    unit_price_cents: Number(row.unit_price_cents),
+    qty_received: Number(row.qty_received),
+    qty_previously_invoiced: Number(row.qty_previously_invoiced),
+  }));
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { sniffContentType } from './mime';
+
+// A stored (uncompressed) ZIP archive with the given entries and a central directory
+function zipWithEntries(entries: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name);
+    const data = Buffer.from(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBytes, data);
+    centralParts.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centralParts.length / 2, 8);
+  end.writeUInt16LE(centralParts.length / 2, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const OLE2_HEADER = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0]);
+
+describe('sniffContentType', () => {
+  it.each([
+    ['PDF', Buffer.from('%PDF-1.7\n'), 'application/pdf'],
+    ['PNG', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]), 'image/png'],
+    ['JPEG', Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'image/jpeg'],
+    ['GIF87a', Buffer.from('GIF87a....'), 'image/gif'],
+    ['GIF89a', Buffer.from('GIF89a....'), 'image/gif'],
+  ])('detects %s by its signature', (_format, buffer, expected) => {
+    expect(sniffContentType(buffer, 'upload.bin')).toBe(expected);
+  });
+
+  it('trusts the content over a misleading extension', () => {
+    expect(sniffContentType(Buffer.from('%PDF-1.4'), 'photo.png')).toBe('application/pdf');
+  });
+
+  it('tells Office Open XML documents apart by their entries', () => {
+    const docx = zipWithEntries({ '[Content_Types].xml': '<Types/>', 'word/document.xml': '' });
+    const xlsx = zipWithEntries({ '[Content_Types].xml': '<Types/>', 'xl/workbook.xml': '' });
+
+    expect(sniffContentType(docx, 'file.bin')).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    );
+    expect(sniffContentType(xlsx, 'file.bin')).toBe(
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+  });
+
+  it('rejects other ZIP archives whatever their extension', () => {
+    const noContentTypes = zipWithEntries({ 'xl/workbook.xml': '' });
+    const noMainPart = zipWithEntries({ '[Content_Types].xml': '<Types/>' });
+
+    expect(sniffContentType(noContentTypes, 'Report.XLSX')).toBeNull();
+    expect(sniffContentType(noMainPart, 'Report.xlsx')).toBeNull();
+    expect(sniffContentType(zipWithEntries({ 'readme.txt': 'hi' }), 'archive.zip')).toBeNull();
+  });
+
+  it('only looks at entry names, not entry contents', () => {
+    const archive = zipWithEntries({
+      '[Content_Types].xml': '<Types/>',
+      'notes.txt': 'word/document.xml xl/workbook.xml',
+    });
+
+    expect(sniffContentType(archive, 'notes.docx')).toBeNull();
+  });
+
+  it('rejects ZIP archives without a readable central directory', () => {
+    const archive = zipWithEntries({ '[Content_Types].xml': '', 'word/document.xml': '' });
+
+    expect(sniffContentType(archive.subarray(0, archive.length - 22), 'a.docx')).toBeNull();
+    expect(sniffContentType(archive.subarray(0, 60), 'a.docx')).toBeNull();
+  });
+
+  it('uses the extension for legacy Office files', () => {
+    expect(sniffContentType(OLE2_HEADER, 'letter.doc')).toBe('application/msword');
+    expect(sniffContentType(OLE2_HEADER, 'budget.xls')).toBe('application/vnd.ms-excel');
+    expect(sniffContentType(OLE2_HEADER, 'installer.msi')).toBeNull();
+  });
+
+  it('detects plain text and CSV', () => {
+    expect(sniffContentType(Buffer.from('line one\r\n\tline two\n'), 'notes.txt'))
+      .toBe('text/plain');
+    expect(sniffContentType(Buffer.from('sku,qty\nA-1,2\n'), 'lines.csv')).toBe('text/csv');
+    expect(sniffContentType(Buffer.from('Café déjà vu'), 'notes.txt')).toBe('text/plain');
+  });
+
+  it('accepts a multi-byte character cut off at the end of the text sample', () => {
+    const text = Buffer.concat([Buffer.alloc(8191, 'a'), Buffer.from('é')]);
+
+    expect(sniffContentType(text, 'notes.txt')).toBe('text/plain');
+  });
+
+  it('rejects binary content and invalid UTF-8', () => {
+    expect(sniffContentType(Buffer.from([0x4d, 0x5a, 0x90, 0x00]), 'notes.txt')).toBeNull();
+    expect(sniffContentType(Buffer.from([0x61, 0xff, 0x62]), 'notes.txt')).toBeNull();
+  });
+
+  it('rejects empty files', () => {
+    expect(sniffContentType(Buffer.alloc(0), 'empty.txt')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+// lib/mime.ts
+// Content type detection from file signatures (magic bytes)
+
+import { getFileExtension } from './aws';
+
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+const GIF87_SIGNATURE = Buffer.from('GIF87a');
+const GIF89_SIGNATURE = Buffer.from('GIF89a');
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const OLE2_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// ZIP end of central directory record and central directory entry layout
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP_END_BYTES = 22;
+const ZIP_MAX_COMMENT_BYTES = 0xffff;
+const ZIP_ENTRY_SIGNATURE = 0x02014b50;
+const ZIP_ENTRY_BYTES = 46;
+
+// How much of the file is inspected when deciding whether it is plain text
+const TEXT_SAMPLE_BYTES = 8192;
+
+const OOXML_TYPES: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const OLE2_TYPES: Record<string, string> = {
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+};
+
+function startsWith(buffer: Buffer, signature: Buffer): boolean {
+  return buffer.length >= signature.length &&
+    buffer.subarray(0, signature.length).equals(signature);
+}
+
+// Text files have no signature: accept a sample that decodes as UTF-8 without
+// control characters other than whitespace
+function looksLikeText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, TEXT_SAMPLE_BYTES);
+
+  for (const byte of sample) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) {
+      return false;
+    }
+  }
+
+  // Streaming mode tolerates a multi-byte character cut off at the end of the sample
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Entry names listed in a ZIP archive's central directory, or null when the archive has
+// no readable central directory
+function readZipEntryNames(buffer: Buffer): string[] | null {
+  // The end record sits at the very end of the archive, followed only by its comment
+  const earliest = Math.max(0, buffer.length - ZIP_END_BYTES - ZIP_MAX_COMMENT_BYTES);
+  let end = -1;
+
+  for (let offset = buffer.length - ZIP_END_BYTES; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === ZIP_END_SIGNATURE) {
+      end = offset;
+      break;
+    }
+  }
+
+  if (end < 0) {
+    return null;
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const names: string[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + ZIP_ENTRY_BYTES > buffer.length ||
+      buffer.readUInt32LE(offset) !== ZIP_ENTRY_SIGNATURE
+    ) {
+      return null;
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const nameEnd = offset + ZIP_ENTRY_BYTES + nameLength;
+
+    if (nameEnd > buffer.length) {
+      return null;
+    }
+
+    names.push(buffer.toString('utf8', offset + ZIP_ENTRY_BYTES, nameEnd));
+    offset = nameEnd + extraLength + commentLength;
+  }
+
+  return names;
+}
+
+// Office Open XML packages are ZIP archives with a content types part and a main part
+// that names the format. Any other archive is not accepted.
+function sniffOfficeOpenXml(buffer: Buffer): string | null {
+  const names = readZipEntryNames(buffer);
+
+  if (!names || !names.includes('[Content_Types].xml')) {
+    return null;
+  }
+
+  if (names.includes('word/document.xml')) {
+    return OOXML_TYPES.docx;
+  }
+
+  if (names.includes('xl/workbook.xml')) {
+    return OOXML_TYPES.xlsx;
+  }
+
+  return null;
+}
+
+// Detect a file's content type from its bytes. Office Open XML is told apart from other
+// ZIP archives by its entries; legacy Office files share the OLE2 container and are told
+// apart by the filename extension. Returns null when the content matches no supported
+// format.
+export function sniffContentType(buffer: Buffer, filename: string): string | null {
+  const extension = getFileExtension(filename);
+
+  if (startsWith(buffer, PDF_SIGNATURE)) {
+    return 'application/pdf';
+  }
+
+  if (startsWith(buffer, PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+
+  if (startsWith(buffer, JPEG_SIGNATURE)) {
+    return 'image/jpeg';
+  }
+
+  if (startsWith(buffer, GIF87_SIGNATURE) || startsWith(buffer, GIF89_SIGNATURE)) {
+    return 'image/gif';
+  }
+
+  if (startsWith(buffer, ZIP_SIGNATURE)) {
+    return sniffOfficeOpenXml(buffer);
+  }
+
+  if (startsWith(buffer, OLE2_SIGNATURE)) {
+    return OLE2_TYPES[extension] ?? null;
+  }
+
+  if (buffer.length > 0 && looksLikeText(buffer)) {
+    return extension === 'csv' ? 'text/csv' : 'text/plain';
+  }
+
+  return null;
+}
@@ -0,0 +1,35 @@
+// lib/notifications.ts
+// In-app notification inbox helpers
+
+import sql from './db';
+import { Notification } from './types';
+
+export const NOTIFICATION_COLUMNS = `
+  id, user_id, type, title, body, report_id, export_id, read_at, created_at
+`;
+
+export function formatNotification(row: Record<string, any>): Notification {
+  return {
+    ...row,
+    body: row.body ?? undefined,
+    report_id: row.report_id ?? undefined,
+    export_id: row.export_id ?? undefined,
+    read_at: row.read_at ?? undefined,
+  } as Notification;
+}
+
+export async function createNotification(
+  notification: Omit<Notification, 'id' | 'read_at' | 'created_at'>,
+): Promise<void> {
+  await sql`
+    INSERT INTO notifications (user_id, type, title, body, report_id, export_id)
+    VALUES (
+      ${notification.user_id},
+      ${notification.type},
+      ${notification.title},
+      ${notification.body ?? null},
+      ${notification.report_id ?? null},
+      ${notification.export_id ?? null}
+    )
+  `;
+}
@@ -0,0 +1,122 @@
+// lib/pdf.ts
+// Minimal PDF writer for text documents (A4 pages, standard Type 1 fonts, no embedding)
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfLine {
+  text: string;
+  font?: PdfFont;
+  size?: number;
+  // Extra space before the line, in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_FONT_SIZE = 10;
+const LINE_HEIGHT_FACTOR = 1.4;
+
+// Resource names and the base font behind each; all three are built into every PDF viewer
+const FONTS: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { resource: 'F3', baseFont: 'Courier' },
+};
+
+// Courier glyphs are all 600/1000 em wide, so fixed-width layouts can be computed
+export const MONO_CHAR_WIDTH_EM = 0.6;
+
+// Usable width of a page, in points
+export const PDF_CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Standard fonts use WinAnsiEncoding: anything outside Latin-1 is replaced, and string
+// delimiters are escaped
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+// Splits lines into pages and renders each page's content stream
+function layoutPages(lines: PdfLine[]): string[] {
+  const pages: string[] = [];
+  let commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_FONT_SIZE;
+    const advance = size * LINE_HEIGHT_FACTOR + (line.spaceBefore ?? 0);
+
+    if (y - advance < MARGIN && commands.length > 0) {
+      pages.push(commands.join('\n'));
+      commands = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+
+    y -= commands.length === 0 ? size * LINE_HEIGHT_FACTOR : advance;
+
+    const font = FONTS[line.font ?? 'regular'];
+    const text = escapePdfText(line.text);
+    commands.push(`BT /${font.resource} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${text}) Tj ET`);
+  }
+
+  pages.push(commands.join('\n'));
+
+  return pages;
+}
+
+// Renders lines of text top to bottom, starting a new page whenever one fills up
+export function renderPdf(lines: PdfLine[], title?: string): Buffer {
+  const pages = layoutPages(lines);
+  const objects: string[] = [];
+
+  // Fixed objects: 1 catalog, 2 page tree, 3 info, 4-6 fonts; pages follow in pairs
+  const fontIds = Object.values(FONTS).map((_, index) => 4 + index);
+  const firstPageId = 4 + fontIds.length;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] ` +
+    `/Count ${pages.length} >>`);
+  objects.push(`<< /Producer (Hogan RO API)${title ? ` /Title (${escapePdfText(title)})` : ''} >>`);
+
+  for (const font of Object.values(FONTS)) {
+    objects.push(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} ` +
+      '/Encoding /WinAnsiEncoding >>',
+    );
+  }
+
+  const fontResources = Object.values(FONTS)
+    .map((font, index) => `/${font.resource} ${fontIds[index]} 0 R`)
+    .join(' ');
+
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  // The cross-reference table records the byte offset of every object
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { diffPurchaseOrderLines, ExistingPOLine } from './purchase-orders';
+
+function storedLine(overrides: Partial<ExistingPOLine> & { line_no: number }): ExistingPOLine {
+  return {
+    id: `line-${overrides.line_no}`,
+    sku: null,
+    description: null,
+    qty: 1,
+    unit_price_cents: 100,
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+describe('diffPurchaseOrderLines', () => {
+  it('reports nothing when the requested lines match the stored ones', () => {
+    const diff = diffPurchaseOrderLines(
+      [storedLine({ line_no: 1, sku: 'A', qty: 2 })],
+      [{ line_no: 1, sku: 'A', qty: 2, unit_price_cents: 100 }],
+    );
+
+    expect(diff).toEqual({ inserts: [], updates: [], removals: [], changes: [] });
+  });
+
+  it('inserts new line numbers', () => {
+    const diff = diffPurchaseOrderLines([], [{ line_no: 1, qty: 3, unit_price_cents: 250 }]);
+
+    expect(diff.inserts).toEqual([{ line_no: 1, qty: 3, unit_price_cents: 250 }]);
+    expect(diff.changes).toEqual([{
+      line_no: 1,
+      action: 'added',
+      changes: {
+        qty: { from: null, to: 3 },
+        unit_price_cents: { from: null, to: 250 },
+      },
+    }]);
+  });
+
+  it('updates changed lines and records only the changed fields', () => {
+    const diff = diffPurchaseOrderLines(
+      [storedLine({ line_no: 1, sku: 'A', description: 'Bolts', qty: 2 })],
+      [{ line_no: 1, sku: 'A', description: 'Bolts', qty: 5, unit_price_cents: 120 }],
+    );
+
+    expect(diff.updates).toEqual([{
+      id: 'line-1',
+      line: { line_no: 1, sku: 'A', description: 'Bolts', qty: 5, unit_price_cents: 120 },
+      restore: false,
+    }]);
+    expect(diff.changes).toEqual([{
+      line_no: 1,
+      action: 'updated',
+      changes: {
+        qty: { from: 2, to: 5 },
+        unit_price_cents: { from: 100, to: 120 },
+      },
+    }]);
+  });
+
+  it('treats an omitted optional field as cleared', () => {
+    const diff = diffPurchaseOrderLines(
+      [storedLine({ line_no: 1, sku: 'A' })],
+      [{ line_no: 1, qty: 1, unit_price_cents: 100 }],
+    );
+
+    expect(diff.changes[0].changes).toEqual({ sku: { from: 'A', to: null } });
+  });
+
+  it('removes active lines missing from the request', () => {
+    const diff = diffPurchaseOrderLines(
+      [storedLine({ line_no: 1 }), storedLine({ line_no: 2 })],
+      [{ line_no: 1, qty: 1, unit_price_cents: 100 }],
+    );
+
+    expect(diff.removals).toEqual([{ id: 'line-2', line_no: 2 }]);
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ line_no: 2, action: 'removed' }),
+    ]);
+  });
+
+  it('ignores soft-deleted lines that stay out of the request', () => {
+    const diff = diffPurchaseOrderLines(
+      [storedLine({ line_no: 1, deleted_at: '2024-01-01T00:00:00Z' })],
+      [],
+    );
+
+    expect(diff.removals).toEqual([]);
+    expect(diff.changes).toEqual([]);
+  });
+
+  it('restores a soft-deleted line number in place instead of inserting it', () => {
+    const diff = diffPurchaseOrderLines(
+      [storedLine({ line_no: 1, deleted_at: '2024-01-01T00:00:00Z' })],
+      [{ line_no: 1, qty: 4, unit_price_cents: 100 }],
+    );
+
+    expect(diff.inserts).toEqual([]);
+    expect(diff.updates).toEqual([{
+      id: 'line-1',
+      line: { line_no: 1, qty: 4, unit_price_cents: 100 },
+      restore: true,
+    }]);
+    expect(diff.changes[0].action).toBe('added');
+  });
+
+  it('lists changes in line order', () => {
+    const diff = diffPurchaseOrderLines(
+      [storedLine({ line_no: 2 }), storedLine({ line_no: 3 })],
+      [
+        { line_no: 3, qty: 9, unit_price_cents: 100 },
+        { line_no: 1, qty: 1, unit_price_cents: 100 },
+      ],
+    );
+
+    expect(diff.changes.map((change) => [change.line_no, change.action])).toEqual([
+      [1, 'added'],
+      [2, 'removed'],
+      [3, 'updated'],
+    ]);
+  });
+});
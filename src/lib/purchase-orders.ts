@@ -0,0 +1,293 @@
+// lib/purchase-orders.ts
+// Purchase order helpers shared by the PO route handlers
+
+import sql, { FilterBuilder } from './db';
+import { applyDivisionScope, isValidUUID } from './auth';
+import {
+  AuthenticatedUser,
+  FieldChange,
+  POLine,
+  POLineChange,
+  PurchaseOrder,
+  PurchaseOrderLineRequest,
+  PurchaseOrderWithDelivery,
+} from './types';
+
+export type PurchaseOrderStatus = PurchaseOrder['status'];
+
+type PricedLine = Pick<PurchaseOrderLineRequest, 'qty' | 'unit_price_cents'>;
+
+// Header and lines can only be edited before approval, or after a rejection
+export const EDITABLE_PO_STATUSES: PurchaseOrderStatus[] = ['draft', 'rejected'];
+
+// Once invoiced a purchase order is closed; every other status counts as open
+export const FINAL_PO_STATUSES: PurchaseOrderStatus[] = ['invoiced'];
+
+// Approved orders are commitments to spend, whether or not goods or invoices have arrived
+export const COMMITTED_PO_STATUSES: PurchaseOrderStatus[] = [
+  'approved',
+  'delivered',
+  'invoiced',
+  'exceptions',
+];
+
+const LINE_FIELDS = ['sku', 'description', 'qty', 'unit_price_cents'] as const;
+
+// Line and order totals are always computed server-side in integer cents
+export function calculateLineTotalCents(line: PricedLine): number {
+  return Math.round(line.qty * line.unit_price_cents);
+}
+
+export function calculateTotalValueCents(lines: PricedLine[]): number {
+  return lines.reduce((total, line) => total + calculateLineTotalCents(line), 0);
+}
+
+// BIGINT and DECIMAL columns come back from the driver as strings
+export function formatPOLine(row: Record<string, any>): POLine {
+  return {
+    ...row,
+    qty: Number(row.qty),
+    unit_price_cents: Number(row.unit_price_cents),
+  } as POLine;
+}
+
+export function formatPurchaseOrder(row: Record<string, any>): PurchaseOrderWithDelivery {
+  return {
+    ...row,
+    total_value_cents: Number(row.total_value_cents),
+    delivery_address: row.delivery_address ?? undefined,
+    supplier: row.supplier ?? undefined,
+  } as PurchaseOrderWithDelivery;
+}
+
+export async function getPurchaseOrderLines(poId: string): Promise<POLine[]> {
+  const lines = await sql`
+    SELECT id, po_id, line_no, sku, description, qty, unit_price_cents,
+           created_at, updated_at, created_by, updated_by
+    FROM po_lines
+    WHERE po_id = ${poId} AND deleted_at IS NULL
+    ORDER BY line_no
+  `;
+
+  return lines.map(formatPOLine);
+}
+
+// Shared column list and joins for purchase order reads, so queries that need extra
+// columns or joins (e.g. the approver inbox) stay in step with the standard shape
+export const PURCHASE_ORDER_COLUMNS = `
+    po.id,
+    po.division_id,
+    po.created_by,
+    po.supplier_id,
+    po.order_type,
+    po.status,
+    po.total_value_cents,
+    po.delivery_address_id,
+    po.order_end_date,
+    po.tags,
+    po.attachments,
+    po.comments,
+    po.rejection_reason,
+    po.submitted_at,
+    po.approved_by,
+    po.approved_at,
+    po.created_at,
+    po.updated_at,
+    po.updated_by,
+    CASE WHEN da.id IS NULL THEN NULL ELSE json_build_object(
+      'id', da.id,
+      'name', da.name,
+      'address_line_1', da.address_line_1,
+      'address_line_2', da.address_line_2,
+      'city', da.city,
+      'state', da.state,
+      'postal_code', da.postal_code,
+      'country', da.country,
+      'is_active', da.is_active
+    ) END as delivery_address,
+    CASE WHEN s.id IS NULL THEN NULL ELSE json_build_object(
+      'id', s.id,
+      'name', s.name,
+      'contact_email', s.contact_email,
+      'contact_phone', s.contact_phone,
+      'is_active', s.is_active
+    ) END as supplier
+`;
+
+export const PURCHASE_ORDER_FROM = `
+  FROM purchase_orders po
+  LEFT JOIN delivery_addresses da ON po.delivery_address_id = da.id AND da.deleted_at IS NULL
+  LEFT JOIN suppliers s ON po.supplier_id = s.id AND s.deleted_at IS NULL
+`;
+
+// Shared SELECT for purchase order reads; callers append their own WHERE/ORDER clauses
+export const PURCHASE_ORDER_SELECT = `SELECT ${PURCHASE_ORDER_COLUMNS} ${PURCHASE_ORDER_FROM}`;
+
+export interface PurchaseOrderListQuery {
+  status?: string;
+  supplier_id?: string;
+  division_id?: string;
+  include_descendants?: string;
+  order_type?: string;
+  from_date?: string;
+  to_date?: string;
+  search?: string;
+}
+
+// Adds the standard PO list filters to a filter builder. Queries must join suppliers as `s`.
+// Returns an error for the caller to send when a filter is invalid or not permitted.
+export async function applyPurchaseOrderFilters(
+  filters: FilterBuilder,
+  user: AuthenticatedUser,
+  query: PurchaseOrderListQuery,
+): Promise<{ status: number; error: string } | null> {
+  const scopeError = await applyDivisionScope(filters, 'po.division_id', user, {
+    divisionId: query.division_id,
+    includeDescendants: query.include_descendants === 'true',
+  });
+
+  if (scopeError) {
+    return scopeError;
+  }
+
+  if (query.status) {
+    filters.add(`po.status = ${filters.param(query.status)}`);
+  }
+
+  if (query.supplier_id && isValidUUID(query.supplier_id)) {
+    filters.add(`po.supplier_id = ${filters.param(query.supplier_id)}`);
+  }
+
+  if (query.order_type) {
+    filters.add(`po.order_type = ${filters.param(query.order_type)}`);
+  }
+
+  if (query.from_date) {
+    filters.add(`po.created_at >= ${filters.param(new Date(query.from_date))}`);
+  }
+
+  if (query.to_date) {
+    filters.add(`po.created_at <= ${filters.param(new Date(query.to_date))}`);
+  }
+
+  if (query.search) {
+    const pattern = filters.param(`%${query.search}%`);
+    filters.add(`(
+      po.comments ILIKE ${pattern} OR
+      po.tags::text ILIKE ${pattern} OR
+      s.name ILIKE ${pattern} OR
+      EXISTS (
+        SELECT 1 FROM po_lines pl
+        WHERE pl.po_id = po.id AND pl.deleted_at IS NULL
+          AND (pl.sku ILIKE ${pattern} OR pl.description ILIKE ${pattern})
+      )
+    )`);
+  }
+
+  return null;
+}
+
+// Load a purchase order with its delivery address, supplier and active lines
+export async function getPurchaseOrderDetail(
+  id: string,
+): Promise<PurchaseOrderWithDelivery | null> {
+  const [row] = await sql(
+    `${PURCHASE_ORDER_SELECT} WHERE po.id = $1 AND po.deleted_at IS NULL`,
+    [id],
+  );
+
+  if (!row) {
+    return null;
+  }
+
+  const purchaseOrder = formatPurchaseOrder(row);
+  purchaseOrder.lines = await getPurchaseOrderLines(id);
+
+  return purchaseOrder;
+}
+
+export interface ExistingPOLine {
+  id: string;
+  line_no: number;
+  sku: string | null;
+  description: string | null;
+  qty: number;
+  unit_price_cents: number;
+  deleted_at: string | null;
+}
+
+export interface POLineDiff {
+  inserts: PurchaseOrderLineRequest[];
+  // Existing rows (active or soft-deleted) to overwrite with the requested values
+  updates: { id: string; line: PurchaseOrderLineRequest; restore: boolean }[];
+  removals: { id: string; line_no: number }[];
+  changes: POLineChange[];
+}
+
+function compareLineFields(
+  from: ExistingPOLine | null,
+  to: PurchaseOrderLineRequest | null,
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+
+  for (const field of LINE_FIELDS) {
+    const before = from?.[field] ?? null;
+    const after = to?.[field] ?? null;
+    if (before !== after) {
+      changes[field] = { from: before, to: after };
+    }
+  }
+
+  return changes;
+}
+
+// Diff requested lines against the stored lines by line_no. Lines missing from the
+// request are soft-deleted; a soft-deleted line_no that reappears is restored in place
+// because po_lines is unique on (po_id, line_no).
+export function diffPurchaseOrderLines(
+  existing: ExistingPOLine[],
+  requested: PurchaseOrderLineRequest[],
+): POLineDiff {
+  const diff: POLineDiff = { inserts: [], updates: [], removals: [], changes: [] };
+  const existingByLineNo = new Map(existing.map((line) => [line.line_no, line]));
+  const requestedLineNos = new Set(requested.map((line) => line.line_no));
+
+  for (const line of requested) {
+    const current = existingByLineNo.get(line.line_no);
+
+    if (!current || current.deleted_at) {
+      if (current) {
+        diff.updates.push({ id: current.id, line, restore: true });
+      } else {
+        diff.inserts.push(line);
+      }
+      diff.changes.push({
+        line_no: line.line_no,
+        action: 'added',
+        changes: compareLineFields(null, line),
+      });
+      continue;
+    }
+
+    const changes = compareLineFields(current, line);
+    if (Object.keys(changes).length > 0) {
+      diff.updates.push({ id: current.id, line, restore: false });
+      diff.changes.push({ line_no: line.line_no, action: 'updated', changes });
+    }
+  }
+
+  for (const line of existing) {
+    if (!line.deleted_at && !requestedLineNos.has(line.line_no)) {
+      diff.removals.push({ id: line.id, line_no: line.line_no });
+      diff.changes.push({
+        line_no: line.line_no,
+        action: 'removed',
+        changes: compareLineFields(line, null),
+      });
+    }
+  }
+
+  diff.changes.sort((a, b) => a.line_no - b.line_no);
+
+  return diff;
+}
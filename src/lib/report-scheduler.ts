@@ -0,0 +1,94 @@
+// lib/report-scheduler.ts
+// Queues scheduled report runs when they fall due; runs inside the long-running server process,
+// and on serverless deployments from the cron-invoked job trigger (routes/jobs.ts)
+
+import { FastifyBaseLogger } from 'fastify';
+import sql from './db';
+import { getNextCronTime } from './cron';
+import { notifyExportWorker } from './export-jobs';
+import {
+  REPORT_DEFINITION_COLUMNS,
+  formatReportDefinition,
+  queueScheduledReportRun,
+} from './reports';
+
+const SCHEDULER_INTERVAL_MS = 60000;
+
+// Reports queued per tick; any remainder is picked up on the next one
+const MAX_REPORTS_PER_TICK = 50;
+
+// Queues every report whose next run is due. Each report is claimed by moving its next run
+// forward in the statement that queues the run, so several server processes never queue the
+// same run twice and a failed run stays due for the next tick. Runs missed while the server
+// was down are caught up once, not once per missed slot.
+export async function queueDueReports(logger: FastifyBaseLogger): Promise<number> {
+  const due = await sql(`
+    SELECT ${REPORT_DEFINITION_COLUMNS}
+    FROM report_definitions
+    WHERE is_active = TRUE AND deleted_at IS NULL AND next_run_at <= NOW()
+    ORDER BY next_run_at
+    LIMIT $1
+  `, [MAX_REPORTS_PER_TICK]);
+
+  let queued = 0;
+
+  for (const row of due.map(formatReportDefinition)) {
+    try {
+      const now = new Date();
+      const exportId = await queueScheduledReportRun(
+        row,
+        getNextCronTime(row.schedule, now),
+        now,
+      );
+
+      if (exportId) {
+        queued++;
+      }
+    } catch (error) {
+      logger.error(error, `Error queueing scheduled report ${row.id}:`);
+    }
+  }
+
+  if (queued > 0) {
+    notifyExportWorker();
+  }
+
+  return queued;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let currentTick: Promise<void> | null = null;
+
+// Starts checking for due reports every minute; only long-running processes (server.ts)
+// should call this. Queued runs are generated by the export worker.
+export function startReportScheduler(logger: FastifyBaseLogger): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const tick = () => {
+    // A slow tick is not overlapped by the next one
+    if (currentTick) {
+      return;
+    }
+
+    currentTick = queueDueReports(logger)
+      .then(() => undefined)
+      .catch((error) => logger.error(error, 'Report scheduler tick failed:'))
+      .finally(() => {
+        currentTick = null;
+      });
+  };
+
+  schedulerTimer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+  tick();
+}
+
+export async function stopReportScheduler(): Promise<void> {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+
+  await currentTick;
+}
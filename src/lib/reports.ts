@@ -0,0 +1,335 @@
+// lib/reports.ts
+// Scheduled report helpers: period resolution, queueing runs as exports, and delivery
+
+import sql, { generateUUID } from './db';
+import { canAccessDivision, getActiveUser, hasPermission } from './auth';
+import { GeneratedExport } from './exports';
+import { sendMail } from './mail';
+import { createNotification } from './notifications';
+import { PurchaseOrderListQuery } from './purchase-orders';
+import {
+  AuthenticatedUser,
+  ReportDefinition,
+  ReportDeliveryChannel,
+  ReportParameters,
+  ReportPeriod,
+} from './types';
+
+export const REPORT_PERIODS: ReportPeriod[] = [
+  'last_7_days',
+  'last_30_days',
+  'this_month',
+  'last_month',
+  'last_quarter',
+  'this_year',
+  'last_year',
+];
+
+export const REPORT_DELIVERY_CHANNELS: ReportDeliveryChannel[] = ['inbox', 'email'];
+
+// Report files stay downloadable for a week so recipients have time to collect them
+export const REPORT_EXPORT_TTL_HOURS = 168;
+
+// Files above this size are linked rather than attached to report emails
+const MAX_EMAIL_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+export const REPORT_DEFINITION_COLUMNS = `
+  id, owner_id, name, report_type, format, parameters, schedule, delivery_channels,
+  recipient_ids, is_active, next_run_at, last_run_at, created_at, updated_at
+`;
+
+export function formatReportDefinition(row: Record<string, any>): ReportDefinition {
+  return {
+    ...row,
+    next_run_at: row.next_run_at ?? undefined,
+    last_run_at: row.last_run_at ?? undefined,
+  } as ReportDefinition;
+}
+
+export async function getReportDefinition(id: string): Promise<ReportDefinition | null> {
+  const [row] = await sql(
+    `SELECT ${REPORT_DEFINITION_COLUMNS} FROM report_definitions
+     WHERE id = $1 AND deleted_at IS NULL`,
+    [id],
+  );
+
+  return row ? formatReportDefinition(row) : null;
+}
+
+// Start (inclusive) and end (exclusive) of a period relative to `now`, in UTC
+export function resolveReportPeriod(period: ReportPeriod, now: Date): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const today = Date.UTC(year, month, now.getUTCDate());
+  const day = 24 * 60 * 60 * 1000;
+
+  switch (period) {
+  case 'last_7_days':
+    return { start: new Date(today - 7 * day), end: new Date(today) };
+  case 'last_30_days':
+    return { start: new Date(today - 30 * day), end: new Date(today) };
+  case 'this_month':
+    return {
+      start: new Date(Date.UTC(year, month, 1)),
+      end: new Date(Date.UTC(year, month + 1, 1)),
+    };
+  case 'last_month':
+    return {
+      start: new Date(Date.UTC(year, month - 1, 1)),
+      end: new Date(Date.UTC(year, month, 1)),
+    };
+  case 'last_quarter': {
+    const quarterStart = month - (month % 3);
+    return {
+      start: new Date(Date.UTC(year, quarterStart - 3, 1)),
+      end: new Date(Date.UTC(year, quarterStart, 1)),
+    };
+  }
+  case 'this_year':
+    return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+  case 'last_year':
+    return { start: new Date(Date.UTC(year - 1, 0, 1)), end: new Date(Date.UTC(year, 0, 1)) };
+  }
+}
+
+// Turns saved parameters into export filters, fixing the relative period to concrete dates
+export function buildReportFilters(
+  parameters: ReportParameters,
+  now: Date,
+): PurchaseOrderListQuery {
+  const { period, ...filters } = parameters;
+
+  if (!period) {
+    return filters;
+  }
+
+  const { start, end } = resolveReportPeriod(period, now);
+
+  // Export date filters are inclusive, so stop just before the next period begins
+  return {
+    ...filters,
+    from_date: start.toISOString(),
+    to_date: new Date(end.getTime() - 1).toISOString(),
+  };
+}
+
+// Per-run values of the exports row that runs a report once
+function buildReportRun(definition: ReportDefinition, now: Date) {
+  return {
+    id: generateUUID(),
+    filters: JSON.stringify(buildReportFilters(definition.parameters, now)),
+    expiresAt: new Date(now.getTime() + REPORT_EXPORT_TTL_HOURS * 60 * 60 * 1000),
+  };
+}
+
+// Queues one run of a report through the exports pipeline, scoped to the owner's access
+export async function queueReportExport(
+  definition: ReportDefinition,
+  now: Date = new Date(),
+): Promise<string> {
+  const run = buildReportRun(definition, now);
+
+  await sql`
+    INSERT INTO exports (id, format, report_type, report_id, filters, generated_by, expires_at)
+    VALUES (
+      ${run.id},
+      ${definition.format},
+      ${definition.report_type},
+      ${definition.id},
+      ${run.filters}::jsonb,
+      ${definition.owner_id},
+      ${run.expiresAt}
+    )
+  `;
+
+  return run.id;
+}
+
+// Claims a due scheduled run by moving the report's next run forward and queues its export
+// in the same statement, so a run is never claimed without being queued. Returns null when
+// the run is no longer due, e.g. because another server process claimed it first.
+export async function queueScheduledReportRun(
+  definition: ReportDefinition,
+  nextRunAt: Date,
+  now: Date,
+): Promise<string | null> {
+  const run = buildReportRun(definition, now);
+
+  const [queued] = await sql`
+    WITH claimed AS (
+      UPDATE report_definitions
+      SET next_run_at = ${nextRunAt}, last_run_at = ${now}
+      WHERE id = ${definition.id} AND is_active = TRUE AND deleted_at IS NULL
+        AND next_run_at <= NOW()
+      RETURNING id
+    )
+    INSERT INTO exports (id, format, report_type, report_id, filters, generated_by, expires_at)
+    SELECT
+      ${run.id},
+      ${definition.format},
+      ${definition.report_type},
+      claimed.id,
+      ${run.filters}::jsonb,
+      ${definition.owner_id},
+      ${run.expiresAt}
+    FROM claimed
+    RETURNING id
+  `;
+
+  return queued ? queued.id : null;
+}
+
+// Reports run with the owner's access, so a recipient must be able to see everything the
+// report can contain. The scope mirrors applyDivisionScope for the owner: one division, its
+// descendants when asked for (unless the owner is a basic user), or everything for an admin
+// owner without a division filter.
+export async function canReceiveReport(
+  owner: AuthenticatedUser,
+  recipient: AuthenticatedUser,
+  parameters: ReportParameters,
+): Promise<boolean> {
+  if (recipient.id === owner.id) {
+    return true;
+  }
+
+  if (!(await hasPermission(recipient.id, 'pos:read'))) {
+    return false;
+  }
+
+  if (recipient.role === 'admin') {
+    return true;
+  }
+
+  const divisionId = parameters.division_id
+    ?? (owner.role === 'admin' ? undefined : owner.division_id);
+
+  // An admin's unfiltered report covers every division; a non-admin owner without a
+  // division gets empty reports
+  if (!divisionId) {
+    return owner.role !== 'admin';
+  }
+
+  if (!(await canAccessDivision(recipient, divisionId))) {
+    return false;
+  }
+
+  // Only managers also see the divisions beneath one they can access
+  const includesDescendants = parameters.include_descendants === 'true' && owner.role !== 'basic';
+
+  return !includesDescendants || recipient.role === 'manager';
+}
+
+// Recipients of a scheduled report may download its runs as well as the owner, for as long
+// as they can see everything it covers
+export async function isReportRecipient(userId: string, exportId: string): Promise<boolean> {
+  const [row] = await sql`
+    SELECT r.id
+    FROM exports e
+    JOIN report_definitions r ON e.report_id = r.id
+    WHERE e.id = ${exportId} AND ${userId} = ANY(r.recipient_ids)
+  `;
+
+  if (!row) {
+    return false;
+  }
+
+  const definition = await getReportDefinition(row.id);
+  const owner = definition && await getActiveUser(definition.owner_id);
+  const recipient = await getActiveUser(userId);
+
+  return Boolean(
+    definition && owner && recipient &&
+    await canReceiveReport(owner, recipient, definition.parameters),
+  );
+}
+
+function downloadLink(exportId: string): string {
+  const baseUrl = process.env.API_BASE_URL || `http://localhost:${process.env.PORT || 3002}`;
+  return `${baseUrl}/api/v1/exports/${exportId}/download`;
+}
+
+// Sends a finished report run to its recipients: an inbox notification and/or an email with
+// the file attached. Recipients who have since been deactivated, or who can no longer see
+// everything the report covers, are skipped.
+export async function deliverReportExport(
+  reportId: string,
+  exportId: string,
+  generated: GeneratedExport,
+): Promise<void> {
+  const definition = await getReportDefinition(reportId);
+  const owner = definition && await getActiveUser(definition.owner_id);
+
+  if (!definition || !owner) {
+    return;
+  }
+
+  const recipients: AuthenticatedUser[] = [];
+
+  for (const recipientId of definition.recipient_ids) {
+    const recipient = await getActiveUser(recipientId);
+
+    if (recipient && await canReceiveReport(owner, recipient, definition.parameters)) {
+      recipients.push(recipient);
+    }
+  }
+
+  const title = `Report ready: ${definition.name}`;
+  const body = `${generated.filename} (${generated.rowCount} rows) is ready to download.`;
+  const attach = generated.body.length <= MAX_EMAIL_ATTACHMENT_BYTES;
+
+  for (const recipient of recipients) {
+    if (definition.delivery_channels.includes('inbox')) {
+      await createNotification({
+        user_id: recipient.id,
+        type: 'report_ready',
+        title,
+        body,
+        report_id: definition.id,
+        export_id: exportId,
+      });
+    }
+
+    if (definition.delivery_channels.includes('email')) {
+      await sendMail({
+        to: recipient.email,
+        subject: title,
+        text: [
+          body,
+          attach
+            ? 'The report is attached to this email.'
+            : 'The report is too large to attach to this email.',
+          `Signed-in users can also download it from ${downloadLink(exportId)}`,
+        ].join('\n\n'),
+        attachments: attach
+          ? [{
+            filename: generated.filename,
+            content: generated.body,
+            contentType: generated.contentType,
+          }]
+          : undefined,
+      });
+    }
+  }
+}
+
+// Failed runs are reported to the owner only, who can fix the definition
+export async function notifyReportFailure(
+  reportId: string,
+  exportId: string,
+  message: string,
+): Promise<void> {
+  const definition = await getReportDefinition(reportId);
+
+  if (!definition) {
+    return;
+  }
+
+  await createNotification({
+    user_id: definition.owner_id,
+    type: 'report_failed',
+    title: `Report failed: ${definition.name}`,
+    body: message,
+    report_id: definition.id,
+    export_id: exportId,
+  });
+}
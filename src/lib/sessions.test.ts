@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import sql from './db';
+import { hashSecretToken } from './account-tokens';
+import {
+  createSession,
+  getSessionUser,
+  revokeUserSessions,
+  rotateSession,
+} from './sessions';
+
+vi.mock('./db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./db')>()),
+  default: vi.fn(),
+}));
+
+const mockSql = vi.mocked(sql) as unknown as ReturnType<typeof vi.fn>;
+
+describe('createSession', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+  });
+
+  it('stores only the hash of the refresh token it returns', async () => {
+    mockSql.mockResolvedValue([{ id: 'session-1' }]);
+
+    const session = await createSession('user-1', { ipAddress: '10.0.0.1' });
+
+    expect(session.id).toBe('session-1');
+    expect(session.expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+    const values = mockSql.mock.calls[0].slice(1);
+    expect(values).toContain(hashSecretToken(session.refreshToken));
+    expect(values).not.toContain(session.refreshToken);
+    expect(values).toContain('10.0.0.1');
+  });
+
+  it('truncates long user agents', async () => {
+    mockSql.mockResolvedValue([{ id: 'session-1' }]);
+
+    await createSession('user-1', { userAgent: 'x'.repeat(600) });
+
+    expect(mockSql.mock.calls[0]).toContain('x'.repeat(500));
+  });
+});
+
+describe('rotateSession', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+  });
+
+  it('swaps the refresh token for a new one', async () => {
+    mockSql.mockResolvedValue([
+      { id: 'session-1', user_id: 'user-1', expires_at: '2030-01-01T00:00:00Z' },
+    ]);
+
+    const rotated = await rotateSession('old-token');
+
+    expect(rotated).toMatchObject({ id: 'session-1', userId: 'user-1' });
+    expect(rotated!.refreshToken).not.toBe('old-token');
+    expect(rotated!.expiresAt).toEqual(new Date('2030-01-01T00:00:00Z'));
+
+    expect(mockSql).toHaveBeenCalledTimes(1);
+    expect(mockSql.mock.calls[0]).toContain(hashSecretToken(rotated!.refreshToken));
+    expect(mockSql.mock.calls[0]).toContain(hashSecretToken('old-token'));
+  });
+
+  it('revokes the session when a rotated-out token is presented again', async () => {
+    mockSql.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+    expect(await rotateSession('reused-token')).toBeNull();
+
+    const [, reuseCall] = mockSql.mock.calls;
+    const reuseText = (reuseCall[0] as string[]).join('?');
+    expect(reuseText).toContain("revoked_reason = 'refresh_token_reuse'");
+    expect(reuseText).toContain('previous_refresh_token_hash =');
+    expect(reuseCall).toContain(hashSecretToken('reused-token'));
+  });
+});
+
+describe('getSessionUser', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+  });
+
+  it('returns the user behind a live session', async () => {
+    mockSql.mockResolvedValue([{
+      id: 'user-1',
+      sub: 'user-1',
+      email: 'buyer@example.com',
+      name: 'Buyer',
+      role: 'buyer',
+      division_id: 'division-1',
+      spending_limit_cents: '250000',
+    }]);
+
+    expect(await getSessionUser('session-1', 'user-1')).toEqual({
+      id: 'user-1',
+      sub: 'user-1',
+      email: 'buyer@example.com',
+      name: 'Buyer',
+      role: 'buyer',
+      division_id: 'division-1',
+      spending_limit_cents: 250000,
+      session_id: 'session-1',
+    });
+  });
+
+  it('returns null for a revoked, expired or inactive session', async () => {
+    mockSql.mockResolvedValue([]);
+
+    expect(await getSessionUser('session-1', 'user-1')).toBeNull();
+  });
+});
+
+describe('revokeUserSessions', () => {
+  beforeEach(() => {
+    mockSql.mockReset();
+  });
+
+  it('counts the revoked sessions', async () => {
+    mockSql.mockResolvedValue([{ id: 'session-1' }, { id: 'session-2' }]);
+
+    expect(await revokeUserSessions('user-1', 'password_changed')).toBe(2);
+    expect(mockSql.mock.calls[0]).toEqual(
+      [expect.anything(), 'password_changed', 'user-1', null],
+    );
+  });
+
+  it('keeps the excepted session', async () => {
+    mockSql.mockResolvedValue([]);
+
+    await revokeUserSessions('user-1', 'password_changed', 'session-1');
+
+    expect(mockSql.mock.calls[0]).toContain('session-1');
+  });
+});
@@ -0,0 +1,157 @@
+// lib/sessions.ts
+// Login sessions: rotating refresh tokens, stored hashed, and server-side revocation
+
+import sql from './db';
+import { generateSecretToken, hashSecretToken } from './account-tokens';
+import { AuthenticatedUser } from './types';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30') || 30;
+
+export type SessionRevocationReason =
+  | 'logout'
+  | 'admin_revoked'
+  | 'password_changed'
+  | 'refresh_token_reuse'
+  | 'user_inactive';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export async function createSession(
+  userId: string,
+  metadata: SessionMetadata = {},
+): Promise<{ id: string; refreshToken: string; expiresAt: Date }> {
+  const refreshToken = generateSecretToken();
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const [session] = await sql`
+    INSERT INTO sessions (user_id, refresh_token_hash, expires_at, user_agent, ip_address)
+    VALUES (
+      ${userId},
+      ${hashSecretToken(refreshToken)},
+      ${expiresAt},
+      ${metadata.userAgent?.slice(0, 500) ?? null},
+      ${metadata.ipAddress ?? null}
+    )
+    RETURNING id
+  `;
+
+  return { id: session.id, refreshToken, expiresAt };
+}
+
+// Swaps a refresh token for a new one; each token works once. Presenting a token that was
+// already rotated out means it was copied, so the whole session is revoked.
+export async function rotateSession(
+  refreshToken: string,
+): Promise<{ id: string; userId: string; refreshToken: string; expiresAt: Date } | null> {
+  const tokenHash = hashSecretToken(refreshToken);
+  const nextRefreshToken = generateSecretToken();
+
+  const [session] = await sql`
+    UPDATE sessions
+    SET refresh_token_hash = ${hashSecretToken(nextRefreshToken)},
+        previous_refresh_token_hash = refresh_token_hash,
+        last_used_at = NOW()
+    WHERE refresh_token_hash = ${tokenHash} AND revoked_at IS NULL AND expires_at > NOW()
+    RETURNING id, user_id, expires_at
+  `;
+
+  if (session) {
+    return {
+      id: session.id,
+      userId: session.user_id,
+      refreshToken: nextRefreshToken,
+      expiresAt: new Date(session.expires_at),
+    };
+  }
+
+  await sql`
+    UPDATE sessions
+    SET revoked_at = NOW(), revoked_reason = 'refresh_token_reuse'
+    WHERE previous_refresh_token_hash = ${tokenHash} AND revoked_at IS NULL
+  `;
+
+  return null;
+}
+
+// The user behind a live session, read fresh so deactivation and role changes apply to
+// access tokens that were issued before them
+export async function getSessionUser(
+  sessionId: string,
+  userId: string,
+): Promise<AuthenticatedUser | null> {
+  const [row] = await sql`
+    SELECT u.id, u.sub, u.email, u.name, u.role, u.division_id, u.spending_limit_cents
+    FROM sessions s
+    JOIN users u ON s.user_id = u.id
+    WHERE s.id = ${sessionId}
+      AND s.user_id = ${userId}
+      AND s.revoked_at IS NULL
+      AND s.expires_at > NOW()
+      AND u.is_active = TRUE
+      AND u.deleted_at IS NULL
+  `;
+
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    sub: row.sub,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    division_id: row.division_id,
+    spending_limit_cents: Number(row.spending_limit_cents),
+    session_id: sessionId,
+  };
+}
+
+export async function revokeSession(
+  sessionId: string,
+  reason: SessionRevocationReason,
+): Promise<boolean> {
+  const revoked = await sql`
+    UPDATE sessions
+    SET revoked_at = NOW(), revoked_reason = ${reason}
+    WHERE id = ${sessionId} AND revoked_at IS NULL
+    RETURNING id
+  `;
+
+  return revoked.length > 0;
+}
+
+export async function revokeSessionByRefreshToken(
+  refreshToken: string,
+  reason: SessionRevocationReason,
+): Promise<boolean> {
+  const revoked = await sql`
+    UPDATE sessions
+    SET revoked_at = NOW(), revoked_reason = ${reason}
+    WHERE refresh_token_hash = ${hashSecretToken(refreshToken)} AND revoked_at IS NULL
+    RETURNING id
+  `;
+
+  return revoked.length > 0;
+}
+
+// Signs a user out everywhere, optionally keeping the session making the request
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevocationReason,
+  exceptSessionId?: string,
+): Promise<number> {
+  const revoked = await sql`
+    UPDATE sessions
+    SET revoked_at = NOW(), revoked_reason = ${reason}
+    WHERE user_id = ${userId}
+      AND revoked_at IS NULL
+      AND id IS DISTINCT FROM ${exceptSessionId ?? null}
+    RETURNING id
+  `;
+
+  return revoked.length;
+}
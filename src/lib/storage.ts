@@ -0,0 +1,230 @@
+// lib/storage.ts
+// Pluggable object storage: S3 in production, local disk for development, CI and on-prem
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  deleteFile,
+  fileExists,
+  generateDownloadUrl,
+  generateUploadUrlForKey,
+  getFileMetadata,
+  isS3Configured,
+  uploadFile,
+} from './aws';
+
+export interface StoredObjectMetadata {
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
+export interface StorageDriver {
+  readonly name: 's3' | 'local';
+  createUploadUrl(key: string, contentType: string, expiresIn: number): Promise<string>;
+  createDownloadUrl(key: string, expiresIn: number): Promise<string>;
+  // Resolves to null when no object exists under the key
+  getMetadata(key: string): Promise<StoredObjectMetadata | null>;
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  deleteObject(key: string): Promise<void>;
+}
+
+// Route prefix the local driver's signed URLs point at (see routes/files.ts)
+export const LOCAL_STORAGE_ROUTE = '/api/v1/files/local';
+
+export function createS3StorageDriver(): StorageDriver {
+  if (!isS3Configured()) {
+    console.warn('AWS credentials not configured. File upload/download features will be disabled.');
+  }
+
+  return {
+    name: 's3',
+    createUploadUrl: (key, contentType, expiresIn) =>
+      generateUploadUrlForKey(key, contentType, expiresIn),
+    createDownloadUrl: (key, expiresIn) => generateDownloadUrl(key, expiresIn),
+    async getMetadata(key) {
+      if (!(await fileExists(key))) {
+        return null;
+      }
+
+      const metadata = await getFileMetadata(key);
+
+      return {
+        size: metadata.size ?? 0,
+        contentType: metadata.contentType,
+        lastModified: metadata.lastModified,
+      };
+    },
+    putObject: (key, body, contentType) => uploadFile(key, body, contentType),
+    deleteObject: (key) => deleteFile(key),
+  };
+}
+
+export type LocalUrlOperation = 'GET' | 'PUT';
+
+interface LocalStorageOptions {
+  rootDir: string;
+  baseUrl: string;
+  signingSecret: string;
+}
+
+// Content type is kept in a sidecar file next to each stored object
+const METADATA_SUFFIX = '.meta.json';
+
+async function readContentType(filePath: string): Promise<string | undefined> {
+  try {
+    const metadata = JSON.parse(await fs.readFile(`${filePath}${METADATA_SUFFIX}`, 'utf8'));
+    return metadata.contentType;
+  } catch {
+    return undefined;
+  }
+}
+
+function signLocalUrl(
+  secret: string,
+  operation: LocalUrlOperation,
+  key: string,
+  expires: number,
+  contentType: string = '',
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${operation}\n${key}\n${expires}\n${contentType}`)
+    .digest('hex');
+}
+
+export function createLocalStorageDriver(options: LocalStorageOptions) {
+  const rootDir = path.resolve(options.rootDir);
+
+  // Keys come from URLs, so refuse anything that would escape the storage root
+  function resolveKeyPath(key: string): string {
+    const filePath = path.resolve(rootDir, key);
+
+    if (!filePath.startsWith(`${rootDir}${path.sep}`) || filePath.endsWith(METADATA_SUFFIX)) {
+      throw new Error('Invalid storage key');
+    }
+
+    return filePath;
+  }
+
+  function buildSignedUrl(
+    operation: LocalUrlOperation,
+    key: string,
+    expiresIn: number,
+    contentType?: string,
+  ): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = signLocalUrl(options.signingSecret, operation, key, expires, contentType);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+    return `${options.baseUrl}${LOCAL_STORAGE_ROUTE}/${encodedKey}` +
+      `?expires=${expires}&signature=${signature}`;
+  }
+
+  // Checks a signed URL presented to the local storage routes
+  function verifySignedUrl(
+    operation: LocalUrlOperation,
+    key: string,
+    expires: number,
+    signature: string,
+    contentType?: string,
+  ): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      signLocalUrl(options.signingSecret, operation, key, expires, contentType),
+    );
+    const provided = Buffer.from(signature);
+
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  }
+
+  async function readObject(key: string): Promise<{ body: Buffer; contentType?: string } | null> {
+    const filePath = resolveKeyPath(key);
+
+    try {
+      const body = await fs.readFile(filePath);
+      return { body, contentType: await readContentType(filePath) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  const driver: StorageDriver = {
+    name: 'local',
+    createUploadUrl: async (key, contentType, expiresIn) =>
+      buildSignedUrl('PUT', key, expiresIn, contentType),
+    createDownloadUrl: async (key, expiresIn) => buildSignedUrl('GET', key, expiresIn),
+    async getMetadata(key) {
+      const filePath = resolveKeyPath(key);
+
+      try {
+        const stats = await fs.stat(filePath);
+
+        return {
+          size: stats.size,
+          contentType: await readContentType(filePath),
+          lastModified: stats.mtime,
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async putObject(key, body, contentType) {
+      const filePath = resolveKeyPath(key);
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+      await fs.writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify({ contentType }));
+    },
+    async deleteObject(key) {
+      const filePath = resolveKeyPath(key);
+
+      await fs.rm(filePath, { force: true });
+      await fs.rm(`${filePath}${METADATA_SUFFIX}`, { force: true });
+    },
+  };
+
+  return { ...driver, verifySignedUrl, readObject };
+}
+
+export type LocalStorageDriver = ReturnType<typeof createLocalStorageDriver>;
+
+let storageDriver: StorageDriver | LocalStorageDriver | null = null;
+
+// Driver selected by STORAGE_DRIVER ('s3' by default), created on first use
+export function getStorage(): StorageDriver {
+  if (!storageDriver) {
+    const driverName = process.env.STORAGE_DRIVER || 's3';
+
+    if (driverName === 'local') {
+      storageDriver = createLocalStorageDriver({
+        rootDir: process.env.LOCAL_STORAGE_DIR || './storage',
+        baseUrl: process.env.LOCAL_STORAGE_BASE_URL ||
+          `http://localhost:${process.env.PORT || 3000}`,
+        signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET!,
+      });
+    } else if (driverName === 's3') {
+      storageDriver = createS3StorageDriver();
+    } else {
+      throw new Error(`Unknown STORAGE_DRIVER: ${driverName}`);
+    }
+  }
+
+  return storageDriver;
+}
+
+// The local driver, or null when another driver is in use
+export function getLocalStorage(): LocalStorageDriver | null {
+  const driver = getStorage();
+  return driver.name === 'local' ? driver as LocalStorageDriver : null;
+}
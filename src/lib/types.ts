@@ -19,6 +19,7 @@ export interface DeliveryAddress {
 }
 
 export interface AttachmentMetadata {
+  fileId?: string; // Backing record in the files table; absent on legacy entries
   filename: string;
   originalName?: string;
   url: string;
@@ -28,6 +29,158 @@ export interface AttachmentMetadata {
   uploadedBy: string;
 }
 
+export type FileEntityType = 'purchase_order' | 'delivery' | 'invoice';
+
+export interface StoredFile {
+  id: string;
+  owner_id: string;
+  entity_type?: FileEntityType;
+  entity_id?: string;
+  filename: string;
+  content_type: string;
+  size_bytes?: number;
+  sha256?: string;
+  storage_key: string;
+  status: 'pending' | 'uploaded';
+  uploaded_at?: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+export type ExportStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type ReportType = 'purchase_orders' | 'spend_by_supplier';
+
+export interface Export {
+  id: string;
+  po_id?: string;
+  format: ExportFormat;
+  report_type: ReportType;
+  report_id?: string;
+  status: ExportStatus;
+  progress: number;
+  error_message?: string;
+  started_at?: string;
+  completed_at?: string;
+  // File details are filled in once the job is done
+  filename?: string;
+  content_type?: string;
+  size_bytes?: number;
+  row_count?: number;
+  filters?: Record<string, string>;
+  file_url?: string;
+  generated_at: string;
+  generated_by: string;
+  expires_at: string;
+  expired: boolean;
+}
+
+// Periods are resolved relative to each run, so a monthly report always covers last month
+export type ReportPeriod =
+  | 'last_7_days'
+  | 'last_30_days'
+  | 'this_month'
+  | 'last_month'
+  | 'last_quarter'
+  | 'this_year'
+  | 'last_year';
+
+export interface ReportParameters {
+  period?: ReportPeriod;
+  status?: string;
+  supplier_id?: string;
+  division_id?: string;
+  include_descendants?: 'true' | 'false';
+  order_type?: 'single' | 'rolling';
+  search?: string;
+}
+
+export type ReportDeliveryChannel = 'inbox' | 'email';
+
+export interface ReportDefinition {
+  id: string;
+  owner_id: string;
+  name: string;
+  report_type: ReportType;
+  format: 'csv' | 'json';
+  parameters: ReportParameters;
+  schedule: string;
+  delivery_channels: ReportDeliveryChannel[];
+  recipient_ids: string[];
+  is_active: boolean;
+  next_run_at?: string;
+  last_run_at?: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: 'report_ready' | 'report_failed';
+  title: string;
+  body?: string;
+  report_id?: string;
+  export_id?: string;
+  read_at?: string;
+  created_at: string;
+}
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: string;
+  record_id: string;
+  action: AuditAction;
+  old_values?: Record<string, unknown>;
+  new_values?: Record<string, unknown>;
+  user_id?: string;
+  user_name?: string;
+  po_id?: string;
+  at: string;
+  seq: number;
+  prev_hash?: string;
+  hash: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked_count: number;
+  // The newest entry; recording it elsewhere lets a later check detect removal of the tail
+  head?: { seq: number; hash: string };
+  first_broken_link?: {
+    seq: number;
+    id: string;
+    reason: string;
+  };
+}
+
+export type PurchaseOrderHistoryKind =
+  | 'purchase_order'
+  | 'status'
+  | 'line'
+  | 'approval'
+  | 'delivery'
+  | 'invoice'
+  | 'document';
+
+export interface PurchaseOrderHistoryEvent {
+  at: string;
+  kind: PurchaseOrderHistoryKind;
+  action: AuditAction;
+  summary: string;
+  user_id?: string;
+  user_name?: string;
+  table_name: string;
+  record_id: string;
+  changes: Record<string, FieldChange>;
+}
+
 export interface PurchaseOrder {
   id: string;
   division_id: string;
@@ -41,6 +194,10 @@ export interface PurchaseOrder {
   tags?: string[];
   attachments?: AttachmentMetadata[];
   comments?: string;
+  rejection_reason?: string;
+  submitted_at?: string;
+  approved_by?: string;
+  approved_at?: string;
   created_at: string;
   updated_at: string;
   updated_by: string;
@@ -49,6 +206,8 @@ export interface PurchaseOrder {
 
 export interface PurchaseOrderWithDelivery extends PurchaseOrder {
   delivery_address?: DeliveryAddress;
+  supplier?: Supplier;
+  lines?: POLine[];
 }
 
 export interface POLine {
@@ -69,11 +228,69 @@ export interface POLine {
 export interface Division {
   id: string;
   name: string;
+  parent_id?: string;
   created_at: string;
   updated_at: string;
   deleted_at?: string;
 }
 
+export interface DivisionWithStats extends Division {
+  child_count: number;
+  user_count: number;
+  open_po_count: number;
+  committed_spend_cents: number;
+}
+
+export interface DivisionBudget {
+  id: string;
+  division_id: string;
+  period_start: string;
+  period_end: string;
+  budget_cents: number;
+  enforcement: 'warn' | 'block';
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+}
+
+export interface BudgetSummary {
+  budget: DivisionBudget;
+  committed_cents: number;
+  actual_cents: number;
+  remaining_cents: number;
+}
+
+export interface ApprovalStep {
+  id: string;
+  division_id: string;
+  step_order: number;
+  name: string;
+  min_total_cents: number;
+  approver_role?: 'basic' | 'manager' | 'admin';
+  approver_user_id?: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+}
+
+export interface POApproval {
+  id: string;
+  po_id: string;
+  step_id?: string;
+  round: number;
+  step_order: number;
+  name: string;
+  approver_role?: 'basic' | 'manager' | 'admin';
+  approver_user_id?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  acted_by?: string;
+  acted_by_name?: string;
+  acted_at?: string;
+  comments?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Supplier {
   id: string;
   name: string;
@@ -136,25 +353,100 @@ export interface Invoice {
   po_id: string;
   supplier_invoice_no: string;
   invoice_date: string;
-  invoice_file_url?: string;
+  invoice_file_url?: string; // Legacy; new invoices link invoice_file_id
+  invoice_file_id?: string;
+  status: 'pending' | 'approved' | 'paid';
+  match_status: 'unmatched' | 'matched' | 'exceptions';
+  match_discrepancies: MatchDiscrepancy[];
+  match_tolerances?: AppliedMatchTolerances; // What the last match ran with
+  matched_at?: string;
+  matched_by?: string;
+  approved_by?: string;
+  approved_at?: string;
+  paid_by?: string;
+  paid_at?: string;
+  payment_reference?: string;
+  payment_date?: string;
+  total_cents?: number;
   created_at: string;
   updated_at: string;
   created_by: string;
   updated_by: string;
   deleted_at?: string;
+  lines?: InvoiceLine[];
+}
+
+export interface InvoiceLine {
+  id: string;
+  invoice_id: string;
+  po_line_id: string;
+  line_no?: number;
+  qty_invoiced: number;
+  unit_price_cents: number;
+  created_at: string;
+  updated_at: string;
+  created_by: string;
+  updated_by: string;
+}
+
+export interface MatchTolerances {
+  price_percent: number;
+  qty_percent: number;
+}
+
+// Tolerances a match ran with; overridden is set when an admin replaced the configured ones
+export interface AppliedMatchTolerances extends MatchTolerances {
+  overridden: boolean;
+}
+
+// A single invoice line check that fell outside tolerance during three-way matching
+export interface MatchDiscrepancy {
+  po_line_id: string;
+  line_no: number;
+  type: 'price' | 'qty_ordered' | 'qty_received';
+  expected: number;
+  actual: number;
+  variance_percent: number | null;
+  tolerance_percent: number;
 }
 
 export interface Delivery {
   id: string;
   po_id: string;
   delivered_at: string;
-  pod_file_url?: string;
+  pod_file_url?: string; // Legacy; new deliveries link pod_file_id
+  pod_file_id?: string;
   notes?: string;
+  void_reason?: string;
   created_at: string;
   updated_at: string;
   created_by: string;
   updated_by: string;
   deleted_at?: string;
+  lines?: DeliveryLine[];
+}
+
+export interface DeliveryLine {
+  id: string;
+  delivery_id: string;
+  po_line_id: string;
+  line_no?: number;
+  qty_received: number;
+  created_at: string;
+  updated_at: string;
+  created_by: string;
+  updated_by: string;
+}
+
+// Per-line receiving progress for a purchase order
+export interface POLineReceipt {
+  po_line_id: string;
+  line_no: number;
+  sku?: string;
+  description?: string;
+  qty_ordered: number;
+  qty_received: number;
+  qty_outstanding: number;
 }
 
 // Request/Response DTOs
@@ -180,6 +472,14 @@ export interface UpdateDeliveryAddressRequest {
   is_active?: boolean;
 }
 
+export interface PurchaseOrderLineRequest {
+  line_no: number;
+  sku?: string;
+  description?: string;
+  qty: number;
+  unit_price_cents: number;
+}
+
 export interface CreatePurchaseOrderRequest {
   supplier_id?: string;
   order_type?: 'single' | 'rolling';
@@ -188,13 +488,7 @@ export interface CreatePurchaseOrderRequest {
   tags?: string[];
   comments?: string;
   attachments?: AttachmentMetadata[];
-  lines: {
-    line_no: number;
-    sku?: string;
-    description?: string;
-    qty: number;
-    unit_price_cents: number;
-  }[];
+  lines: PurchaseOrderLineRequest[];
 }
 
 export interface UpdatePurchaseOrderRequest {
@@ -205,13 +499,32 @@ export interface UpdatePurchaseOrderRequest {
   tags?: string[];
   comments?: string;
   attachments?: AttachmentMetadata[];
-  lines?: {
-    line_no: number;
-    sku?: string;
-    description?: string;
-    qty: number;
-    unit_price_cents: number;
-  }[];
+  lines?: PurchaseOrderLineRequest[];
+}
+
+export interface InvoiceLineRequest {
+  po_line_id: string;
+  qty_invoiced: number;
+  unit_price_cents: number;
+}
+
+export interface CreateInvoiceRequest {
+  po_id: string;
+  supplier_invoice_no: string;
+  invoice_date: string;
+  invoice_file_id?: string;
+  lines: InvoiceLineRequest[];
+}
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface POLineChange {
+  line_no: number;
+  action: 'added' | 'updated' | 'removed';
+  changes?: Record<string, FieldChange>;
 }
 
 export interface FileUploadResponse {
@@ -248,4 +561,5 @@ export interface AuthenticatedUser {
   role: 'basic' | 'manager' | 'admin';
   division_id?: string;
   spending_limit_cents: number;
+  session_id?: string;
 }
\ No newline at end of file
@@ -1,11 +1,226 @@
 // routes/admin.ts
 // Admin routes for Fastify
 
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import sql, { createFilterBuilder, FilterBuilder } from '../lib/db';
+import { requireAuth, applyDivisionScope, hasPermission } from '../lib/auth';
+import { COMMITTED_PO_STATUSES } from '../lib/purchase-orders';
+import { AuditLogQuery, applyAuditFilters, listAuditLog, verifyAuditChain } from '../lib/audit';
+
+// Approved orders without an end date count as overdue once this many days pass undelivered
+const DEFAULT_OVERDUE_AFTER_DAYS = 30;
+
+// Committed spend is dated by approval, falling back for orders approved before approved_at
+// was recorded
+const SPEND_DATE_SQL = 'COALESCE(po.approved_at, po.submitted_at, po.created_at)';
 
 export async function adminRoutes(fastify: FastifyInstance) {
-  // Placeholder - will be implemented
-  fastify.get('/', async () => {
-    return { message: 'Admin routes - coming soon' };
+  // Dashboard figures, each limited to the divisions the caller can access
+  fastify.get('/overview', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'admin:overview'))) {
+        return reply.status(403).send({ error: 'Missing required permission: admin:overview' });
+      }
+
+      const query = request.query as {
+        division_id?: string;
+        include_descendants?: string;
+        overdue_after_days?: string;
+      };
+
+      const scopeOptions = {
+        divisionId: query.division_id,
+        includeDescendants: query.include_descendants !== 'false',
+      };
+
+      const overdueAfterDays = Math.max(
+        1,
+        parseInt(query.overdue_after_days || '') || DEFAULT_OVERDUE_AFTER_DAYS,
+      );
+
+      // Checked once up front; each figure then gets its own filter builder since parameter
+      // numbering is per query
+      const scopeError = await applyDivisionScope(
+        createFilterBuilder(),
+        'division_id',
+        user,
+        scopeOptions,
+      );
+
+      if (scopeError) {
+        return reply.status(scopeError.status).send({ error: scopeError.error });
+      }
+
+      const scoped = async (column: string, conditions: string[]): Promise<FilterBuilder> => {
+        const filters = createFilterBuilder(conditions);
+        await applyDivisionScope(filters, column, user, scopeOptions);
+        return filters;
+      };
+
+      const statusFilters = await scoped('po.division_id', ['po.deleted_at IS NULL']);
+      const statusRows = await sql(`
+        SELECT po.status, COUNT(*) as count
+        FROM purchase_orders po
+        ${statusFilters.toString()}
+        GROUP BY po.status
+      `, statusFilters.params);
+
+      const spendFilters = await scoped('po.division_id', ['po.deleted_at IS NULL']);
+      spendFilters.add(`po.status = ANY(${spendFilters.param(COMMITTED_PO_STATUSES)})`);
+      const [spend] = await sql(`
+        SELECT
+          COALESCE(SUM(po.total_value_cents) FILTER (
+            WHERE ${SPEND_DATE_SQL} >= date_trunc('month', NOW())
+          ), 0) as this_month_cents,
+          COALESCE(SUM(po.total_value_cents) FILTER (
+            WHERE ${SPEND_DATE_SQL} >= date_trunc('month', NOW()) - INTERVAL '1 month'
+              AND ${SPEND_DATE_SQL} < date_trunc('month', NOW())
+          ), 0) as last_month_cents
+        FROM purchase_orders po
+        ${spendFilters.toString()}
+      `, spendFilters.params);
+
+      const pendingFilters = await scoped('po.division_id', [
+        'po.deleted_at IS NULL',
+        'po.status = \'submitted\'',
+      ]);
+      const [pending] = await sql(`
+        SELECT COUNT(*) as count, COALESCE(SUM(po.total_value_cents), 0) as value_cents
+        FROM purchase_orders po
+        ${pendingFilters.toString()}
+      `, pendingFilters.params);
+
+      const overdueFilters = await scoped('po.division_id', [
+        'po.deleted_at IS NULL',
+        'po.status = \'approved\'',
+      ]);
+      overdueFilters.add(`(
+        po.order_end_date < CURRENT_DATE
+        OR (
+          po.order_end_date IS NULL
+          AND po.approved_at < NOW() - ${overdueFilters.param(overdueAfterDays)}::int
+            * INTERVAL '1 day'
+        )
+      )`);
+      const [overdue] = await sql(`
+        SELECT COUNT(*) as count, COALESCE(SUM(po.total_value_cents), 0) as value_cents
+        FROM purchase_orders po
+        ${overdueFilters.toString()}
+      `, overdueFilters.params);
+
+      const invoiceFilters = await scoped('po.division_id', [
+        'i.deleted_at IS NULL',
+        'po.deleted_at IS NULL',
+      ]);
+      const [invoices] = await sql(`
+        SELECT
+          COUNT(*) FILTER (WHERE i.match_status = 'unmatched') as unmatched,
+          COUNT(*) FILTER (WHERE i.match_status = 'exceptions') as exceptions
+        FROM invoices i
+        JOIN purchase_orders po ON i.po_id = po.id
+        ${invoiceFilters.toString()}
+      `, invoiceFilters.params);
+
+      const userFilters = await scoped('u.division_id', [
+        'u.deleted_at IS NULL',
+        'u.is_active = TRUE',
+      ]);
+      const userRows = await sql(`
+        SELECT u.division_id, d.name as division_name, COUNT(*) as active_users
+        FROM users u
+        LEFT JOIN divisions d ON u.division_id = d.id
+        ${userFilters.toString()}
+        GROUP BY u.division_id, d.name
+        ORDER BY d.name NULLS LAST
+      `, userFilters.params);
+
+      // COUNT and SUM come back from the driver as strings
+      const purchaseOrdersByStatus: Record<string, number> = {};
+      for (const row of statusRows) {
+        purchaseOrdersByStatus[row.status] = Number(row.count);
+      }
+
+      const thisMonthCents = Number(spend.this_month_cents);
+      const lastMonthCents = Number(spend.last_month_cents);
+
+      return {
+        purchase_orders_by_status: purchaseOrdersByStatus,
+        spend: {
+          this_month_cents: thisMonthCents,
+          last_month_cents: lastMonthCents,
+          change_percent: lastMonthCents > 0
+            ? Math.round(((thisMonthCents - lastMonthCents) / lastMonthCents) * 1000) / 10
+            : null,
+        },
+        pending_approvals: {
+          count: Number(pending.count),
+          value_cents: Number(pending.value_cents),
+        },
+        overdue_deliveries: {
+          count: Number(overdue.count),
+          value_cents: Number(overdue.value_cents),
+          overdue_after_days: overdueAfterDays,
+        },
+        invoices: {
+          unmatched: Number(invoices.unmatched),
+          exceptions: Number(invoices.exceptions),
+        },
+        active_users_by_division: userRows.map((row) => ({
+          division_id: row.division_id,
+          division_name: row.division_name,
+          active_users: Number(row.active_users),
+        })),
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching admin overview:');
+      return reply.status(500).send({ error: 'Failed to fetch admin overview' });
+    }
+  });
+
+  // Query the audit log, newest first; pass next_cursor back as `cursor` for the next page
+  fastify.get('/audit', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'admin:audit'))) {
+        return reply.status(403).send({ error: 'Missing required permission: admin:audit' });
+      }
+
+      const query = request.query as AuditLogQuery & { limit?: string };
+      const limit = Math.max(1, Math.min(parseInt(query.limit || '50') || 50, 100));
+
+      const filters = createFilterBuilder();
+      const filterError = applyAuditFilters(filters, query);
+
+      if (filterError) {
+        return reply.status(filterError.status).send({ error: filterError.error });
+      }
+
+      return await listAuditLog(filters, limit);
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching audit log:');
+      return reply.status(500).send({ error: 'Failed to fetch audit log' });
+    }
+  });
+
+  // Check the audit log's hash chain for tampering
+  fastify.get('/audit/verify', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'admin:audit'))) {
+        return reply.status(403).send({ error: 'Missing required permission: admin:audit' });
+      }
+
+      return await verifyAuditChain();
+
+    } catch (error) {
+      fastify.log.error(error, 'Error verifying audit log:');
+      return reply.status(500).send({ error: 'Failed to verify audit log' });
+    }
   });
-}
\ No newline at end of file
+}
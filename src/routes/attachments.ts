@@ -0,0 +1,318 @@
+// routes/attachments.ts
+// Purchase order attachment routes for Fastify, nested under purchase orders
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sql, { withSoftDelete, withUpdateAudit } from '../lib/db';
+import { requireAuth, isValidUUID, canAccessDivision, hasPermission } from '../lib/auth';
+import { buildFileLinkQuery, getFile, getLinkableFile } from '../lib/files';
+import { COMMITTED_PO_STATUSES } from '../lib/purchase-orders';
+import { getStorage } from '../lib/storage';
+import { AttachmentMetadata, AuthenticatedUser } from '../lib/types';
+
+// Validation schemas
+const addAttachmentSchema = z.object({
+  file_id: z.string().uuid(),
+});
+
+const poParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+const attachmentParamsSchema = {
+  type: 'object',
+  required: ['id', 'fileId'],
+  properties: {
+    id: { type: 'string' },
+    fileId: { type: 'string' },
+  },
+};
+
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+// Attachments are frozen with the rest of the order once it has been approved; only
+// users with files:manage can change them afterwards
+const ATTACHMENT_LOCKED_PO_STATUSES = COMMITTED_PO_STATUSES;
+
+// Loads the PO header and checks the caller may act on it; returns an error reply payload
+async function loadPurchaseOrder(
+  user: AuthenticatedUser,
+  id: string,
+  permission: string,
+): Promise<{ status: number; error: string } | { purchaseOrder: Record<string, any> }> {
+  if (!isValidUUID(id)) {
+    return { status: 400, error: 'Invalid purchase order ID format' };
+  }
+
+  if (!(await hasPermission(user.id, permission))) {
+    return { status: 403, error: `Missing required permission: ${permission}` };
+  }
+
+  const [purchaseOrder] = await sql`
+    SELECT id, division_id, status, created_by, attachments
+    FROM purchase_orders
+    WHERE id = ${id} AND deleted_at IS NULL
+  `;
+
+  if (!purchaseOrder) {
+    return { status: 404, error: 'Purchase order not found' };
+  }
+
+  if (!(await canAccessDivision(user, purchaseOrder.division_id))) {
+    return { status: 403, error: 'Forbidden' };
+  }
+
+  return { purchaseOrder };
+}
+
+// Changes to attachments follow the PO edit rules, with files:manage lifting the lock
+// that applies once the order is approved
+async function checkAttachmentsEditable(
+  user: AuthenticatedUser,
+  purchaseOrder: Record<string, any>,
+): Promise<{ status: number; error: string; canManage: boolean } | { canManage: boolean }> {
+  const canManage = await hasPermission(user.id, 'files:manage');
+
+  // Basic users may only change attachments on their own purchase orders
+  if (!canManage && user.role === 'basic' && purchaseOrder.created_by !== user.id) {
+    return { status: 403, error: 'Forbidden', canManage };
+  }
+
+  if (!canManage && ATTACHMENT_LOCKED_PO_STATUSES.includes(purchaseOrder.status)) {
+    return {
+      status: 400,
+      error: `Attachments are locked on purchase orders in ${purchaseOrder.status} status`,
+      canManage,
+    };
+  }
+
+  return { canManage };
+}
+
+export async function attachmentRoutes(fastify: FastifyInstance) {
+  // List a purchase order's attachments with fresh download links
+  fastify.get('/:id/attachments', {
+    schema: {
+      params: poParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      const result = await loadPurchaseOrder(user, id, 'files:download');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const attachments: AttachmentMetadata[] = result.purchaseOrder.attachments ?? [];
+      const storage = getStorage();
+
+      // Entries recorded before attachments were backed by the files table keep their URL
+      const withDownloadUrls = await Promise.all(attachments.map(async (attachment) => {
+        if (!attachment.fileId) {
+          return attachment;
+        }
+
+        const file = await getFile(attachment.fileId);
+
+        return {
+          ...attachment,
+          download_url: file?.status === 'uploaded'
+            ? await storage.createDownloadUrl(file.storage_key, DOWNLOAD_URL_TTL_SECONDS)
+            : null,
+        };
+      }));
+
+      return {
+        po_id: id,
+        locked: ATTACHMENT_LOCKED_PO_STATUSES.includes(result.purchaseOrder.status),
+        attachments: withDownloadUrls,
+        expires_in: DOWNLOAD_URL_TTL_SECONDS,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching attachments:');
+      return reply.status(500).send({ error: 'Failed to fetch attachments' });
+    }
+  });
+
+  // Attach an uploaded file to a purchase order
+  fastify.post('/:id/attachments', {
+    schema: {
+      params: poParamsSchema,
+      body: {
+        type: 'object',
+        required: ['file_id'],
+        properties: {
+          file_id: { type: 'string', format: 'uuid' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+      const data = addAttachmentSchema.parse(request.body);
+
+      const result = await loadPurchaseOrder(user, id, 'files:upload');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const { purchaseOrder } = result;
+      const editable = await checkAttachmentsEditable(user, purchaseOrder);
+      if ('error' in editable) {
+        return reply.status(editable.status).send({ error: editable.error });
+      }
+
+      const fileResult = await getLinkableFile(user, data.file_id, 'purchase_order', id);
+      if ('error' in fileResult) {
+        return reply.status(fileResult.status).send({ error: fileResult.error });
+      }
+
+      const { file } = fileResult;
+
+      const attachment: AttachmentMetadata = {
+        fileId: file.id,
+        filename: file.storage_key.split('/').pop() ?? file.storage_key,
+        originalName: file.filename,
+        url: `/api/v1/files/${file.id}/download`,
+        size: file.size_bytes ?? 0,
+        mimeType: file.content_type,
+        uploadedAt: new Date().toISOString(),
+        uploadedBy: user.id,
+      };
+
+      const updateData = withUpdateAudit({
+        attachment: JSON.stringify([attachment]),
+        match: JSON.stringify([{ fileId: file.id }]),
+      }, user.id);
+
+      // The status, duplicate and file guards make the append safe against concurrent
+      // changes: the file must still be linkable when it is added to the list
+      const [poResult] = await sql.transaction([
+        sql`
+          UPDATE purchase_orders
+          SET attachments = COALESCE(attachments, '[]'::jsonb) || ${updateData.attachment}::jsonb,
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${id} AND deleted_at IS NULL
+            AND NOT COALESCE(attachments, '[]'::jsonb) @> ${updateData.match}::jsonb
+            AND (${editable.canManage} OR status <> ALL(${ATTACHMENT_LOCKED_PO_STATUSES}))
+            AND EXISTS (
+              SELECT 1 FROM files
+              WHERE id = ${file.id} AND deleted_at IS NULL AND status = 'uploaded'
+                AND (entity_id IS NULL OR (entity_type = 'purchase_order' AND entity_id = ${id}))
+            )
+          RETURNING id
+        `,
+        buildFileLinkQuery(file.id, 'purchase_order', id, user.id),
+      ]);
+
+      if (poResult.length === 0) {
+        return reply.status(409).send({
+          error: 'File is already attached, or the file or purchase order changed',
+        });
+      }
+
+      return reply.status(201).send({ attachment });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error adding attachment:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to add attachment' });
+    }
+  });
+
+  // Remove an attachment and delete the underlying file
+  fastify.delete('/:id/attachments/:fileId', {
+    schema: {
+      params: attachmentParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id, fileId } = request.params as { id: string; fileId: string };
+
+      if (!isValidUUID(fileId)) {
+        return reply.status(400).send({ error: 'Invalid file ID format' });
+      }
+
+      const result = await loadPurchaseOrder(user, id, 'files:delete');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const { purchaseOrder } = result;
+      const editable = await checkAttachmentsEditable(user, purchaseOrder);
+      if ('error' in editable) {
+        return reply.status(editable.status).send({ error: editable.error });
+      }
+
+      const attachments: AttachmentMetadata[] = purchaseOrder.attachments ?? [];
+
+      if (!attachments.some((attachment) => attachment.fileId === fileId)) {
+        return reply.status(404).send({ error: 'Attachment not found' });
+      }
+
+      const deleteData = withSoftDelete(user.id);
+      const match = JSON.stringify([{ fileId }]);
+
+      // The file is only deleted once it has actually left the attachment list
+      const [poResult, fileResult] = await sql.transaction([
+        sql`
+          UPDATE purchase_orders
+          SET attachments = (
+                SELECT COALESCE(jsonb_agg(a), '[]'::jsonb)
+                FROM jsonb_array_elements(attachments) a
+                WHERE a->>'fileId' IS DISTINCT FROM ${fileId}
+              ),
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE id = ${id} AND deleted_at IS NULL
+            AND (${editable.canManage} OR status <> ALL(${ATTACHMENT_LOCKED_PO_STATUSES}))
+          RETURNING id
+        `,
+        sql`
+          UPDATE files
+          SET deleted_at = ${deleteData.deleted_at},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE id = ${fileId} AND entity_type = 'purchase_order' AND entity_id = ${id}
+            AND deleted_at IS NULL
+            AND NOT EXISTS (
+              SELECT 1 FROM purchase_orders
+              WHERE id = ${id} AND attachments @> ${match}::jsonb
+            )
+          RETURNING storage_key
+        `,
+      ]);
+
+      if (poResult.length === 0) {
+        return reply.status(409).send({ error: 'Purchase order status changed, please retry' });
+      }
+
+      if (fileResult.length > 0) {
+        await getStorage().deleteObject(fileResult[0].storage_key);
+      }
+
+      return { message: 'Attachment removed successfully' };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error removing attachment:');
+      return reply.status(500).send({ error: 'Failed to remove attachment' });
+    }
+  });
+}
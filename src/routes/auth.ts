@@ -4,7 +4,20 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import sql from '../lib/db';
-import { generateToken, hashPassword, comparePassword } from '../lib/auth';
+import { generateToken, hashPassword, comparePassword, getActiveUser } from '../lib/auth';
+import {
+  createSession,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeUserSessions,
+  rotateSession,
+} from '../lib/sessions';
+import {
+  AccountTokenPurpose,
+  consumeAccountToken,
+  createAccountToken,
+} from '../lib/account-tokens';
+import { sendMail } from '../lib/mail';
 import { AuthenticatedUser } from '../lib/types';
 
 // Validation schemas
@@ -20,6 +33,92 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+const refreshSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+const logoutSchema = z.object({
+  refresh_token: z.string().min(1).optional(),
+});
+
+const emailSchema = z.object({
+  email: z.string().email(),
+});
+
+const tokenSchema = z.object({
+  token: z.string().min(1),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+// Same reply whether or not the address has an account, so these endpoints can't be used
+// to find out who is registered
+const ACCOUNT_EMAIL_SENT_MESSAGE =
+  'If an account exists for this email address, a message has been sent to it';
+
+const ACCOUNT_EMAILS: Record<
+  AccountTokenPurpose,
+  { subject: string; path: string; body: string }
+> = {
+  password_reset: {
+    subject: 'Reset your Hogan RO password',
+    path: '/reset-password',
+    body: 'Someone asked to reset the password for your Hogan RO account. '
+      + 'Use the link below within the next hour to choose a new one:',
+  },
+  email_verification: {
+    subject: 'Verify your Hogan RO email address',
+    path: '/verify-email',
+    body: 'Confirm your email address to finish setting up your Hogan RO account. '
+      + 'The link below is valid for 48 hours:',
+  },
+};
+
+// Every sign-in opens a session; its refresh token is only ever returned to the client
+async function startSession(
+  request: FastifyRequest,
+  user: AuthenticatedUser,
+): Promise<{ token: string; refresh_token: string; refresh_token_expires_at: string }> {
+  const session = await createSession(user.id, {
+    userAgent: request.headers['user-agent'],
+    ipAddress: request.ip,
+  });
+
+  return {
+    token: generateToken(user, session.id),
+    refresh_token: session.refreshToken,
+    refresh_token_expires_at: session.expiresAt.toISOString(),
+  };
+}
+
+// Emails the user a fresh single-use link for the given purpose; links point at the web app
+async function sendAccountEmail(
+  user: Record<string, any>,
+  purpose: AccountTokenPurpose,
+): Promise<void> {
+  const { token } = await createAccountToken(user.id, purpose);
+  const email = ACCOUNT_EMAILS[purpose];
+  const baseUrl = process.env.APP_BASE_URL || 'http://localhost:3001';
+  const link = `${baseUrl}${email.path}?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: email.subject,
+    text: [
+      `Hello ${user.name || user.email},`,
+      '',
+      email.body,
+      '',
+      link,
+      '',
+      'If you did not request this, you can ignore this email.',
+    ].join('\n'),
+  });
+}
+
 // Route handlers
 export async function authRoutes(fastify: FastifyInstance) {
   // Register endpoint
@@ -49,7 +148,7 @@ export async function authRoutes(fastify: FastifyInstance) {
                 role: { type: 'string' },
               },
             },
-            token: { type: 'string' },
+            message: { type: 'string' },
           },
         },
       },
@@ -65,7 +164,7 @@ export async function authRoutes(fastify: FastifyInstance) {
       
       if (existingUser) {
         return reply.status(400).send({
-          error: 'User with this email already exists'
+          error: 'User with this email already exists',
         });
       }
       
@@ -94,22 +193,16 @@ export async function authRoutes(fastify: FastifyInstance) {
           true,
           NOW(),
           NOW()
-        ) RETURNING id, email, name, role, division_id, spending_limit_cents
+        ) RETURNING id, email, name, role
       `;
       
-      // Create authenticated user object
-      const authUser: AuthenticatedUser = {
-        id: user.id,
-        sub: user.id, // Using user ID as subject for now
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        division_id: user.division_id,
-        spending_limit_cents: user.spending_limit_cents,
-      };
-      
-      // Generate JWT token
-      const token = generateToken(authUser);
+      // The account can't sign in until the emailed link is followed. A failed send is not
+      // fatal: the user can ask for another link through /resend-verification.
+      try {
+        await sendAccountEmail(user, 'email_verification');
+      } catch (mailError) {
+        fastify.log.error(mailError, 'Failed to send verification email:');
+      }
       
       return reply.status(201).send({
         success: true,
@@ -119,7 +212,7 @@ export async function authRoutes(fastify: FastifyInstance) {
           name: user.name,
           role: user.role,
         },
-        token,
+        message: 'Check your email to verify your address before logging in',
       });
       
     } catch (error) {
@@ -164,6 +257,8 @@ export async function authRoutes(fastify: FastifyInstance) {
               },
             },
             token: { type: 'string' },
+            refresh_token: { type: 'string' },
+            refresh_token_expires_at: { type: 'string' },
           },
         },
       },
@@ -174,20 +269,22 @@ export async function authRoutes(fastify: FastifyInstance) {
       
       // Find user
       const [user] = await sql`
-        SELECT id, email, name, role, division_id, spending_limit_cents, password_hash, is_active
+        SELECT
+          id, email, name, role, division_id, spending_limit_cents, password_hash, is_active,
+          email_verified_at
         FROM users 
         WHERE email = ${data.email} AND deleted_at IS NULL
       `;
       
       if (!user) {
         return reply.status(401).send({
-          error: 'Invalid credentials'
+          error: 'Invalid credentials',
         });
       }
       
       if (!user.is_active) {
         return reply.status(401).send({
-          error: 'Account is disabled'
+          error: 'Account is disabled',
         });
       }
       
@@ -195,7 +292,14 @@ export async function authRoutes(fastify: FastifyInstance) {
       const isValidPassword = await comparePassword(data.password, user.password_hash);
       if (!isValidPassword) {
         return reply.status(401).send({
-          error: 'Invalid credentials'
+          error: 'Invalid credentials',
+        });
+      }
+      
+      // Checked after the password so it reveals nothing about unverified addresses
+      if (!user.email_verified_at) {
+        return reply.status(403).send({
+          error: 'Email address not verified',
         });
       }
       
@@ -211,7 +315,7 @@ export async function authRoutes(fastify: FastifyInstance) {
       };
       
       // Generate JWT token
-      const token = generateToken(authUser);
+      const tokens = await startSession(request, authUser);
       
       return reply.send({
         success: true,
@@ -221,7 +325,7 @@ export async function authRoutes(fastify: FastifyInstance) {
           name: user.name,
           role: user.role,
         },
-        token,
+        ...tokens,
       });
       
     } catch (error) {
@@ -240,6 +344,302 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Exchange a refresh token for a new access token and refresh token
+  fastify.post('/refresh', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['refresh_token'],
+        properties: {
+          refresh_token: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const data = refreshSchema.parse(request.body);
+
+      const session = await rotateSession(data.refresh_token);
+
+      if (!session) {
+        return reply.status(401).send({
+          error: 'Invalid or expired refresh token',
+        });
+      }
+
+      const user = await getActiveUser(session.userId);
+
+      if (!user) {
+        await revokeSession(session.id, 'user_inactive');
+        return reply.status(401).send({
+          error: 'Account is disabled',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        token: generateToken(user, session.id),
+        refresh_token: session.refreshToken,
+        refresh_token_expires_at: session.expiresAt.toISOString(),
+      });
+
+    } catch (error) {
+      fastify.log.error(error, 'Token refresh error:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({
+        error: 'Token refresh failed',
+      });
+    }
+  });
+
+  // End the current session; works with either the access token or the refresh token, so
+  // clients holding only an expired access token can still sign out
+  fastify.post('/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const data = logoutSchema.parse(request.body ?? {});
+      const sessionId = request.user?.session_id;
+
+      if (sessionId) {
+        await revokeSession(sessionId, 'logout');
+      } else if (data.refresh_token) {
+        await revokeSessionByRefreshToken(data.refresh_token, 'logout');
+      } else {
+        return reply.status(401).send({
+          error: 'Access token or refresh token required',
+        });
+      }
+
+      return reply.send({ success: true });
+
+    } catch (error) {
+      fastify.log.error(error, 'Logout error:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({
+        error: 'Logout failed',
+      });
+    }
+  });
+
+  // Confirm an email address with the token from the verification email
+  fastify.post('/verify-email', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const data = tokenSchema.parse(request.body);
+
+      const userId = await consumeAccountToken(data.token, 'email_verification');
+
+      if (!userId) {
+        return reply.status(400).send({
+          error: 'Invalid or expired verification token',
+        });
+      }
+
+      await sql`
+        UPDATE users
+        SET email_verified_at = COALESCE(email_verified_at, NOW()),
+            updated_at = NOW(),
+            updated_by = ${userId}
+        WHERE id = ${userId} AND deleted_at IS NULL
+      `;
+
+      return reply.send({
+        success: true,
+        message: 'Email address verified',
+      });
+
+    } catch (error) {
+      fastify.log.error(error, 'Email verification error:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({
+        error: 'Email verification failed',
+      });
+    }
+  });
+
+  // Send a new verification email; earlier links stop working
+  fastify.post('/resend-verification', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const data = emailSchema.parse(request.body);
+
+      const [user] = await sql`
+        SELECT id, email, name
+        FROM users
+        WHERE email = ${data.email}
+          AND is_active = TRUE
+          AND email_verified_at IS NULL
+          AND deleted_at IS NULL
+      `;
+
+      if (user) {
+        await sendAccountEmail(user, 'email_verification');
+      }
+
+      return reply.send({
+        success: true,
+        message: ACCOUNT_EMAIL_SENT_MESSAGE,
+      });
+
+    } catch (error) {
+      fastify.log.error(error, 'Resend verification error:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({
+        error: 'Failed to send verification email',
+      });
+    }
+  });
+
+  // Email a password reset link
+  fastify.post('/forgot-password', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const data = emailSchema.parse(request.body);
+
+      const [user] = await sql`
+        SELECT id, email, name
+        FROM users
+        WHERE email = ${data.email} AND is_active = TRUE AND deleted_at IS NULL
+      `;
+
+      if (user) {
+        await sendAccountEmail(user, 'password_reset');
+      }
+
+      return reply.send({
+        success: true,
+        message: ACCOUNT_EMAIL_SENT_MESSAGE,
+      });
+
+    } catch (error) {
+      fastify.log.error(error, 'Forgot password error:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({
+        error: 'Failed to send password reset email',
+      });
+    }
+  });
+
+  // Set a new password with the token from the reset email and sign out every session
+  fastify.post('/reset-password', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+          token: { type: 'string', minLength: 1 },
+          password: { type: 'string', minLength: 6 },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const data = resetPasswordSchema.parse(request.body);
+
+      const userId = await consumeAccountToken(data.token, 'password_reset');
+
+      if (!userId) {
+        return reply.status(400).send({
+          error: 'Invalid or expired reset token',
+        });
+      }
+
+      const hashedPassword = await hashPassword(data.password);
+
+      // Following the emailed link also proves the address belongs to the user
+      await sql`
+        UPDATE users
+        SET password_hash = ${hashedPassword},
+            email_verified_at = COALESCE(email_verified_at, NOW()),
+            updated_at = NOW(),
+            updated_by = ${userId}
+        WHERE id = ${userId} AND deleted_at IS NULL
+      `;
+
+      await revokeUserSessions(userId, 'password_changed');
+
+      return reply.send({
+        success: true,
+        message: 'Password has been reset',
+      });
+
+    } catch (error) {
+      fastify.log.error(error, 'Reset password error:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({
+        error: 'Password reset failed',
+      });
+    }
+  });
+
   // Token verification endpoint
   fastify.get('/verify', {
     schema: {
@@ -274,7 +674,7 @@ export async function authRoutes(fastify: FastifyInstance) {
       
       if (!authHeader || !authHeader.startsWith('Bearer ')) {
         return reply.status(401).send({
-          error: 'Missing or invalid authorization header'
+          error: 'Missing or invalid authorization header',
         });
       }
       
@@ -0,0 +1,605 @@
+// routes/deliveries.ts
+// Delivery (goods receiving) routes for Fastify, nested under purchase orders
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sql, { withCreateAudit, withSoftDelete, withUpdateAudit } from '../lib/db';
+import { requireAuth, isValidUUID, canAccessDivision, hasPermission } from '../lib/auth';
+import {
+  PO_HAS_OUTSTANDING_LINES,
+  getPODeliveries,
+  getPOLineReceipts,
+  isFullyReceived,
+  toQtyHundredths,
+} from '../lib/deliveries';
+import {
+  buildFileLinkQuery,
+  buildReplacedDocumentDeleteQuery,
+  getFile,
+  getLinkableFile,
+} from '../lib/files';
+import { getStorage } from '../lib/storage';
+import { AuthenticatedUser } from '../lib/types';
+
+// Validation schemas
+const deliveryLineSchema = z.object({
+  po_line_id: z.string().uuid(),
+  qty_received: z.number().positive().multipleOf(0.01),
+});
+
+const createDeliverySchema = z.object({
+  delivered_at: z.string().datetime({ offset: true }).optional(),
+  notes: z.string().max(2000).optional(),
+  pod_file_id: z.string().uuid().optional(),
+  lines: z.array(deliveryLineSchema).min(1),
+}).superRefine((data, ctx) => {
+  const seen = new Set<string>();
+  data.lines.forEach((line, index) => {
+    if (seen.has(line.po_line_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate po_line_id ${line.po_line_id}`,
+        path: ['lines', index, 'po_line_id'],
+      });
+    }
+    seen.add(line.po_line_id);
+  });
+});
+
+const attachFileSchema = z.object({
+  file_id: z.string().uuid(),
+});
+
+const voidDeliverySchema = z.object({
+  reason: z.string().min(1).max(2000),
+});
+
+const poParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+const deliveryParamsSchema = {
+  type: 'object',
+  required: ['id', 'deliveryId'],
+  properties: {
+    id: { type: 'string' },
+    deliveryId: { type: 'string' },
+  },
+};
+
+const POD_DOWNLOAD_URL_TTL_SECONDS = 300;
+
+// Goods can only be received against approved orders; once every line is in the PO
+// moves to delivered
+const RECEIVABLE_PO_STATUSES = ['approved'];
+
+// Deliveries feed invoice matching, so they are locked once the PO has been invoiced
+const VOID_LOCKED_PO_STATUSES = ['invoiced', 'exceptions'];
+
+// Loads the PO header and checks the caller may act on it; returns an error reply payload
+async function loadPurchaseOrder(
+  user: AuthenticatedUser,
+  id: string,
+  permission: string,
+): Promise<{ status: number; error: string } | { purchaseOrder: Record<string, any> }> {
+  if (!isValidUUID(id)) {
+    return { status: 400, error: 'Invalid purchase order ID format' };
+  }
+
+  if (!(await hasPermission(user.id, permission))) {
+    return { status: 403, error: `Missing required permission: ${permission}` };
+  }
+
+  const [purchaseOrder] = await sql`
+    SELECT id, division_id, status FROM purchase_orders WHERE id = ${id} AND deleted_at IS NULL
+  `;
+
+  if (!purchaseOrder) {
+    return { status: 404, error: 'Purchase order not found' };
+  }
+
+  if (!(await canAccessDivision(user, purchaseOrder.division_id))) {
+    return { status: 403, error: 'Forbidden' };
+  }
+
+  return { purchaseOrder };
+}
+
+export async function deliveryRoutes(fastify: FastifyInstance) {
+  // List deliveries recorded against a purchase order
+  fastify.get('/:id/deliveries', {
+    schema: {
+      params: poParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+      const { include_voided } = request.query as { include_voided?: string };
+
+      const result = await loadPurchaseOrder(user, id, 'deliveries:read');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      return {
+        deliveries: await getPODeliveries(id, { includeVoided: include_voided === 'true' }),
+        receipts: await getPOLineReceipts(id),
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching deliveries:');
+      return reply.status(500).send({ error: 'Failed to fetch deliveries' });
+    }
+  });
+
+  // Get a single delivery record
+  fastify.get('/:id/deliveries/:deliveryId', {
+    schema: {
+      params: deliveryParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id, deliveryId } = request.params as { id: string; deliveryId: string };
+
+      if (!isValidUUID(deliveryId)) {
+        return reply.status(400).send({ error: 'Invalid delivery ID format' });
+      }
+
+      const result = await loadPurchaseOrder(user, id, 'deliveries:read');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const [delivery] = await getPODeliveries(id, { deliveryId, includeVoided: true });
+
+      if (!delivery) {
+        return reply.status(404).send({ error: 'Delivery not found' });
+      }
+
+      return { delivery };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching delivery:');
+      return reply.status(500).send({ error: 'Failed to fetch delivery' });
+    }
+  });
+
+  // Record a (possibly partial) delivery against a purchase order
+  fastify.post('/:id/deliveries', {
+    schema: {
+      params: poParamsSchema,
+      body: {
+        type: 'object',
+        required: ['lines'],
+        properties: {
+          delivered_at: { type: 'string', format: 'date-time' },
+          notes: { type: 'string', maxLength: 2000 },
+          pod_file_id: { type: 'string', format: 'uuid' },
+          lines: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['po_line_id', 'qty_received'],
+              properties: {
+                po_line_id: { type: 'string', format: 'uuid' },
+                qty_received: { type: 'number', exclusiveMinimum: 0 },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      const validatedData = createDeliverySchema.parse(request.body);
+
+      const result = await loadPurchaseOrder(user, id, 'deliveries:receive');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const poStatus = result.purchaseOrder.status;
+      if (!RECEIVABLE_PO_STATUSES.includes(poStatus)) {
+        return reply.status(400).send({
+          error: `Cannot receive goods against a purchase order in ${poStatus} status`,
+        });
+      }
+
+      const receipts = await getPOLineReceipts(id);
+      const receiptsByLineId = new Map(receipts.map((receipt) => [receipt.po_line_id, receipt]));
+
+      for (const line of validatedData.lines) {
+        const receipt = receiptsByLineId.get(line.po_line_id);
+
+        if (!receipt) {
+          return reply.status(400).send({
+            error: `Line ${line.po_line_id} does not belong to this purchase order`,
+          });
+        }
+
+        if (toQtyHundredths(line.qty_received) > toQtyHundredths(receipt.qty_outstanding)) {
+          return reply.status(400).send({
+            error: `Quantity received exceeds the outstanding quantity for line ${receipt.line_no}`,
+            line_no: receipt.line_no,
+            qty_ordered: receipt.qty_ordered,
+            qty_received: receipt.qty_received,
+            qty_outstanding: receipt.qty_outstanding,
+          });
+        }
+      }
+
+      const deliveryData = withCreateAudit({
+        po_id: id,
+        delivered_at: validatedData.delivered_at ?? new Date().toISOString(),
+        notes: validatedData.notes ?? null,
+        pod_file_id: validatedData.pod_file_id ?? null,
+      }, user.id);
+      const statusData = withUpdateAudit({ status: 'delivered' }, user.id);
+
+      // The proof-of-delivery scan must already be uploaded through /api/v1/files
+      const podQueries = [];
+      if (deliveryData.pod_file_id) {
+        if (!(await hasPermission(user.id, 'files:upload'))) {
+          return reply.status(403).send({ error: 'Missing required permission: files:upload' });
+        }
+
+        const fileResult = await getLinkableFile(
+          user,
+          deliveryData.pod_file_id,
+          'delivery',
+          deliveryData.id,
+        );
+        if ('error' in fileResult) {
+          return reply.status(fileResult.status).send({ error: fileResult.error });
+        }
+
+        podQueries.push(
+          buildFileLinkQuery(deliveryData.pod_file_id, 'delivery', deliveryData.id, user.id),
+        );
+      }
+
+      // The checks above give friendly errors; the transaction enforces them. Locking the PO
+      // row queues concurrent receipts, and the delivery is only written while the PO is
+      // receivable and every line still fits within its ordered quantity. The lines and the
+      // POD link only apply when the delivery was written.
+      const results = await sql.transaction([
+        sql`SELECT id FROM purchase_orders WHERE id = ${id} FOR UPDATE`,
+        sql`
+          INSERT INTO deliveries (
+            id, po_id, delivered_at, notes, pod_file_id,
+            created_at, updated_at, created_by, updated_by
+          )
+          SELECT
+            ${deliveryData.id}, ${deliveryData.po_id}, ${deliveryData.delivered_at},
+            ${deliveryData.notes}, ${deliveryData.pod_file_id},
+            ${deliveryData.created_at}, ${deliveryData.updated_at},
+            ${deliveryData.created_by}, ${deliveryData.updated_by}
+          WHERE EXISTS (
+            SELECT 1 FROM purchase_orders
+            WHERE id = ${id} AND status = 'approved' AND deleted_at IS NULL
+          )
+          AND NOT EXISTS (
+            SELECT 1
+            FROM unnest(
+              ${validatedData.lines.map((line) => line.po_line_id)}::uuid[],
+              ${validatedData.lines.map((line) => line.qty_received)}::numeric[]
+            ) AS requested(po_line_id, qty_received)
+            LEFT JOIN po_lines pl
+              ON pl.id = requested.po_line_id AND pl.po_id = ${id} AND pl.deleted_at IS NULL
+            WHERE pl.id IS NULL OR pl.qty < requested.qty_received + (
+              SELECT COALESCE(SUM(dl.qty_received), 0)
+              FROM delivery_lines dl
+              JOIN deliveries d ON dl.delivery_id = d.id AND d.deleted_at IS NULL
+              WHERE dl.po_line_id = pl.id AND dl.deleted_at IS NULL
+            )
+          )
+          RETURNING id
+        `,
+        ...validatedData.lines.map((line) => {
+          const lineData = withCreateAudit({ ...line, delivery_id: deliveryData.id }, user.id);
+
+          return sql`
+            INSERT INTO delivery_lines (
+              id, delivery_id, po_line_id, qty_received,
+              created_at, updated_at, created_by, updated_by
+            )
+            SELECT
+              ${lineData.id}, ${lineData.delivery_id}, ${lineData.po_line_id},
+              ${lineData.qty_received}, ${lineData.created_at}, ${lineData.updated_at},
+              ${lineData.created_by}, ${lineData.updated_by}
+            WHERE EXISTS (SELECT 1 FROM deliveries WHERE id = ${deliveryData.id})
+          `;
+        }),
+        ...podQueries,
+        // Move the PO to delivered once nothing is outstanding
+        sql(`
+          UPDATE purchase_orders po
+          SET status = $1, updated_at = $2, updated_by = $3
+          WHERE po.id = $4 AND po.status = 'approved' AND NOT ${PO_HAS_OUTSTANDING_LINES}
+        `, [statusData.status, statusData.updated_at, statusData.updated_by, id]),
+      ]);
+
+      const [inserted] = results[1];
+
+      if (!inserted) {
+        return reply.status(409).send({
+          error: 'Purchase order or received quantities changed, please retry',
+        });
+      }
+
+      const [delivery] = await getPODeliveries(id, { deliveryId: deliveryData.id });
+      const [updatedPO] = await sql`SELECT status FROM purchase_orders WHERE id = ${id}`;
+
+      return reply.status(201).send({
+        delivery,
+        receipts: await getPOLineReceipts(id),
+        purchase_order_status: updatedPO.status,
+      });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error recording delivery:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to record delivery' });
+    }
+  });
+
+  // Void a delivery record; a delivered PO reopens if lines become outstanding again
+  fastify.post('/:id/deliveries/:deliveryId/void', {
+    schema: {
+      params: deliveryParamsSchema,
+      body: {
+        type: 'object',
+        required: ['reason'],
+        properties: {
+          reason: { type: 'string', minLength: 1, maxLength: 2000 },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id, deliveryId } = request.params as { id: string; deliveryId: string };
+
+      if (!isValidUUID(deliveryId)) {
+        return reply.status(400).send({ error: 'Invalid delivery ID format' });
+      }
+
+      const { reason } = voidDeliverySchema.parse(request.body);
+
+      const result = await loadPurchaseOrder(user, id, 'deliveries:delete');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const poStatus = result.purchaseOrder.status;
+      if (VOID_LOCKED_PO_STATUSES.includes(poStatus)) {
+        return reply.status(400).send({
+          error: `Deliveries cannot be voided once the purchase order is ${poStatus}`,
+        });
+      }
+
+      const [existingDelivery] = await sql`
+        SELECT id FROM deliveries WHERE id = ${deliveryId} AND po_id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!existingDelivery) {
+        return reply.status(404).send({ error: 'Delivery not found' });
+      }
+
+      const deleteData = withSoftDelete(user.id);
+
+      // Lock the PO first so invoicing cannot move it past delivered while the void runs
+      const [, [voided]] = await sql.transaction([
+        sql`SELECT id FROM purchase_orders WHERE id = ${id} FOR UPDATE`,
+        sql`
+          UPDATE deliveries
+          SET deleted_at = ${deleteData.deleted_at},
+              void_reason = ${reason},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE id = ${deliveryId} AND po_id = ${id} AND deleted_at IS NULL
+            AND EXISTS (
+              SELECT 1 FROM purchase_orders
+              WHERE id = ${id} AND status <> ALL(${VOID_LOCKED_PO_STATUSES})
+            )
+          RETURNING id
+        `,
+        sql`
+          UPDATE delivery_lines
+          SET deleted_at = ${deleteData.deleted_at},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE delivery_id = ${deliveryId} AND deleted_at IS NULL
+            AND EXISTS (
+              SELECT 1 FROM deliveries
+              WHERE id = ${deliveryId} AND deleted_at = ${deleteData.deleted_at}
+            )
+        `,
+        sql(`
+          UPDATE purchase_orders po
+          SET status = 'approved', updated_at = $1, updated_by = $2
+          WHERE po.id = $3 AND po.status = 'delivered' AND ${PO_HAS_OUTSTANDING_LINES}
+        `, [deleteData.updated_at, deleteData.updated_by, id]),
+      ]);
+
+      if (!voided) {
+        return reply.status(409).send({
+          error: 'Delivery was voided or the purchase order status changed, please retry',
+        });
+      }
+
+      const receipts = await getPOLineReceipts(id);
+      const [updatedPO] = await sql`SELECT status FROM purchase_orders WHERE id = ${id}`;
+
+      return {
+        message: 'Delivery voided successfully',
+        receipts,
+        fully_received: isFullyReceived(receipts),
+        purchase_order_status: updatedPO.status,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error voiding delivery:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to void delivery' });
+    }
+  });
+
+  // Attach or replace the proof-of-delivery scan on an existing delivery
+  fastify.put('/:id/deliveries/:deliveryId/pod', {
+    schema: {
+      params: deliveryParamsSchema,
+      body: {
+        type: 'object',
+        required: ['file_id'],
+        properties: {
+          file_id: { type: 'string', format: 'uuid' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id, deliveryId } = request.params as { id: string; deliveryId: string };
+      const { file_id: fileId } = attachFileSchema.parse(request.body);
+
+      if (!isValidUUID(deliveryId)) {
+        return reply.status(400).send({ error: 'Invalid delivery ID format' });
+      }
+
+      const result = await loadPurchaseOrder(user, id, 'deliveries:receive');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      if (!(await hasPermission(user.id, 'files:upload'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:upload' });
+      }
+
+      const [delivery] = await getPODeliveries(id, { deliveryId });
+
+      if (!delivery) {
+        return reply.status(404).send({ error: 'Delivery not found' });
+      }
+
+      const fileResult = await getLinkableFile(user, fileId, 'delivery', deliveryId);
+      if ('error' in fileResult) {
+        return reply.status(fileResult.status).send({ error: fileResult.error });
+      }
+
+      const updateData = withUpdateAudit({ pod_file_id: fileId }, user.id);
+
+      // A replaced scan is deleted along with the swap, and its object once that commits
+      const [[updated], , replacedFiles] = await sql.transaction([
+        sql`
+          UPDATE deliveries
+          SET pod_file_id = ${updateData.pod_file_id},
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${deliveryId} AND po_id = ${id} AND deleted_at IS NULL
+          RETURNING id
+        `,
+        buildFileLinkQuery(fileId, 'delivery', deliveryId, user.id),
+        buildReplacedDocumentDeleteQuery('delivery', deliveryId, user.id),
+      ]);
+
+      for (const replaced of replacedFiles) {
+        await getStorage().deleteObject(replaced.storage_key);
+      }
+
+      if (!updated) {
+        return reply.status(409).send({ error: 'Delivery was voided, please retry' });
+      }
+
+      const [updatedDelivery] = await getPODeliveries(id, { deliveryId });
+
+      return { delivery: updatedDelivery };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error attaching proof of delivery:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to attach proof of delivery' });
+    }
+  });
+
+  // Time-limited download link for a delivery's proof-of-delivery scan
+  fastify.get('/:id/deliveries/:deliveryId/pod', {
+    schema: {
+      params: deliveryParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id, deliveryId } = request.params as { id: string; deliveryId: string };
+
+      if (!isValidUUID(deliveryId)) {
+        return reply.status(400).send({ error: 'Invalid delivery ID format' });
+      }
+
+      const result = await loadPurchaseOrder(user, id, 'deliveries:read');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      if (!(await hasPermission(user.id, 'files:download'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:download' });
+      }
+
+      const [delivery] = await getPODeliveries(id, { deliveryId, includeVoided: true });
+
+      if (!delivery) {
+        return reply.status(404).send({ error: 'Delivery not found' });
+      }
+
+      const file = delivery.pod_file_id ? await getFile(delivery.pod_file_id) : null;
+
+      if (!file) {
+        return reply.status(404).send({ error: 'No proof of delivery attached' });
+      }
+
+      return {
+        file,
+        download_url: await getStorage().createDownloadUrl(
+          file.storage_key,
+          POD_DOWNLOAD_URL_TTL_SECONDS,
+        ),
+        expires_in: POD_DOWNLOAD_URL_TTL_SECONDS,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching proof of delivery:');
+      return reply.status(500).send({ error: 'Failed to fetch proof of delivery' });
+    }
+  });
+}
@@ -1,11 +1,427 @@
 // routes/delivery-addresses.ts
 // Delivery Address routes for Fastify
 
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sql, {
+  withCreateAudit,
+  withUpdateAudit,
+  withSoftDelete,
+  createFilterBuilder,
+} from '../lib/db';
+import { requireAuth, isValidUUID, hasPermission } from '../lib/auth';
+import { FINAL_PO_STATUSES } from '../lib/purchase-orders';
+import { CreateDeliveryAddressRequest } from '../lib/types';
+
+// Validation schemas
+const createDeliveryAddressSchema = z.object({
+  name: z.string().min(1).max(255),
+  address_line_1: z.string().min(1).max(255),
+  address_line_2: z.string().max(255).optional(),
+  city: z.string().min(1).max(100),
+  state: z.string().min(1).max(100),
+  postal_code: z.string().min(1).max(20),
+  country: z.string().min(1).max(100).default('USA'),
+  is_active: z.boolean().default(true),
+});
+
+const updateDeliveryAddressSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  address_line_1: z.string().min(1).max(255).optional(),
+  address_line_2: z.string().max(255).nullable().optional(),
+  city: z.string().min(1).max(100).optional(),
+  state: z.string().min(1).max(100).optional(),
+  postal_code: z.string().min(1).max(20).optional(),
+  country: z.string().min(1).max(100).optional(),
+  is_active: z.boolean().optional(),
+});
+
+const deliveryAddressJsonProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 255 },
+  address_line_1: { type: 'string', minLength: 1, maxLength: 255 },
+  address_line_2: { type: ['string', 'null'], maxLength: 255 },
+  city: { type: 'string', minLength: 1, maxLength: 100 },
+  state: { type: 'string', minLength: 1, maxLength: 100 },
+  postal_code: { type: 'string', minLength: 1, maxLength: 20 },
+  country: { type: 'string', minLength: 1, maxLength: 100 },
+  is_active: { type: 'boolean' },
+};
+
+const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+const DELIVERY_ADDRESS_COLUMNS = `
+  id, name, address_line_1, address_line_2, city, state, postal_code, country, is_active,
+  created_at, updated_at, created_by, updated_by
+`;
 
 export async function deliveryAddressRoutes(fastify: FastifyInstance) {
-  // Placeholder - will be implemented
-  fastify.get('/', async () => {
-    return { message: 'Delivery Address routes - coming soon' };
+  // Get all delivery addresses
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'delivery_addresses:read'))) {
+        return reply.status(403).send({
+          error: 'Missing required permission: delivery_addresses:read',
+        });
+      }
+
+      const query = request.query as {
+        is_active?: string;
+        search?: string;
+        page?: string;
+        limit?: string;
+      };
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      const filters = createFilterBuilder(['deleted_at IS NULL']);
+
+      if (query.is_active !== undefined) {
+        filters.add(`is_active = ${filters.param(query.is_active === 'true')}`);
+      }
+
+      if (query.search) {
+        const pattern = filters.param(`%${query.search}%`);
+        filters.add(`(
+          name ILIKE ${pattern} OR
+          address_line_1 ILIKE ${pattern} OR
+          address_line_2 ILIKE ${pattern} OR
+          city ILIKE ${pattern} OR
+          state ILIKE ${pattern} OR
+          postal_code ILIKE ${pattern}
+        )`);
+      }
+
+      const whereClause = filters.toString();
+
+      const [{ count: totalCount }] = await sql(`
+        SELECT COUNT(*) as count FROM delivery_addresses ${whereClause}
+      `, [...filters.params]);
+
+      const deliveryAddresses = await sql(`
+        SELECT ${DELIVERY_ADDRESS_COLUMNS}
+        FROM delivery_addresses
+        ${whereClause}
+        ORDER BY name
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
+
+      const totalPages = Math.ceil(parseInt(totalCount) / limit);
+
+      return {
+        delivery_addresses: deliveryAddresses,
+        pagination: {
+          current_page: page,
+          total_pages: totalPages,
+          total_count: parseInt(totalCount),
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching delivery addresses:');
+      return reply.status(500).send({ error: 'Failed to fetch delivery addresses' });
+    }
+  });
+
+  // Get delivery address by ID
+  fastify.get('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid delivery address ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'delivery_addresses:read'))) {
+        return reply.status(403).send({
+          error: 'Missing required permission: delivery_addresses:read',
+        });
+      }
+
+      const [deliveryAddress] = await sql(`
+        SELECT ${DELIVERY_ADDRESS_COLUMNS}
+        FROM delivery_addresses
+        WHERE id = $1 AND deleted_at IS NULL
+      `, [id]);
+
+      if (!deliveryAddress) {
+        return reply.status(404).send({ error: 'Delivery address not found' });
+      }
+
+      return { delivery_address: deliveryAddress };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching delivery address:');
+      return reply.status(500).send({ error: 'Failed to fetch delivery address' });
+    }
+  });
+
+  // Create new delivery address
+  fastify.post('/', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['name', 'address_line_1', 'city', 'state', 'postal_code'],
+        properties: deliveryAddressJsonProperties,
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const data: CreateDeliveryAddressRequest = createDeliveryAddressSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'delivery_addresses:write'))) {
+        return reply.status(403).send({
+          error: 'Missing required permission: delivery_addresses:write',
+        });
+      }
+
+      const addressData = withCreateAudit({
+        name: data.name,
+        address_line_1: data.address_line_1,
+        address_line_2: data.address_line_2 ?? null,
+        city: data.city,
+        state: data.state,
+        postal_code: data.postal_code,
+        country: data.country,
+        is_active: data.is_active,
+      }, user.id);
+
+      const [newDeliveryAddress] = await sql`
+        INSERT INTO delivery_addresses (
+          id, name, address_line_1, address_line_2, city, state, postal_code, country,
+          is_active, created_at, updated_at, created_by, updated_by
+        ) VALUES (
+          ${addressData.id}, ${addressData.name}, ${addressData.address_line_1},
+          ${addressData.address_line_2}, ${addressData.city}, ${addressData.state},
+          ${addressData.postal_code}, ${addressData.country}, ${addressData.is_active},
+          ${addressData.created_at}, ${addressData.updated_at},
+          ${addressData.created_by}, ${addressData.updated_by}
+        ) RETURNING id, name, address_line_1, address_line_2, city, state, postal_code, country,
+                    is_active, created_at, updated_at, created_by, updated_by
+      `;
+
+      return reply.status(201).send({ delivery_address: newDeliveryAddress });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error creating delivery address:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to create delivery address' });
+    }
+  });
+
+  // Update delivery address
+  fastify.put('/:id', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: deliveryAddressJsonProperties,
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid delivery address ID format' });
+      }
+
+      const data = updateDeliveryAddressSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'delivery_addresses:write'))) {
+        return reply.status(403).send({
+          error: 'Missing required permission: delivery_addresses:write',
+        });
+      }
+
+      const [existingAddress] = await sql`
+        SELECT id, name, address_line_1, address_line_2, city, state, postal_code, country,
+               is_active
+        FROM delivery_addresses WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!existingAddress) {
+        return reply.status(404).send({ error: 'Delivery address not found' });
+      }
+
+      const updateData = withUpdateAudit({
+        name: data.name ?? existingAddress.name,
+        address_line_1: data.address_line_1 ?? existingAddress.address_line_1,
+        // address_line_2 can be cleared with an explicit null
+        address_line_2: data.address_line_2 !== undefined
+          ? data.address_line_2
+          : existingAddress.address_line_2,
+        city: data.city ?? existingAddress.city,
+        state: data.state ?? existingAddress.state,
+        postal_code: data.postal_code ?? existingAddress.postal_code,
+        country: data.country ?? existingAddress.country,
+        is_active: data.is_active ?? existingAddress.is_active,
+      }, user.id);
+
+      const [updatedAddress] = await sql`
+        UPDATE delivery_addresses
+        SET name = ${updateData.name},
+            address_line_1 = ${updateData.address_line_1},
+            address_line_2 = ${updateData.address_line_2},
+            city = ${updateData.city},
+            state = ${updateData.state},
+            postal_code = ${updateData.postal_code},
+            country = ${updateData.country},
+            is_active = ${updateData.is_active},
+            updated_at = ${updateData.updated_at},
+            updated_by = ${updateData.updated_by}
+        WHERE id = ${id}
+        RETURNING id, name, address_line_1, address_line_2, city, state, postal_code, country,
+                  is_active, created_at, updated_at, created_by, updated_by
+      `;
+
+      return { delivery_address: updatedAddress };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error updating delivery address:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to update delivery address' });
+    }
+  });
+
+  // Delete delivery address (soft delete)
+  fastify.delete('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid delivery address ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'delivery_addresses:delete'))) {
+        return reply.status(403).send({
+          error: 'Missing required permission: delivery_addresses:delete',
+        });
+      }
+
+      const [existingAddress] = await sql`
+        SELECT id FROM delivery_addresses WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!existingAddress) {
+        return reply.status(404).send({ error: 'Delivery address not found' });
+      }
+
+      // Open purchase orders still need somewhere to deliver to
+      const [openPOs] = await sql`
+        SELECT COUNT(*) as count FROM purchase_orders
+        WHERE delivery_address_id = ${id}
+          AND status <> ALL(${FINAL_PO_STATUSES})
+          AND deleted_at IS NULL
+      `;
+
+      if (parseInt(openPOs.count) > 0) {
+        return reply.status(400).send({
+          error: 'Cannot delete delivery address used by open purchase orders',
+          open_purchase_orders: parseInt(openPOs.count),
+        });
+      }
+
+      const deleteData = withSoftDelete(user.id);
+
+      await sql`
+        UPDATE delivery_addresses
+        SET deleted_at = ${deleteData.deleted_at},
+            updated_at = ${deleteData.updated_at},
+            updated_by = ${deleteData.updated_by}
+        WHERE id = ${id}
+      `;
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      fastify.log.error(error, 'Error deleting delivery address:');
+      return reply.status(500).send({ error: 'Failed to delete delivery address' });
+    }
+  });
+
+  // Toggle delivery address active status
+  fastify.patch('/:id/toggle-active', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid delivery address ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'delivery_addresses:write'))) {
+        return reply.status(403).send({
+          error: 'Missing required permission: delivery_addresses:write',
+        });
+      }
+
+      const updateData = withUpdateAudit({}, user.id);
+
+      // Flipped in the statement so two concurrent toggles cannot both set the same value
+      const [updatedAddress] = await sql`
+        UPDATE delivery_addresses
+        SET is_active = NOT is_active,
+            updated_at = ${updateData.updated_at},
+            updated_by = ${updateData.updated_by}
+        WHERE id = ${id} AND deleted_at IS NULL
+        RETURNING id, is_active
+      `;
+
+      if (!updatedAddress) {
+        return reply.status(404).send({ error: 'Delivery address not found' });
+      }
+
+      const action = updatedAddress.is_active ? 'activated' : 'deactivated';
+
+      return {
+        message: `Delivery address ${action} successfully`,
+        is_active: updatedAddress.is_active,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error toggling delivery address status:');
+      return reply.status(500).send({ error: 'Failed to toggle delivery address status' });
+    }
   });
-}
\ No newline at end of file
+}
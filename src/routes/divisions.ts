@@ -1,11 +1,857 @@
 // routes/divisions.ts
 // Division management routes for Fastify
 
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sql, {
+  withCreateAudit,
+  withUpdateAudit,
+  withSoftDelete,
+  createFilterBuilder,
+} from '../lib/db';
+import {
+  requireAuth,
+  isValidUUID,
+  canAccessDivision,
+  hasPermission,
+  applyDivisionScope,
+} from '../lib/auth';
+import { getDivisionApprovalSteps } from '../lib/approvals';
+import {
+  getBudgetSummary,
+  getDivisionBudget,
+  hasOverlappingBudget,
+} from '../lib/budgets';
+import { divisionSubtreeSql, wouldCreateDivisionCycle } from '../lib/divisions';
+import { COMMITTED_PO_STATUSES, FINAL_PO_STATUSES } from '../lib/purchase-orders';
+import { AuthenticatedUser, DivisionWithStats } from '../lib/types';
+
+// Validation schemas
+const createDivisionSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  parent_id: z.string().uuid().nullable().optional(),
+});
+
+const updateDivisionSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  parent_id: z.string().uuid().nullable().optional(),
+});
+
+const divisionJsonProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 255 },
+  parent_id: { type: ['string', 'null'], format: 'uuid' },
+};
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const budgetSchema = z.object({
+  period_start: dateSchema,
+  period_end: dateSchema,
+  budget_cents: z.number().int().min(0),
+  enforcement: z.enum(['warn', 'block']).default('warn'),
+}).refine((data) => data.period_end >= data.period_start, {
+  message: 'period_end must not be before period_start',
+  path: ['period_end'],
+});
+
+const approvalStepSchema = z.object({
+  step_order: z.number().int().positive(),
+  name: z.string().min(1).max(255),
+  min_total_cents: z.number().int().nonnegative().default(0),
+  approver_role: z.enum(['basic', 'manager', 'admin']).optional(),
+  approver_user_id: z.string().uuid().optional(),
+});
+
+const updateApprovalStepsSchema = z.object({
+  steps: z.array(approvalStepSchema).max(20),
+}).superRefine((data, ctx) => {
+  const seen = new Set<number>();
+  data.steps.forEach((step, index) => {
+    if (seen.has(step.step_order)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate step_order ${step.step_order}`,
+        path: ['steps', index, 'step_order'],
+      });
+    }
+    seen.add(step.step_order);
+  });
+});
+
+const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+const toSqlList = (values: string[]) => values.map((value) => `'${value}'`).join(', ');
+
+// Divisions with their usage stats; callers append their own WHERE/ORDER clauses
+const DIVISION_SELECT = `
+  SELECT
+    d.id,
+    d.name,
+    d.parent_id,
+    d.created_at,
+    d.updated_at,
+    d.created_by,
+    d.updated_by,
+    (
+      SELECT COUNT(*) FROM divisions child
+      WHERE child.parent_id = d.id AND child.deleted_at IS NULL
+    ) as child_count,
+    (
+      SELECT COUNT(*) FROM users u
+      WHERE u.division_id = d.id AND u.deleted_at IS NULL
+    ) as user_count,
+    (
+      SELECT COUNT(*) FROM purchase_orders po
+      WHERE po.division_id = d.id AND po.deleted_at IS NULL
+        AND po.status NOT IN (${toSqlList(FINAL_PO_STATUSES)})
+    ) as open_po_count,
+    (
+      SELECT COALESCE(SUM(po.total_value_cents), 0) FROM purchase_orders po
+      WHERE po.division_id = d.id AND po.deleted_at IS NULL
+        AND po.status IN (${toSqlList(COMMITTED_PO_STATUSES)})
+    ) as committed_spend_cents
+  FROM divisions d
+`;
+
+// COUNT and SUM come back from the driver as strings
+function formatDivision(row: Record<string, any>): DivisionWithStats {
+  return {
+    ...row,
+    parent_id: row.parent_id ?? undefined,
+    child_count: Number(row.child_count),
+    user_count: Number(row.user_count),
+    open_po_count: Number(row.open_po_count),
+    committed_spend_cents: Number(row.committed_spend_cents),
+  } as DivisionWithStats;
+}
+
+async function getDivisionDetail(id: string): Promise<DivisionWithStats | null> {
+  const [row] = await sql(`${DIVISION_SELECT} WHERE d.id = $1 AND d.deleted_at IS NULL`, [id]);
+  return row ? formatDivision(row) : null;
+}
+
+// Usage stats summed over a division and all of its descendants
+async function getDivisionRollup(id: string) {
+  const subtree = divisionSubtreeSql('$1');
+  const [row] = await sql(`
+    SELECT
+      (SELECT COUNT(*) - 1 FROM ${subtree} tree) as descendant_count,
+      (
+        SELECT COUNT(*) FROM users u
+        WHERE u.division_id IN ${subtree} AND u.deleted_at IS NULL
+      ) as user_count,
+      (
+        SELECT COUNT(*) FROM purchase_orders po
+        WHERE po.division_id IN ${subtree} AND po.deleted_at IS NULL
+          AND po.status NOT IN (${toSqlList(FINAL_PO_STATUSES)})
+      ) as open_po_count,
+      (
+        SELECT COALESCE(SUM(po.total_value_cents), 0) FROM purchase_orders po
+        WHERE po.division_id IN ${subtree} AND po.deleted_at IS NULL
+          AND po.status IN (${toSqlList(COMMITTED_PO_STATUSES)})
+      ) as committed_spend_cents
+  `, [id]);
+
+  return {
+    descendant_count: Number(row.descendant_count),
+    user_count: Number(row.user_count),
+    open_po_count: Number(row.open_po_count),
+    committed_spend_cents: Number(row.committed_spend_cents),
+  };
+}
+
+// A new parent must exist and be within the caller's reach
+async function validateParentDivision(
+  user: AuthenticatedUser,
+  parentId: string,
+): Promise<{ status: number; error: string } | null> {
+  const [parent] = await sql`
+    SELECT id FROM divisions WHERE id = ${parentId} AND deleted_at IS NULL
+  `;
+
+  if (!parent) {
+    return { status: 400, error: 'Parent division not found' };
+  }
+
+  if (!(await canAccessDivision(user, parentId))) {
+    return { status: 403, error: 'Forbidden' };
+  }
+
+  return null;
+}
+
+// Division names are unique across the table, including soft-deleted rows
+async function isDivisionNameTaken(name: string, excludeId?: string): Promise<boolean> {
+  const [existing] = await sql`
+    SELECT id FROM divisions
+    WHERE LOWER(name) = LOWER(${name})
+      AND id <> ${excludeId ?? '00000000-0000-0000-0000-000000000000'}
+  `;
+  return Boolean(existing);
+}
 
 export async function divisionRoutes(fastify: FastifyInstance) {
-  // Placeholder - will be implemented
-  fastify.get('/', async () => {
-    return { message: 'Division routes - coming soon' };
+  // Get all divisions
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'divisions:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:read' });
+      }
+
+      const query = request.query as {
+        division_id?: string;
+        include_descendants?: string;
+        parent_id?: string;
+        search?: string;
+        page?: string;
+        limit?: string;
+      };
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      const filters = createFilterBuilder(['d.deleted_at IS NULL']);
+      const scopeError = await applyDivisionScope(filters, 'd.id', user, {
+        divisionId: query.division_id,
+        includeDescendants: query.include_descendants === 'true',
+      });
+
+      if (scopeError) {
+        return reply.status(scopeError.status).send({ error: scopeError.error });
+      }
+
+      if (query.parent_id === 'null') {
+        filters.add('d.parent_id IS NULL');
+      } else if (query.parent_id && isValidUUID(query.parent_id)) {
+        filters.add(`d.parent_id = ${filters.param(query.parent_id)}`);
+      }
+
+      if (query.search) {
+        filters.add(`d.name ILIKE ${filters.param(`%${query.search}%`)}`);
+      }
+
+      const whereClause = filters.toString();
+
+      const [{ count: totalCount }] = await sql(`
+        SELECT COUNT(*) as count FROM divisions d ${whereClause}
+      `, [...filters.params]);
+
+      const divisions = await sql(`
+        ${DIVISION_SELECT}
+        ${whereClause}
+        ORDER BY d.name
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
+
+      const totalPages = Math.ceil(parseInt(totalCount) / limit);
+
+      return {
+        divisions: divisions.map(formatDivision),
+        pagination: {
+          current_page: page,
+          total_pages: totalPages,
+          total_count: parseInt(totalCount),
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching divisions:');
+      return reply.status(500).send({ error: 'Failed to fetch divisions' });
+    }
+  });
+
+  // Get division by ID, with usage stats
+  fastify.get('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid division ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'divisions:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:read' });
+      }
+
+      if (!(await canAccessDivision(user, id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const division = await getDivisionDetail(id);
+
+      if (!division) {
+        return reply.status(404).send({ error: 'Division not found' });
+      }
+
+      return { division, rollup: await getDivisionRollup(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching division:');
+      return reply.status(500).send({ error: 'Failed to fetch division' });
+    }
+  });
+
+  // Create new division
+  fastify.post('/', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['name'],
+        properties: divisionJsonProperties,
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const data = createDivisionSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'divisions:write'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:write' });
+      }
+
+      if (data.parent_id) {
+        const parentError = await validateParentDivision(user, data.parent_id);
+        if (parentError) {
+          return reply.status(parentError.status).send({ error: parentError.error });
+        }
+      }
+
+      if (await isDivisionNameTaken(data.name)) {
+        return reply.status(400).send({ error: 'Division name already exists' });
+      }
+
+      const divisionData = withCreateAudit({
+        name: data.name,
+        parent_id: data.parent_id ?? null,
+      }, user.id);
+
+      await sql`
+        INSERT INTO divisions (
+          id, name, parent_id, created_at, updated_at, created_by, updated_by
+        ) VALUES (
+          ${divisionData.id}, ${divisionData.name}, ${divisionData.parent_id},
+          ${divisionData.created_at}, ${divisionData.updated_at},
+          ${divisionData.created_by}, ${divisionData.updated_by}
+        )
+      `;
+
+      return reply.status(201).send({ division: await getDivisionDetail(divisionData.id) });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error creating division:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to create division' });
+    }
+  });
+
+  // Update division
+  fastify.put('/:id', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: divisionJsonProperties,
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid division ID format' });
+      }
+
+      const data = updateDivisionSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'divisions:write'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:write' });
+      }
+
+      if (!(await canAccessDivision(user, id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const [existingDivision] = await sql`
+        SELECT id, name, parent_id FROM divisions WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!existingDivision) {
+        return reply.status(404).send({ error: 'Division not found' });
+      }
+
+      if (data.parent_id && data.parent_id !== existingDivision.parent_id) {
+        const parentError = await validateParentDivision(user, data.parent_id);
+        if (parentError) {
+          return reply.status(parentError.status).send({ error: parentError.error });
+        }
+
+        if (await wouldCreateDivisionCycle(id, data.parent_id)) {
+          return reply.status(400).send({
+            error: 'A division cannot be moved beneath itself or one of its descendants',
+          });
+        }
+      }
+
+      // Only admins can promote a division to the top level
+      if (data.parent_id === null && existingDivision.parent_id && user.role !== 'admin') {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (data.name && await isDivisionNameTaken(data.name, id)) {
+        return reply.status(400).send({ error: 'Division name already exists' });
+      }
+
+      const updateData = withUpdateAudit({
+        name: data.name ?? existingDivision.name,
+        parent_id: data.parent_id !== undefined ? data.parent_id : existingDivision.parent_id,
+      }, user.id);
+
+      // Moves are serialised by the advisory lock and the cycle check is repeated inside the
+      // same transaction, so two concurrent moves cannot each pass the check above and
+      // together form a loop. The new parent must also still exist.
+      const [, [updated]] = await sql.transaction([
+        sql`SELECT pg_advisory_xact_lock(hashtext('division_tree'))`,
+        sql(`
+          UPDATE divisions
+          SET name = $1, parent_id = $2, updated_at = $3, updated_by = $4
+          WHERE id = $5 AND deleted_at IS NULL
+            AND (
+              $2::uuid IS NULL OR (
+                EXISTS (SELECT 1 FROM divisions WHERE id = $2 AND deleted_at IS NULL)
+                AND $2 NOT IN ${divisionSubtreeSql('$5')}
+              )
+            )
+          RETURNING id
+        `, [
+          updateData.name,
+          updateData.parent_id,
+          updateData.updated_at,
+          updateData.updated_by,
+          id,
+        ]),
+      ]);
+
+      if (!updated) {
+        return reply.status(409).send({ error: 'Division hierarchy changed, please retry' });
+      }
+
+      return { division: await getDivisionDetail(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error updating division:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to update division' });
+    }
+  });
+
+  // Delete division (soft delete)
+  fastify.delete('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid division ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'divisions:delete'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:delete' });
+      }
+
+      const division = await getDivisionDetail(id);
+
+      if (!division) {
+        return reply.status(404).send({ error: 'Division not found' });
+      }
+
+      // Users, sub-divisions and in-flight purchase orders would be left pointing at a
+      // deleted division
+      if (division.user_count > 0 || division.open_po_count > 0 || division.child_count > 0) {
+        return reply.status(400).send({
+          error:
+            'Cannot delete division that still has users, sub-divisions or open purchase orders',
+          user_count: division.user_count,
+          open_po_count: division.open_po_count,
+          child_count: division.child_count,
+        });
+      }
+
+      const deleteData = withSoftDelete(user.id);
+
+      await sql.transaction([
+        sql`
+          UPDATE divisions
+          SET deleted_at = ${deleteData.deleted_at},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE id = ${id}
+        `,
+        sql`
+          UPDATE division_approval_steps
+          SET deleted_at = ${deleteData.deleted_at},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE division_id = ${id} AND deleted_at IS NULL
+        `,
+      ]);
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      fastify.log.error(error, 'Error deleting division:');
+      return reply.status(500).send({ error: 'Failed to delete division' });
+    }
+  });
+
+  // Get a division's approval policy
+  fastify.get('/:id/approval-steps', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid division ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'divisions:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:read' });
+      }
+
+      if (!(await canAccessDivision(user, id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const [division] = await sql`
+        SELECT id FROM divisions WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!division) {
+        return reply.status(404).send({ error: 'Division not found' });
+      }
+
+      return { steps: await getDivisionApprovalSteps(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching approval steps:');
+      return reply.status(500).send({ error: 'Failed to fetch approval steps' });
+    }
+  });
+
+  // Replace a division's approval policy. Only affects POs submitted afterwards;
+  // chains already in progress keep the steps they were created with.
+  fastify.put('/:id/approval-steps', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['steps'],
+        properties: {
+          steps: {
+            type: 'array',
+            maxItems: 20,
+            items: {
+              type: 'object',
+              required: ['step_order', 'name'],
+              properties: {
+                step_order: { type: 'integer', minimum: 1 },
+                name: { type: 'string', minLength: 1, maxLength: 255 },
+                min_total_cents: { type: 'integer', minimum: 0 },
+                approver_role: { type: 'string', enum: ['basic', 'manager', 'admin'] },
+                approver_user_id: { type: 'string', format: 'uuid' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid division ID format' });
+      }
+
+      const { steps } = updateApprovalStepsSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'divisions:write'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:write' });
+      }
+
+      if (!(await canAccessDivision(user, id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const [division] = await sql`
+        SELECT id FROM divisions WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!division) {
+        return reply.status(404).send({ error: 'Division not found' });
+      }
+
+      // Named approvers must be active users
+      const approverIds = [...new Set(
+        steps.map((step) => step.approver_user_id).filter((approverId): approverId is string =>
+          Boolean(approverId)),
+      )];
+
+      if (approverIds.length > 0) {
+        const approvers = await sql`
+          SELECT id FROM users
+          WHERE id = ANY(${approverIds}) AND is_active = true AND deleted_at IS NULL
+        `;
+
+        if (approvers.length !== approverIds.length) {
+          return reply.status(400).send({ error: 'Approver user not found or inactive' });
+        }
+      }
+
+      const deleteData = withSoftDelete(user.id);
+
+      await sql.transaction([
+        sql`
+          UPDATE division_approval_steps
+          SET deleted_at = ${deleteData.deleted_at},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE division_id = ${id} AND deleted_at IS NULL
+        `,
+        ...steps.map((step) => {
+          const stepData = withCreateAudit({
+            division_id: id,
+            step_order: step.step_order,
+            name: step.name,
+            min_total_cents: step.min_total_cents,
+            approver_role: step.approver_role ?? null,
+            approver_user_id: step.approver_user_id ?? null,
+          }, user.id);
+
+          return sql`
+            INSERT INTO division_approval_steps (
+              id, division_id, step_order, name, min_total_cents, approver_role,
+              approver_user_id, created_at, updated_at, created_by, updated_by
+            ) VALUES (
+              ${stepData.id}, ${stepData.division_id}, ${stepData.step_order}, ${stepData.name},
+              ${stepData.min_total_cents}, ${stepData.approver_role},
+              ${stepData.approver_user_id}, ${stepData.created_at}, ${stepData.updated_at},
+              ${stepData.created_by}, ${stepData.updated_by}
+            )
+          `;
+        }),
+      ]);
+
+      return { steps: await getDivisionApprovalSteps(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error updating approval steps:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to update approval steps' });
+    }
+  });
+
+  // Budget position for the fiscal period containing `date` (defaults to today)
+  fastify.get('/:id/budget', {
+    schema: {
+      params: idParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+      const query = request.query as { date?: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid division ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'divisions:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:read' });
+      }
+
+      if (!(await canAccessDivision(user, id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const [division] = await sql`
+        SELECT id FROM divisions WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!division) {
+        return reply.status(404).send({ error: 'Division not found' });
+      }
+
+      const budget = await getDivisionBudget(id, query.date);
+
+      if (!budget) {
+        return reply.status(404).send({ error: 'No budget set for this period' });
+      }
+
+      return await getBudgetSummary(budget);
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching division budget:');
+      return reply.status(500).send({ error: 'Failed to fetch division budget' });
+    }
+  });
+
+  // Set the budget for a fiscal period, replacing any budget starting on the same day
+  fastify.put('/:id/budget', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['period_start', 'period_end', 'budget_cents'],
+        properties: {
+          period_start: { type: 'string', format: 'date' },
+          period_end: { type: 'string', format: 'date' },
+          budget_cents: { type: 'integer', minimum: 0 },
+          enforcement: { type: 'string', enum: ['warn', 'block'] },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid division ID format' });
+      }
+
+      const data = budgetSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'divisions:write'))) {
+        return reply.status(403).send({ error: 'Missing required permission: divisions:write' });
+      }
+
+      if (!(await canAccessDivision(user, id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const [division] = await sql`
+        SELECT id FROM divisions WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!division) {
+        return reply.status(404).send({ error: 'Division not found' });
+      }
+
+      const [existingBudget] = await sql`
+        SELECT id FROM division_budgets
+        WHERE division_id = ${id} AND period_start = ${data.period_start}::date
+          AND deleted_at IS NULL
+      `;
+
+      if (await hasOverlappingBudget(id, data.period_start, data.period_end, existingBudget?.id)) {
+        return reply.status(400).send({ error: 'Budget period overlaps an existing budget' });
+      }
+
+      if (existingBudget) {
+        const updateData = withUpdateAudit({
+          period_end: data.period_end,
+          budget_cents: data.budget_cents,
+          enforcement: data.enforcement,
+        }, user.id);
+
+        await sql`
+          UPDATE division_budgets
+          SET period_end = ${updateData.period_end},
+              budget_cents = ${updateData.budget_cents},
+              enforcement = ${updateData.enforcement},
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${existingBudget.id}
+        `;
+      } else {
+        const budgetData = withCreateAudit({
+          division_id: id,
+          period_start: data.period_start,
+          period_end: data.period_end,
+          budget_cents: data.budget_cents,
+          enforcement: data.enforcement,
+        }, user.id);
+
+        await sql`
+          INSERT INTO division_budgets (
+            id, division_id, period_start, period_end, budget_cents, enforcement,
+            created_at, updated_at, created_by, updated_by
+          ) VALUES (
+            ${budgetData.id}, ${budgetData.division_id}, ${budgetData.period_start},
+            ${budgetData.period_end}, ${budgetData.budget_cents}, ${budgetData.enforcement},
+            ${budgetData.created_at}, ${budgetData.updated_at},
+            ${budgetData.created_by}, ${budgetData.updated_by}
+          )
+        `;
+      }
+
+      const budget = await getDivisionBudget(id, data.period_start);
+
+      return await getBudgetSummary(budget!);
+
+    } catch (error) {
+      fastify.log.error(error, 'Error updating division budget:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to update division budget' });
+    }
   });
-}
\ No newline at end of file
+}
@@ -1,11 +1,318 @@
 // routes/exports.ts
 // Export management routes for Fastify
 
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sql, { createFilterBuilder, generateUUID } from '../lib/db';
+import { requireAuth, isValidUUID, canAccessDivision, hasPermission } from '../lib/auth';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  countPurchaseOrdersForExport,
+  formatExport,
+} from '../lib/exports';
+import {
+  failStaleExportJobs,
+  isExportWorkerRunning,
+  notifyExportWorker,
+} from '../lib/export-jobs';
+import { isReportRecipient } from '../lib/reports';
+import { getStorage } from '../lib/storage';
+import { AuthenticatedUser, ExportFormat } from '../lib/types';
+
+const DEFAULT_EXPORT_TTL_HOURS = 24;
+const MAX_EXPORT_TTL_HOURS = 168;
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+// Validation schemas
+const exportFiltersSchema = z.object({
+  status: z.string().optional(),
+  supplier_id: z.string().uuid().optional(),
+  division_id: z.string().uuid().optional(),
+  include_descendants: z.enum(['true', 'false']).optional(),
+  order_type: z.enum(['single', 'rolling']).optional(),
+  from_date: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  to_date: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  search: z.string().max(255).optional(),
+});
+
+const createExportSchema = z.object({
+  format: z.enum(['csv', 'json', 'pdf']),
+  report_type: z.enum(['purchase_orders', 'spend_by_supplier']).default('purchase_orders'),
+  po_id: z.string().uuid().optional(),
+  filters: exportFiltersSchema.optional(),
+  expires_in_hours: z.number().int().min(1).max(MAX_EXPORT_TTL_HOURS).optional(),
+}).refine((data) => (data.format === 'pdf') === Boolean(data.po_id), {
+  message: 'po_id is required for pdf exports and not allowed for csv or json exports',
+  path: ['po_id'],
+}).refine((data) => data.format !== 'pdf' || !data.filters, {
+  message: 'filters only apply to csv and json exports',
+  path: ['filters'],
+}).refine((data) => data.format !== 'pdf' || data.report_type === 'purchase_orders', {
+  message: 'pdf exports are only available for single purchase orders',
+  path: ['report_type'],
+});
+
+const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+// Exports hold data scoped to whoever generated them, so only they, an admin or the
+// recipients of the scheduled report that produced them may fetch them again
+async function loadExport(
+  user: AuthenticatedUser,
+  id: string,
+): Promise<{ status: number; error: string } | { row: Record<string, any> }> {
+  if (!isValidUUID(id)) {
+    return { status: 400, error: 'Invalid export ID format' };
+  }
+
+  const [row] = await sql(`SELECT ${EXPORT_COLUMNS} FROM exports WHERE id = $1`, [id]);
+
+  if (!row) {
+    return { status: 404, error: 'Export not found' };
+  }
+
+  if (
+    user.role !== 'admin' &&
+    row.generated_by !== user.id &&
+    !(await isReportRecipient(user.id, id))
+  ) {
+    return { status: 403, error: 'Forbidden' };
+  }
+
+  return { row };
+}
 
 export async function exportRoutes(fastify: FastifyInstance) {
-  // Placeholder - will be implemented
-  fastify.get('/', async () => {
-    return { message: 'Export routes - coming soon' };
+  // List the caller's exports
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const query = request.query as {
+        format?: string;
+        po_id?: string;
+        page?: string;
+        limit?: string;
+      };
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      const filters = createFilterBuilder();
+      filters.add(`generated_by = ${filters.param(user.id)}`);
+
+      if (query.format) {
+        if (!EXPORT_FORMATS.includes(query.format as ExportFormat)) {
+          return reply.status(400).send({ error: 'Invalid export format' });
+        }
+        filters.add(`format = ${filters.param(query.format)}`);
+      }
+
+      if (query.po_id) {
+        if (!isValidUUID(query.po_id)) {
+          return reply.status(400).send({ error: 'Invalid purchase order ID format' });
+        }
+        filters.add(`po_id = ${filters.param(query.po_id)}`);
+      }
+
+      const whereClause = filters.toString();
+
+      const [{ count }] = await sql(
+        `SELECT COUNT(*) as count FROM exports ${whereClause}`,
+        [...filters.params],
+      );
+
+      const rows = await sql(`
+        SELECT ${EXPORT_COLUMNS}
+        FROM exports
+        ${whereClause}
+        ORDER BY generated_at DESC
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
+
+      return {
+        exports: rows.map(formatExport),
+        pagination: {
+          current_page: page,
+          total_pages: Math.ceil(parseInt(count) / limit),
+          total_count: parseInt(count),
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching exports:');
+      return reply.status(500).send({ error: 'Failed to fetch exports' });
+    }
+  });
+
+  // Queue a purchase order PDF, or a CSV/JSON purchase order list or spend report
+  fastify.post('/', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['format'],
+        properties: {
+          format: { type: 'string', enum: ['csv', 'json', 'pdf'] },
+          report_type: { type: 'string', enum: ['purchase_orders', 'spend_by_supplier'] },
+          po_id: { type: 'string', format: 'uuid' },
+          filters: { type: 'object' },
+          expires_in_hours: { type: 'integer', minimum: 1, maximum: MAX_EXPORT_TTL_HOURS },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const data = createExportSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'pos:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: pos:read' });
+      }
+
+      // Requests are checked now so callers get errors immediately; the job re-checks access
+      // when it runs
+      if (data.format === 'pdf') {
+        const [purchaseOrder] = await sql`
+          SELECT division_id FROM purchase_orders WHERE id = ${data.po_id} AND deleted_at IS NULL
+        `;
+
+        if (!purchaseOrder) {
+          return reply.status(404).send({ error: 'Purchase order not found' });
+        }
+
+        if (!(await canAccessDivision(user, purchaseOrder.division_id))) {
+          return reply.status(403).send({ error: 'Forbidden' });
+        }
+      } else if (data.report_type === 'purchase_orders') {
+        const result = await countPurchaseOrdersForExport(user, data.filters ?? {});
+
+        if ('error' in result) {
+          return reply.status(result.status).send({ error: result.error });
+        }
+      } else if (
+        data.filters?.division_id &&
+        !(await canAccessDivision(user, data.filters.division_id))
+      ) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const expiresAt = new Date(
+        Date.now() + (data.expires_in_hours ?? DEFAULT_EXPORT_TTL_HOURS) * 60 * 60 * 1000,
+      );
+
+      const [queued] = await sql(`
+        INSERT INTO exports (id, po_id, format, report_type, filters, generated_by, expires_at)
+        VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7)
+        RETURNING ${EXPORT_COLUMNS}
+      `, [
+        generateUUID(),
+        data.po_id ?? null,
+        data.format,
+        data.report_type,
+        data.filters ? JSON.stringify(data.filters) : null,
+        user.id,
+        expiresAt,
+      ]);
+
+      // The export worker picks the job up, or on serverless deployments the cron-invoked
+      // job trigger (routes/jobs.ts)
+      notifyExportWorker();
+
+      return reply.status(202).send({ export: formatExport(queued) });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error creating export:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to create export' });
+    }
+  });
+
+  // Get an export record; clients poll this for the job's status and progress
+  fastify.get('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      // With no worker to sweep them, jobs cut off by a serverless timeout are settled here
+      if (!isExportWorkerRunning()) {
+        await failStaleExportJobs();
+      }
+
+      const result = await loadExport(user, id);
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      return { export: formatExport(result.row) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching export:');
+      return reply.status(500).send({ error: 'Failed to fetch export' });
+    }
+  });
+
+  // Get a short-lived download link, for as long as the export has not expired
+  fastify.get('/:id/download', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      const result = await loadExport(user, id);
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const exportRecord = formatExport(result.row);
+
+      if (exportRecord.status !== 'done') {
+        return reply.status(409).send({
+          error: exportRecord.status === 'failed' ? 'Export failed' : 'Export is not ready yet',
+          status: exportRecord.status,
+        });
+      }
+
+      const remainingSeconds = Math.floor(
+        (new Date(exportRecord.expires_at).getTime() - Date.now()) / 1000,
+      );
+
+      if (remainingSeconds <= 0) {
+        return reply.status(410).send({ error: 'Export has expired' });
+      }
+
+      // The storage link must not outlive the export itself
+      const expiresIn = Math.min(DOWNLOAD_URL_TTL_SECONDS, remainingSeconds);
+
+      return {
+        export: exportRecord,
+        download_url: await getStorage().createDownloadUrl(result.row.storage_key, expiresIn),
+        expires_in: expiresIn,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error generating export download URL:');
+      return reply.status(500).send({ error: 'Failed to generate download URL' });
+    }
   });
-}
\ No newline at end of file
+}
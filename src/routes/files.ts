@@ -1,11 +1,714 @@
 // routes/files.ts
 // File management routes for Fastify
 
-import { FastifyInstance } from 'fastify';
+import crypto from 'crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sql, {
+  withCreateAudit,
+  withUpdateAudit,
+  withSoftDelete,
+  createFilterBuilder,
+} from '../lib/db';
+import { requireAuth, isValidUUID, canAccessDivision, hasPermission } from '../lib/auth';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  generateFileKey,
+  validateFileUpload,
+} from '../lib/aws';
+import { sniffContentType } from '../lib/mime';
+import { getLocalStorage, getStorage } from '../lib/storage';
+import {
+  FILE_COLUMNS,
+  FILE_ENTITY_TYPES,
+  canAccessFile,
+  formatFile,
+  getEntityDivisionId,
+  getFile,
+} from '../lib/files';
+import { AuthenticatedUser, FileEntityType } from '../lib/types';
+
+const UPLOAD_URL_TTL_SECONDS = 300;
+const DEFAULT_DOWNLOAD_URL_TTL_SECONDS = 300;
+const MAX_DOWNLOAD_URL_TTL_SECONDS = 3600;
+
+// Validation schemas
+const uploadRequestSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  content_type: z.string().min(1).max(255),
+  size: z.number().int().positive().optional(),
+  entity_type: z.enum(['purchase_order', 'delivery', 'invoice']).optional(),
+  entity_id: z.string().uuid().optional(),
+}).refine((data) => Boolean(data.entity_type) === Boolean(data.entity_id), {
+  message: 'entity_type and entity_id must be provided together',
+  path: ['entity_id'],
+});
+
+const multipartLinkSchema = z.object({
+  entity_type: z.enum(['purchase_order', 'delivery', 'invoice']).optional(),
+  entity_id: z.string().uuid().optional(),
+}).refine((data) => Boolean(data.entity_type) === Boolean(data.entity_id), {
+  message: 'entity_type and entity_id must be provided together',
+  path: ['entity_id'],
+});
+
+const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+// Linked records must exist and sit in a division the caller can access
+async function checkEntityAccess(
+  user: AuthenticatedUser,
+  entityType: FileEntityType,
+  entityId: string,
+): Promise<{ status: number; error: string } | null> {
+  const divisionId = await getEntityDivisionId(entityType, entityId);
+
+  if (!divisionId) {
+    return { status: 400, error: 'Linked record not found' };
+  }
+
+  if (!(await canAccessDivision(user, divisionId))) {
+    return { status: 403, error: 'Forbidden' };
+  }
+
+  return null;
+}
 
 export async function fileRoutes(fastify: FastifyInstance) {
-  // Placeholder - will be implemented
-  fastify.get('/', async () => {
-    return { message: 'File routes - coming soon' };
+  // Raw uploads to the local storage driver arrive with the file's own content type
+  fastify.addContentTypeParser(
+    '*',
+    { parseAs: 'buffer', bodyLimit: MAX_ATTACHMENT_SIZE },
+    (_request, body, done) => done(null, body),
+  );
+
+  // List files linked to a record, or the caller's own files when no record is given
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'files:download'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:download' });
+      }
+
+      const query = request.query as {
+        entity_type?: string;
+        entity_id?: string;
+        page?: string;
+        limit?: string;
+      };
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      const filters = createFilterBuilder(['deleted_at IS NULL']);
+
+      if (query.entity_type || query.entity_id) {
+        if (!FILE_ENTITY_TYPES.includes(query.entity_type as FileEntityType)) {
+          return reply.status(400).send({ error: 'Invalid entity type' });
+        }
+
+        if (!query.entity_id || !isValidUUID(query.entity_id)) {
+          return reply.status(400).send({ error: 'Invalid entity ID format' });
+        }
+
+        const entityError = await checkEntityAccess(
+          user,
+          query.entity_type as FileEntityType,
+          query.entity_id,
+        );
+
+        if (entityError) {
+          return reply.status(entityError.status).send({ error: entityError.error });
+        }
+
+        filters.add(`entity_type = ${filters.param(query.entity_type)}`);
+        filters.add(`entity_id = ${filters.param(query.entity_id)}`);
+      } else {
+        filters.add(`owner_id = ${filters.param(user.id)}`);
+      }
+
+      const whereClause = filters.toString();
+
+      const [{ count }] = await sql(
+        `SELECT COUNT(*) as count FROM files ${whereClause}`,
+        [...filters.params],
+      );
+
+      const files = await sql(`
+        SELECT ${FILE_COLUMNS}
+        FROM files
+        ${whereClause}
+        ORDER BY created_at DESC
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
+
+      const totalCount = Number(count);
+
+      return {
+        files: files.map(formatFile),
+        pagination: {
+          current_page: page,
+          total_pages: Math.ceil(totalCount / limit),
+          total_count: totalCount,
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching files:');
+      return reply.status(500).send({ error: 'Failed to fetch files' });
+    }
+  });
+
+  // Request a pre-signed upload URL. The file stays pending until the upload is confirmed.
+  fastify.post('/upload-url', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['filename', 'content_type'],
+        properties: {
+          filename: { type: 'string', minLength: 1, maxLength: 255 },
+          content_type: { type: 'string', minLength: 1, maxLength: 255 },
+          size: { type: 'integer', minimum: 1 },
+          entity_type: { type: 'string', enum: FILE_ENTITY_TYPES },
+          entity_id: { type: 'string', format: 'uuid' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const data = uploadRequestSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'files:upload'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:upload' });
+      }
+
+      const validationErrors = validateFileUpload(data.filename, data.content_type, data.size);
+
+      if (validationErrors.length > 0) {
+        return reply.status(400).send({ error: 'Invalid file', details: validationErrors });
+      }
+
+      if (data.entity_type && data.entity_id) {
+        const entityError = await checkEntityAccess(user, data.entity_type, data.entity_id);
+
+        if (entityError) {
+          return reply.status(entityError.status).send({ error: entityError.error });
+        }
+      }
+
+      const key = generateFileKey(data.entity_type ?? 'attachments', data.filename);
+      const uploadUrl = await getStorage().createUploadUrl(
+        key,
+        data.content_type,
+        UPLOAD_URL_TTL_SECONDS,
+      );
+
+      const fileData = withCreateAudit({
+        owner_id: user.id,
+        entity_type: data.entity_type ?? null,
+        entity_id: data.entity_id ?? null,
+        filename: data.filename,
+        content_type: data.content_type,
+        size_bytes: data.size ?? null,
+        storage_key: key,
+      }, user.id);
+
+      await sql`
+        INSERT INTO files (
+          id, owner_id, entity_type, entity_id, filename, content_type, size_bytes,
+          storage_key, created_at, updated_at, created_by, updated_by
+        ) VALUES (
+          ${fileData.id}, ${fileData.owner_id}, ${fileData.entity_type}, ${fileData.entity_id},
+          ${fileData.filename}, ${fileData.content_type}, ${fileData.size_bytes},
+          ${fileData.storage_key}, ${fileData.created_at}, ${fileData.updated_at},
+          ${fileData.created_by}, ${fileData.updated_by}
+        )
+      `;
+
+      return reply.status(201).send({
+        file: await getFile(fileData.id),
+        upload_url: uploadUrl,
+        expires_in: UPLOAD_URL_TTL_SECONDS,
+      });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error creating upload URL:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to create upload URL' });
+    }
+  });
+
+  // Upload a file in a single multipart request, for clients that cannot follow the
+  // pre-signed URL flow. The content type is taken from the file's magic bytes rather than
+  // the declared type. Link fields (entity_type, entity_id) must come before the file part.
+  fastify.post('/upload', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'files:upload'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:upload' });
+      }
+
+      if (!request.isMultipart()) {
+        return reply.status(400).send({ error: 'Expected a multipart/form-data request' });
+      }
+
+      const part = await request.file({ limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 1 } });
+
+      if (!part) {
+        return reply.status(400).send({ error: 'No file provided' });
+      }
+
+      const fieldValue = (name: string) => {
+        const field = part.fields[name];
+        return field && !Array.isArray(field) && field.type === 'field'
+          ? String(field.value)
+          : undefined;
+      };
+
+      const link = multipartLinkSchema.parse({
+        entity_type: fieldValue('entity_type'),
+        entity_id: fieldValue('entity_id'),
+      });
+
+      if (link.entity_type && link.entity_id) {
+        const entityError = await checkEntityAccess(user, link.entity_type, link.entity_id);
+
+        if (entityError) {
+          // Drain the upload so the connection can be reused
+          part.file.resume();
+          return reply.status(entityError.status).send({ error: entityError.error });
+        }
+      }
+
+      // Hash while streaming; the size limit keeps the buffered body bounded
+      const hash = crypto.createHash('sha256');
+      const chunks: Buffer[] = [];
+
+      for await (const chunk of part.file) {
+        hash.update(chunk);
+        chunks.push(chunk);
+      }
+
+      if (part.file.truncated) {
+        return reply.status(413).send({
+          error: `File size exceeds maximum allowed size of ${MAX_ATTACHMENT_SIZE} bytes`,
+        });
+      }
+
+      const body = Buffer.concat(chunks);
+      const contentType = sniffContentType(body, part.filename);
+
+      if (!contentType || !ALLOWED_ATTACHMENT_TYPES.includes(contentType)) {
+        return reply.status(400).send({ error: 'File content is not an allowed file type' });
+      }
+
+      const validationErrors = validateFileUpload(part.filename, contentType, body.length);
+
+      if (body.length === 0) {
+        validationErrors.push('Uploaded file is empty');
+      }
+
+      if (validationErrors.length > 0) {
+        return reply.status(400).send({ error: 'Invalid file', details: validationErrors });
+      }
+
+      const key = generateFileKey(link.entity_type ?? 'attachments', part.filename);
+      await getStorage().putObject(key, body, contentType);
+
+      const fileData = withCreateAudit({
+        owner_id: user.id,
+        entity_type: link.entity_type ?? null,
+        entity_id: link.entity_id ?? null,
+        filename: part.filename,
+        content_type: contentType,
+        size_bytes: body.length,
+        sha256: hash.digest('hex'),
+        storage_key: key,
+        status: 'uploaded',
+      }, user.id);
+
+      await sql`
+        INSERT INTO files (
+          id, owner_id, entity_type, entity_id, filename, content_type, size_bytes, sha256,
+          storage_key, status, uploaded_at, created_at, updated_at, created_by, updated_by
+        ) VALUES (
+          ${fileData.id}, ${fileData.owner_id}, ${fileData.entity_type}, ${fileData.entity_id},
+          ${fileData.filename}, ${fileData.content_type}, ${fileData.size_bytes},
+          ${fileData.sha256}, ${fileData.storage_key}, ${fileData.status},
+          ${fileData.created_at}, ${fileData.created_at}, ${fileData.updated_at},
+          ${fileData.created_by}, ${fileData.updated_by}
+        )
+      `;
+
+      return reply.status(201).send({ file: await getFile(fileData.id) });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error uploading file:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      if (error instanceof fastify.multipartErrors.RequestFileTooLargeError) {
+        return reply.status(413).send({
+          error: `File size exceeds maximum allowed size of ${MAX_ATTACHMENT_SIZE} bytes`,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to upload file' });
+    }
+  });
+
+  // Confirm an upload once the client has PUT the object to storage. The stored object's
+  // size and type are checked against what was requested before the file is usable.
+  fastify.post('/:id/confirm', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid file ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'files:upload'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:upload' });
+      }
+
+      const file = await getFile(id);
+
+      if (!file) {
+        return reply.status(404).send({ error: 'File not found' });
+      }
+
+      // Only the uploader can confirm their own upload
+      if (file.owner_id !== user.id) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (file.status !== 'pending') {
+        return reply.status(400).send({ error: 'File upload has already been confirmed' });
+      }
+
+      const storage = getStorage();
+      const metadata = await storage.getMetadata(file.storage_key);
+
+      if (!metadata) {
+        return reply.status(400).send({ error: 'Uploaded object not found in storage' });
+      }
+
+      const size = metadata.size;
+      const errors: string[] = [];
+
+      if (size <= 0) {
+        errors.push('Uploaded file is empty');
+      } else if (size > MAX_ATTACHMENT_SIZE) {
+        errors.push(`File size exceeds maximum allowed size of ${MAX_ATTACHMENT_SIZE} bytes`);
+      }
+
+      if (file.size_bytes !== undefined && size !== file.size_bytes) {
+        errors.push(`Uploaded size ${size} does not match declared size ${file.size_bytes}`);
+      }
+
+      if (metadata.contentType !== file.content_type) {
+        errors.push(
+          `Uploaded content type ${metadata.contentType} does not match ${file.content_type}`,
+        );
+      }
+
+      // A rejected upload is removed so the caller has to start over with a fresh URL
+      if (errors.length > 0) {
+        await storage.deleteObject(file.storage_key);
+
+        const deleteData = withSoftDelete(user.id);
+        await sql`
+          UPDATE files
+          SET deleted_at = ${deleteData.deleted_at},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE id = ${id}
+        `;
+
+        return reply.status(400).send({
+          error: 'Uploaded file failed verification',
+          details: errors,
+        });
+      }
+
+      const updateData = withUpdateAudit({ status: 'uploaded', size_bytes: size }, user.id);
+
+      const [confirmed] = await sql`
+        UPDATE files
+        SET status = ${updateData.status},
+            size_bytes = ${updateData.size_bytes},
+            uploaded_at = ${updateData.updated_at},
+            updated_at = ${updateData.updated_at},
+            updated_by = ${updateData.updated_by}
+        WHERE id = ${id} AND status = 'pending' AND deleted_at IS NULL
+        RETURNING id
+      `;
+
+      if (!confirmed) {
+        return reply.status(409).send({ error: 'File status changed, please retry' });
+      }
+
+      return { file: await getFile(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error confirming file upload:');
+      return reply.status(500).send({ error: 'Failed to confirm file upload' });
+    }
+  });
+
+  // Get file metadata
+  fastify.get('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid file ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'files:download'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:download' });
+      }
+
+      const file = await getFile(id);
+
+      if (!file) {
+        return reply.status(404).send({ error: 'File not found' });
+      }
+
+      if (!(await canAccessFile(user, file))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      return { file };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching file:');
+      return reply.status(500).send({ error: 'Failed to fetch file' });
+    }
+  });
+
+  // Get a time-limited download link
+  fastify.get('/:id/download', {
+    schema: {
+      params: idParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          expires_in: { type: 'integer', minimum: 60, maximum: MAX_DOWNLOAD_URL_TTL_SECONDS },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+      const query = request.query as { expires_in?: number };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid file ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'files:download'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:download' });
+      }
+
+      const file = await getFile(id);
+
+      if (!file) {
+        return reply.status(404).send({ error: 'File not found' });
+      }
+
+      if (!(await canAccessFile(user, file))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (file.status !== 'uploaded') {
+        return reply.status(400).send({ error: 'File upload has not been confirmed' });
+      }
+
+      const expiresIn = Math.min(
+        query.expires_in ?? DEFAULT_DOWNLOAD_URL_TTL_SECONDS,
+        MAX_DOWNLOAD_URL_TTL_SECONDS,
+      );
+
+      return {
+        file,
+        download_url: await getStorage().createDownloadUrl(file.storage_key, expiresIn),
+        expires_in: expiresIn,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error generating download URL:');
+      return reply.status(500).send({ error: 'Failed to generate download URL' });
+    }
+  });
+
+  // Delete an unattached file from storage and soft-delete its record
+  fastify.delete('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid file ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'files:delete'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:delete' });
+      }
+
+      const file = await getFile(id);
+
+      if (!file) {
+        return reply.status(404).send({ error: 'File not found' });
+      }
+
+      if (!(await canAccessFile(user, file))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      // Linked files are removed through their record, which applies its own edit rules
+      // and clears the reference: PO attachments via DELETE /pos/:id/attachments/:fileId,
+      // proof of delivery and invoice documents by replacing them
+      if (file.entity_id) {
+        return reply.status(409).send({
+          error: `File is attached to a ${file.entity_type} and must be removed from it there`,
+          entity_type: file.entity_type,
+          entity_id: file.entity_id,
+        });
+      }
+
+      const deleteData = withSoftDelete(user.id);
+
+      // Only delete the stored object once the row is gone, and only if it was not linked
+      // to a record in the meantime
+      const [deleted] = await sql`
+        UPDATE files
+        SET deleted_at = ${deleteData.deleted_at},
+            updated_at = ${deleteData.updated_at},
+            updated_by = ${deleteData.updated_by}
+        WHERE id = ${id} AND entity_id IS NULL AND deleted_at IS NULL
+        RETURNING storage_key
+      `;
+
+      if (!deleted) {
+        return reply.status(409).send({ error: 'File was attached or deleted, please retry' });
+      }
+
+      await getStorage().deleteObject(deleted.storage_key);
+
+      return { message: 'File deleted successfully' };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error deleting file:');
+      return reply.status(500).send({ error: 'Failed to delete file' });
+    }
+  });
+
+  // Local storage driver endpoints. These are reached through signed URLs handed out by
+  // the routes above, so the signature stands in for the usual JWT check.
+  fastify.put('/local/*', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const localStorage = getLocalStorage();
+
+      if (!localStorage) {
+        return reply.status(404).send({ error: 'Not found' });
+      }
+
+      const key = (request.params as { '*': string })['*'];
+      const query = request.query as { expires?: string; signature?: string };
+      const contentType = request.headers['content-type'] ?? '';
+
+      if (!localStorage.verifySignedUrl(
+        'PUT',
+        key,
+        Number(query.expires),
+        query.signature ?? '',
+        contentType,
+      )) {
+        return reply.status(403).send({ error: 'Invalid or expired signature' });
+      }
+
+      const body = request.body as Buffer | string | undefined;
+
+      if (!body || body.length === 0) {
+        return reply.status(400).send({ error: 'Request body is empty' });
+      }
+
+      const content = Buffer.isBuffer(body) ? body : Buffer.from(body);
+      await localStorage.putObject(key, content, contentType);
+
+      return reply.status(200).send();
+
+    } catch (error) {
+      fastify.log.error(error, 'Error storing local upload:');
+      return reply.status(500).send({ error: 'Failed to store file' });
+    }
+  });
+
+  fastify.get('/local/*', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const localStorage = getLocalStorage();
+
+      if (!localStorage) {
+        return reply.status(404).send({ error: 'Not found' });
+      }
+
+      const key = (request.params as { '*': string })['*'];
+      const query = request.query as { expires?: string; signature?: string };
+
+      if (!localStorage.verifySignedUrl('GET', key, Number(query.expires), query.signature ?? '')) {
+        return reply.status(403).send({ error: 'Invalid or expired signature' });
+      }
+
+      const object = await localStorage.readObject(key);
+
+      if (!object) {
+        return reply.status(404).send({ error: 'File not found' });
+      }
+
+      return reply.type(object.contentType ?? 'application/octet-stream').send(object.body);
+
+    } catch (error) {
+      fastify.log.error(error, 'Error serving local file:');
+      return reply.status(500).send({ error: 'Failed to serve file' });
+    }
   });
-}
\ No newline at end of file
+}
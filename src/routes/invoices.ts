@@ -0,0 +1,1123 @@
+// routes/invoices.ts
+// Invoice capture and three-way matching routes for Fastify
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sql, {
+  withCreateAudit,
+  withUpdateAudit,
+  withSoftDelete,
+  createFilterBuilder,
+} from '../lib/db';
+import {
+  requireAuth,
+  isValidUUID,
+  canAccessDivision,
+  hasPermission,
+  applyDivisionScope,
+} from '../lib/auth';
+import {
+  INVOICE_SELECT,
+  buildInvoicedStatusQuery,
+  formatInvoice,
+  getInvoiceDetail,
+  getInvoiceLines,
+} from '../lib/invoices';
+import { getMatchReferences, getMatchTolerances, matchInvoiceLines } from '../lib/matching';
+import {
+  buildFileLinkQuery,
+  buildReplacedDocumentDeleteQuery,
+  getFile,
+  getLinkableFile,
+} from '../lib/files';
+import { getStorage } from '../lib/storage';
+import { AuthenticatedUser, InvoiceLineRequest } from '../lib/types';
+
+// Validation schemas
+const invoiceLineSchema = z.object({
+  po_line_id: z.string().uuid(),
+  qty_invoiced: z.number().positive().multipleOf(0.01),
+  unit_price_cents: z.number().int().nonnegative(),
+});
+
+function checkUniquePOLines(lines: { po_line_id: string }[], ctx: z.RefinementCtx) {
+  const seen = new Set<string>();
+  lines.forEach((line, index) => {
+    if (seen.has(line.po_line_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate po_line_id ${line.po_line_id}`,
+        path: ['lines', index, 'po_line_id'],
+      });
+    }
+    seen.add(line.po_line_id);
+  });
+}
+
+const createInvoiceSchema = z.object({
+  po_id: z.string().uuid(),
+  supplier_invoice_no: z.string().min(1).max(255),
+  invoice_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+  invoice_file_id: z.string().uuid().optional(),
+  lines: z.array(invoiceLineSchema).min(1),
+}).superRefine((data, ctx) => checkUniquePOLines(data.lines, ctx));
+
+const attachDocumentSchema = z.object({
+  file_id: z.string().uuid(),
+});
+
+const updateInvoiceSchema = z.object({
+  supplier_invoice_no: z.string().min(1).max(255).optional(),
+  invoice_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+  lines: z.array(invoiceLineSchema).min(1).optional(),
+}).superRefine((data, ctx) => {
+  if (data.lines) {
+    checkUniquePOLines(data.lines, ctx);
+  }
+});
+
+const matchInvoiceSchema = z.object({
+  price_tolerance_percent: z.number().min(0).max(100).optional(),
+  qty_tolerance_percent: z.number().min(0).max(100).optional(),
+});
+
+const payInvoiceSchema = z.object({
+  payment_reference: z.string().min(1).max(255),
+  payment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+});
+
+const invoiceLineJsonSchema = {
+  type: 'object',
+  required: ['po_line_id', 'qty_invoiced', 'unit_price_cents'],
+  properties: {
+    po_line_id: { type: 'string', format: 'uuid' },
+    qty_invoiced: { type: 'number', exclusiveMinimum: 0 },
+    unit_price_cents: { type: 'integer', minimum: 0 },
+  },
+};
+
+const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+const DOCUMENT_DOWNLOAD_URL_TTL_SECONDS = 300;
+
+// Invoices can be captured once a PO has been approved for ordering
+const INVOICEABLE_PO_STATUSES = ['approved', 'delivered', 'invoiced', 'exceptions'];
+
+// Lines that make up the invoice must belong to the PO it is raised against
+async function findForeignPOLine(poId: string, lines: InvoiceLineRequest[]) {
+  const poLines = await sql`
+    SELECT id FROM po_lines WHERE po_id = ${poId} AND deleted_at IS NULL
+  `;
+  const poLineIds = new Set(poLines.map((line) => line.id));
+
+  return lines.find((line) => !poLineIds.has(line.po_line_id));
+}
+
+// Supplier invoice numbers must be unique per supplier
+async function isDuplicateInvoiceNumber(
+  poId: string,
+  supplierInvoiceNo: string,
+  excludeInvoiceId?: string,
+): Promise<boolean> {
+  const [duplicate] = await sql`
+    SELECT i.id
+    FROM invoices i
+    JOIN purchase_orders po ON i.po_id = po.id
+    WHERE po.supplier_id = (SELECT supplier_id FROM purchase_orders WHERE id = ${poId})
+      AND i.supplier_invoice_no = ${supplierInvoiceNo}
+      AND i.deleted_at IS NULL
+      AND i.id <> ${excludeInvoiceId ?? '00000000-0000-0000-0000-000000000000'}
+  `;
+
+  return Boolean(duplicate);
+}
+
+// Supplier invoice documents are uploaded through /api/v1/files and then linked here
+async function checkInvoiceDocument(user: AuthenticatedUser, fileId: string, invoiceId: string) {
+  if (!(await hasPermission(user.id, 'files:upload'))) {
+    return { status: 403, error: 'Missing required permission: files:upload' };
+  }
+
+  return getLinkableFile(user, fileId, 'invoice', invoiceId);
+}
+
+function buildInvoiceLineInserts(invoiceId: string, lines: InvoiceLineRequest[], userId: string) {
+  return lines.map((line) => {
+    const lineData = withCreateAudit({ ...line, invoice_id: invoiceId }, userId);
+
+    return sql`
+      INSERT INTO invoice_lines (
+        id, invoice_id, po_line_id, qty_invoiced, unit_price_cents,
+        created_at, updated_at, created_by, updated_by
+      ) VALUES (
+        ${lineData.id}, ${lineData.invoice_id}, ${lineData.po_line_id}, ${lineData.qty_invoiced},
+        ${lineData.unit_price_cents}, ${lineData.created_at}, ${lineData.updated_at},
+        ${lineData.created_by}, ${lineData.updated_by}
+      )
+    `;
+  });
+}
+
+export async function invoiceRoutes(fastify: FastifyInstance) {
+  // Get all invoices
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'invoices:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:read' });
+      }
+
+      const query = request.query as {
+        po_id?: string;
+        status?: string;
+        match_status?: string;
+        supplier_id?: string;
+        division_id?: string;
+        include_descendants?: string;
+        from_date?: string;
+        to_date?: string;
+        search?: string;
+        page?: string;
+        limit?: string;
+      };
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      const filters = createFilterBuilder(['i.deleted_at IS NULL']);
+      const filterError = await applyDivisionScope(filters, 'po.division_id', user, {
+        divisionId: query.division_id,
+        includeDescendants: query.include_descendants === 'true',
+      });
+
+      if (filterError) {
+        return reply.status(filterError.status).send({ error: filterError.error });
+      }
+
+      if (query.po_id && isValidUUID(query.po_id)) {
+        filters.add(`i.po_id = ${filters.param(query.po_id)}`);
+      }
+
+      if (query.status) {
+        filters.add(`i.status = ${filters.param(query.status)}`);
+      }
+
+      if (query.match_status) {
+        filters.add(`i.match_status = ${filters.param(query.match_status)}`);
+      }
+
+      if (query.supplier_id && isValidUUID(query.supplier_id)) {
+        filters.add(`po.supplier_id = ${filters.param(query.supplier_id)}`);
+      }
+
+      if (query.from_date) {
+        filters.add(`i.invoice_date >= ${filters.param(query.from_date)}`);
+      }
+
+      if (query.to_date) {
+        filters.add(`i.invoice_date <= ${filters.param(query.to_date)}`);
+      }
+
+      if (query.search) {
+        filters.add(`i.supplier_invoice_no ILIKE ${filters.param(`%${query.search}%`)}`);
+      }
+
+      const whereClause = filters.toString();
+
+      const [{ count: totalCount }] = await sql(`
+        SELECT COUNT(*) as count
+        FROM invoices i
+        JOIN purchase_orders po ON i.po_id = po.id
+        ${whereClause}
+      `, [...filters.params]);
+
+      const invoices = await sql(`
+        ${INVOICE_SELECT}
+        ${whereClause}
+        ORDER BY i.invoice_date DESC, i.created_at DESC
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
+
+      const totalPages = Math.ceil(parseInt(totalCount) / limit);
+
+      return {
+        invoices: invoices.map(formatInvoice),
+        pagination: {
+          current_page: page,
+          total_pages: totalPages,
+          total_count: parseInt(totalCount),
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching invoices:');
+      return reply.status(500).send({ error: 'Failed to fetch invoices' });
+    }
+  });
+
+  // Approved-but-unpaid invoices grouped by supplier and bucketed by invoice age
+  fastify.get('/aging', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          as_of: { type: 'string', format: 'date' },
+          division_id: { type: 'string' },
+          include_descendants: { type: 'string', enum: ['true', 'false'] },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'invoices:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:read' });
+      }
+
+      const query = request.query as {
+        as_of?: string;
+        division_id?: string;
+        include_descendants?: string;
+      };
+      const asOf = query.as_of ?? new Date().toISOString().slice(0, 10);
+
+      const filters = createFilterBuilder([
+        'i.deleted_at IS NULL',
+        "i.status = 'approved'",
+      ]);
+      const asOfParam = filters.param(asOf);
+      const filterError = await applyDivisionScope(filters, 'po.division_id', user, {
+        divisionId: query.division_id,
+        includeDescendants: query.include_descendants === 'true',
+      });
+
+      if (filterError) {
+        return reply.status(filterError.status).send({ error: filterError.error });
+      }
+
+      const rows = await sql(`
+        WITH outstanding AS (
+          SELECT
+            po.supplier_id,
+            s.name as supplier_name,
+            (${asOfParam}::date - i.invoice_date) as age_days,
+            (
+              SELECT COALESCE(SUM(ROUND(il.qty_invoiced * il.unit_price_cents)), 0)
+              FROM invoice_lines il
+              WHERE il.invoice_id = i.id AND il.deleted_at IS NULL
+            ) as total_cents
+          FROM invoices i
+          JOIN purchase_orders po ON i.po_id = po.id
+          LEFT JOIN suppliers s ON po.supplier_id = s.id
+          ${filters.toString()}
+        )
+        SELECT
+          supplier_id,
+          supplier_name,
+          COUNT(*) as invoice_count,
+          SUM(total_cents) as total_cents,
+          COALESCE(SUM(total_cents) FILTER (WHERE age_days <= 30), 0) as days_0_30,
+          COALESCE(SUM(total_cents) FILTER (WHERE age_days BETWEEN 31 AND 60), 0) as days_31_60,
+          COALESCE(SUM(total_cents) FILTER (WHERE age_days BETWEEN 61 AND 90), 0) as days_61_90,
+          COALESCE(SUM(total_cents) FILTER (WHERE age_days > 90), 0) as days_over_90,
+          MAX(age_days) as oldest_invoice_days
+        FROM outstanding
+        GROUP BY supplier_id, supplier_name
+        ORDER BY SUM(total_cents) DESC
+      `, filters.params);
+
+      const suppliers = rows.map((row) => ({
+        supplier_id: row.supplier_id,
+        supplier_name: row.supplier_name,
+        invoice_count: Number(row.invoice_count),
+        total_cents: Number(row.total_cents),
+        buckets: {
+          days_0_30: Number(row.days_0_30),
+          days_31_60: Number(row.days_31_60),
+          days_61_90: Number(row.days_61_90),
+          days_over_90: Number(row.days_over_90),
+        },
+        oldest_invoice_days: Number(row.oldest_invoice_days),
+      }));
+
+      const totals = suppliers.reduce((sum, supplier) => ({
+        invoice_count: sum.invoice_count + supplier.invoice_count,
+        total_cents: sum.total_cents + supplier.total_cents,
+        buckets: {
+          days_0_30: sum.buckets.days_0_30 + supplier.buckets.days_0_30,
+          days_31_60: sum.buckets.days_31_60 + supplier.buckets.days_31_60,
+          days_61_90: sum.buckets.days_61_90 + supplier.buckets.days_61_90,
+          days_over_90: sum.buckets.days_over_90 + supplier.buckets.days_over_90,
+        },
+      }), {
+        invoice_count: 0,
+        total_cents: 0,
+        buckets: { days_0_30: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0 },
+      });
+
+      return { as_of: asOf, suppliers, totals };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching invoice aging report:');
+      return reply.status(500).send({ error: 'Failed to fetch invoice aging report' });
+    }
+  });
+
+  // Get invoice by ID
+  fastify.get('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid invoice ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'invoices:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:read' });
+      }
+
+      const invoice = await getInvoiceDetail(id);
+
+      if (!invoice) {
+        return reply.status(404).send({ error: 'Invoice not found' });
+      }
+
+      if (!(await canAccessDivision(user, invoice.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      return { invoice };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching invoice:');
+      return reply.status(500).send({ error: 'Failed to fetch invoice' });
+    }
+  });
+
+  // Capture a supplier invoice against a purchase order
+  fastify.post('/', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['po_id', 'supplier_invoice_no', 'invoice_date', 'lines'],
+        properties: {
+          po_id: { type: 'string', format: 'uuid' },
+          supplier_invoice_no: { type: 'string', minLength: 1, maxLength: 255 },
+          invoice_date: { type: 'string', format: 'date' },
+          invoice_file_id: { type: 'string', format: 'uuid' },
+          lines: { type: 'array', minItems: 1, items: invoiceLineJsonSchema },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const validatedData = createInvoiceSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'invoices:write'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:write' });
+      }
+
+      const [purchaseOrder] = await sql`
+        SELECT id, division_id, status FROM purchase_orders
+        WHERE id = ${validatedData.po_id} AND deleted_at IS NULL
+      `;
+
+      if (!purchaseOrder) {
+        return reply.status(400).send({ error: 'Purchase order not found' });
+      }
+
+      if (!(await canAccessDivision(user, purchaseOrder.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (!INVOICEABLE_PO_STATUSES.includes(purchaseOrder.status)) {
+        return reply.status(400).send({
+          error: `Cannot invoice a purchase order in ${purchaseOrder.status} status`,
+        });
+      }
+
+      const foreignLine = await findForeignPOLine(validatedData.po_id, validatedData.lines);
+      if (foreignLine) {
+        return reply.status(400).send({
+          error: `Line ${foreignLine.po_line_id} does not belong to this purchase order`,
+        });
+      }
+
+      if (await isDuplicateInvoiceNumber(validatedData.po_id, validatedData.supplier_invoice_no)) {
+        return reply.status(409).send({
+          error: 'An invoice with this number already exists for the supplier',
+        });
+      }
+
+      const invoiceData = withCreateAudit({
+        po_id: validatedData.po_id,
+        supplier_invoice_no: validatedData.supplier_invoice_no,
+        invoice_date: validatedData.invoice_date,
+        invoice_file_id: validatedData.invoice_file_id ?? null,
+      }, user.id);
+
+      // The supplier's invoice document must already be uploaded through /api/v1/files
+      const documentQueries = [];
+      if (invoiceData.invoice_file_id) {
+        const fileResult = await checkInvoiceDocument(
+          user,
+          invoiceData.invoice_file_id,
+          invoiceData.id,
+        );
+        if ('error' in fileResult) {
+          return reply.status(fileResult.status).send({ error: fileResult.error });
+        }
+
+        documentQueries.push(
+          buildFileLinkQuery(invoiceData.invoice_file_id, 'invoice', invoiceData.id, user.id),
+        );
+      }
+
+      await sql.transaction([
+        sql`
+          INSERT INTO invoices (
+            id, po_id, supplier_invoice_no, invoice_date, invoice_file_id,
+            created_at, updated_at, created_by, updated_by
+          ) VALUES (
+            ${invoiceData.id}, ${invoiceData.po_id}, ${invoiceData.supplier_invoice_no},
+            ${invoiceData.invoice_date}, ${invoiceData.invoice_file_id},
+            ${invoiceData.created_at}, ${invoiceData.updated_at},
+            ${invoiceData.created_by}, ${invoiceData.updated_by}
+          )
+        `,
+        ...buildInvoiceLineInserts(invoiceData.id, validatedData.lines, user.id),
+        ...documentQueries,
+      ]);
+
+      return reply.status(201).send({ invoice: await getInvoiceDetail(invoiceData.id) });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error creating invoice:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to create invoice' });
+    }
+  });
+
+  // Update an invoice; any change clears the previous match result
+  fastify.put('/:id', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          supplier_invoice_no: { type: 'string', minLength: 1, maxLength: 255 },
+          invoice_date: { type: 'string', format: 'date' },
+          lines: { type: 'array', minItems: 1, items: invoiceLineJsonSchema },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid invoice ID format' });
+      }
+
+      const validatedData = updateInvoiceSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'invoices:write'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:write' });
+      }
+
+      const existingInvoice = await getInvoiceDetail(id);
+
+      if (!existingInvoice) {
+        return reply.status(404).send({ error: 'Invoice not found' });
+      }
+
+      if (!(await canAccessDivision(user, existingInvoice.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (existingInvoice.status !== 'pending' || existingInvoice.match_status === 'matched') {
+        return reply.status(400).send({
+          error: 'Only pending invoices that have not been matched can be edited',
+        });
+      }
+
+      if (validatedData.lines) {
+        const foreignLine = await findForeignPOLine(existingInvoice.po_id, validatedData.lines);
+        if (foreignLine) {
+          return reply.status(400).send({
+            error: `Line ${foreignLine.po_line_id} does not belong to this purchase order`,
+          });
+        }
+      }
+
+      if (
+        validatedData.supplier_invoice_no &&
+        await isDuplicateInvoiceNumber(existingInvoice.po_id, validatedData.supplier_invoice_no, id)
+      ) {
+        return reply.status(409).send({
+          error: 'An invoice with this number already exists for the supplier',
+        });
+      }
+
+      const updateData = withUpdateAudit({
+        supplier_invoice_no: validatedData.supplier_invoice_no
+          ?? existingInvoice.supplier_invoice_no,
+        invoice_date: validatedData.invoice_date ?? existingInvoice.invoice_date,
+      }, user.id);
+
+      const lineQueries = validatedData.lines
+        ? [
+          sql`
+            UPDATE invoice_lines
+            SET deleted_at = ${updateData.updated_at},
+                updated_at = ${updateData.updated_at},
+                updated_by = ${updateData.updated_by}
+            WHERE invoice_id = ${id} AND deleted_at IS NULL
+          `,
+          ...buildInvoiceLineInserts(id, validatedData.lines, user.id),
+        ]
+        : [];
+
+      await sql.transaction([
+        sql`
+          UPDATE invoices
+          SET supplier_invoice_no = ${updateData.supplier_invoice_no},
+              invoice_date = ${updateData.invoice_date},
+              match_status = 'unmatched',
+              match_discrepancies = '[]'::jsonb,
+              match_tolerances = NULL,
+              matched_at = NULL,
+              matched_by = NULL,
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${id}
+        `,
+        ...lineQueries,
+        // Editing clears the invoice's match result, which may have held the PO in exceptions
+        buildInvoicedStatusQuery(existingInvoice.po_id, user.id),
+      ]);
+
+      return { invoice: await getInvoiceDetail(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error updating invoice:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to update invoice' });
+    }
+  });
+
+  // Delete invoice (soft delete)
+  fastify.delete('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid invoice ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'invoices:delete'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:delete' });
+      }
+
+      const existingInvoice = await getInvoiceDetail(id);
+
+      if (!existingInvoice) {
+        return reply.status(404).send({ error: 'Invoice not found' });
+      }
+
+      if (!(await canAccessDivision(user, existingInvoice.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (existingInvoice.status !== 'pending' || existingInvoice.match_status === 'matched') {
+        return reply.status(400).send({
+          error: 'Only pending invoices that have not been matched can be deleted',
+        });
+      }
+
+      const deleteData = withSoftDelete(user.id);
+
+      await sql.transaction([
+        sql`
+          UPDATE invoices
+          SET deleted_at = ${deleteData.deleted_at},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE id = ${id}
+        `,
+        sql`
+          UPDATE invoice_lines
+          SET deleted_at = ${deleteData.deleted_at},
+              updated_at = ${deleteData.updated_at},
+              updated_by = ${deleteData.updated_by}
+          WHERE invoice_id = ${id} AND deleted_at IS NULL
+        `,
+        buildInvoicedStatusQuery(existingInvoice.po_id, user.id),
+      ]);
+
+      return { message: 'Invoice deleted successfully' };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error deleting invoice:');
+      return reply.status(500).send({ error: 'Failed to delete invoice' });
+    }
+  });
+
+  // Run the three-way match for an invoice; a fully received PO moves to invoiced or exceptions.
+  // Admins may override the configured tolerances for a single match.
+  fastify.post('/:id/match', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          price_tolerance_percent: { type: 'number', minimum: 0, maximum: 100 },
+          qty_tolerance_percent: { type: 'number', minimum: 0, maximum: 100 },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid invoice ID format' });
+      }
+
+      const validatedData = matchInvoiceSchema.parse(request.body ?? {});
+
+      if (!(await hasPermission(user.id, 'pos:match'))) {
+        return reply.status(403).send({ error: 'Missing required permission: pos:match' });
+      }
+
+      const invoice = await getInvoiceDetail(id);
+
+      if (!invoice) {
+        return reply.status(404).send({ error: 'Invoice not found' });
+      }
+
+      if (!(await canAccessDivision(user, invoice.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (invoice.status !== 'pending') {
+        return reply.status(400).send({
+          error: `Invoices in ${invoice.status} status cannot be re-matched`,
+        });
+      }
+
+      if (!INVOICEABLE_PO_STATUSES.includes(invoice.po_status)) {
+        return reply.status(400).send({
+          error: `Cannot match against a purchase order in ${invoice.po_status} status`,
+        });
+      }
+
+      // Loosening the tolerances can turn any invoice into a clean match, so only admins may
+      // override the configured ones, and the match result records that they did
+      const overridden = validatedData.price_tolerance_percent !== undefined
+        || validatedData.qty_tolerance_percent !== undefined;
+
+      if (overridden && user.role !== 'admin') {
+        return reply.status(403).send({ error: 'Only admins can override match tolerances' });
+      }
+
+      const tolerances = {
+        ...getMatchTolerances({
+          price_percent: validatedData.price_tolerance_percent,
+          qty_percent: validatedData.qty_tolerance_percent,
+        }),
+        overridden,
+      };
+
+      const lines = invoice.lines ?? await getInvoiceLines(id);
+      const references = await getMatchReferences(invoice.po_id, id);
+      const discrepancies = matchInvoiceLines(lines, references, tolerances);
+      const matchStatus = discrepancies.length === 0 ? 'matched' : 'exceptions';
+
+      const updateData = withUpdateAudit({ match_status: matchStatus }, user.id);
+
+      const [[matched]] = await sql.transaction([
+        sql`
+          UPDATE invoices
+          SET match_status = ${updateData.match_status},
+              match_discrepancies = ${JSON.stringify(discrepancies)}::jsonb,
+              match_tolerances = ${JSON.stringify(tolerances)}::jsonb,
+              matched_at = ${updateData.updated_at},
+              matched_by = ${user.id},
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${id} AND status = 'pending' AND deleted_at IS NULL
+          RETURNING id
+        `,
+        // A clean match only clears the PO when no other invoice on it is in exceptions
+        buildInvoicedStatusQuery(invoice.po_id, user.id),
+      ]);
+
+      if (!matched) {
+        return reply.status(409).send({ error: 'Invoice status changed, please retry' });
+      }
+
+      const [purchaseOrder] = await sql`
+        SELECT status FROM purchase_orders WHERE id = ${invoice.po_id}
+      `;
+
+      return {
+        invoice: await getInvoiceDetail(id),
+        match: {
+          status: matchStatus,
+          tolerances,
+          discrepancies,
+        },
+        purchase_order_status: purchaseOrder.status,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error matching invoice:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to match invoice' });
+    }
+  });
+
+  // Approve a matched invoice for payment
+  fastify.post('/:id/approve', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid invoice ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'invoices:approve'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:approve' });
+      }
+
+      const invoice = await getInvoiceDetail(id);
+
+      if (!invoice) {
+        return reply.status(404).send({ error: 'Invoice not found' });
+      }
+
+      if (!(await canAccessDivision(user, invoice.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (invoice.status !== 'pending') {
+        return reply.status(400).send({
+          error: `Invoices in ${invoice.status} status cannot be approved`,
+        });
+      }
+
+      // Approved invoices can no longer be re-matched, edited or deleted, so only a clean
+      // match can be approved
+      if (invoice.match_status !== 'matched') {
+        return reply.status(400).send({
+          error: 'Only invoices that have been matched cleanly can be approved',
+        });
+      }
+
+      const updateData = withUpdateAudit({ status: 'approved' }, user.id);
+
+      const [approved] = await sql`
+        UPDATE invoices
+        SET status = ${updateData.status},
+            approved_by = ${user.id},
+            approved_at = ${updateData.updated_at},
+            updated_at = ${updateData.updated_at},
+            updated_by = ${updateData.updated_by}
+        WHERE id = ${id} AND status = 'pending' AND match_status = 'matched'
+          AND deleted_at IS NULL
+        RETURNING id
+      `;
+
+      if (!approved) {
+        return reply.status(409).send({ error: 'Invoice status changed, please retry' });
+      }
+
+      return { invoice: await getInvoiceDetail(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error approving invoice:');
+      return reply.status(500).send({ error: 'Failed to approve invoice' });
+    }
+  });
+
+  // Mark an approved, matched invoice as paid
+  fastify.post('/:id/pay', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['payment_reference', 'payment_date'],
+        properties: {
+          payment_reference: { type: 'string', minLength: 1, maxLength: 255 },
+          payment_date: { type: 'string', format: 'date' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid invoice ID format' });
+      }
+
+      const validatedData = payInvoiceSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'invoices:pay'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:pay' });
+      }
+
+      const invoice = await getInvoiceDetail(id);
+
+      if (!invoice) {
+        return reply.status(404).send({ error: 'Invoice not found' });
+      }
+
+      if (!(await canAccessDivision(user, invoice.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (invoice.status !== 'approved') {
+        return reply.status(400).send({
+          error: `Invoices in ${invoice.status} status cannot be paid`,
+        });
+      }
+
+      // Only invoices that passed the three-way match can be paid
+      if (invoice.match_status !== 'matched') {
+        return reply.status(400).send({
+          error: 'Invoice must be matched before it can be paid',
+          match_status: invoice.match_status,
+        });
+      }
+
+      const updateData = withUpdateAudit({
+        status: 'paid',
+        payment_reference: validatedData.payment_reference,
+        payment_date: validatedData.payment_date,
+      }, user.id);
+
+      const [paid] = await sql`
+        UPDATE invoices
+        SET status = ${updateData.status},
+            paid_by = ${user.id},
+            paid_at = ${updateData.updated_at},
+            payment_reference = ${updateData.payment_reference},
+            payment_date = ${updateData.payment_date},
+            updated_at = ${updateData.updated_at},
+            updated_by = ${updateData.updated_by}
+        WHERE id = ${id} AND status = 'approved' AND match_status = 'matched'
+          AND deleted_at IS NULL
+        RETURNING id
+      `;
+
+      if (!paid) {
+        return reply.status(409).send({ error: 'Invoice status changed, please retry' });
+      }
+
+      return { invoice: await getInvoiceDetail(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error marking invoice as paid:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to mark invoice as paid' });
+    }
+  });
+
+  // Attach or replace the supplier's invoice document. Paid invoices are closed.
+  fastify.put('/:id/document', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['file_id'],
+        properties: {
+          file_id: { type: 'string', format: 'uuid' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid invoice ID format' });
+      }
+
+      const { file_id: fileId } = attachDocumentSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'invoices:write'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:write' });
+      }
+
+      const invoice = await getInvoiceDetail(id);
+
+      if (!invoice) {
+        return reply.status(404).send({ error: 'Invoice not found' });
+      }
+
+      if (!(await canAccessDivision(user, invoice.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (invoice.status === 'paid') {
+        return reply.status(400).send({ error: 'Paid invoices cannot be changed' });
+      }
+
+      const fileResult = await checkInvoiceDocument(user, fileId, id);
+      if ('error' in fileResult) {
+        return reply.status(fileResult.status).send({ error: fileResult.error });
+      }
+
+      const updateData = withUpdateAudit({ invoice_file_id: fileId }, user.id);
+
+      // A replaced document is deleted along with the swap, and its object once that commits
+      const [[updated], , replacedFiles] = await sql.transaction([
+        sql`
+          UPDATE invoices
+          SET invoice_file_id = ${updateData.invoice_file_id},
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${id} AND status <> 'paid' AND deleted_at IS NULL
+          RETURNING id
+        `,
+        buildFileLinkQuery(fileId, 'invoice', id, user.id),
+        buildReplacedDocumentDeleteQuery('invoice', id, user.id),
+      ]);
+
+      for (const replaced of replacedFiles) {
+        await getStorage().deleteObject(replaced.storage_key);
+      }
+
+      if (!updated) {
+        return reply.status(409).send({ error: 'Invoice status changed, please retry' });
+      }
+
+      return { invoice: await getInvoiceDetail(id) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error attaching invoice document:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to attach invoice document' });
+    }
+  });
+
+  // Time-limited download link for the supplier's invoice document
+  fastify.get('/:id/document', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid invoice ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'invoices:read'))) {
+        return reply.status(403).send({ error: 'Missing required permission: invoices:read' });
+      }
+
+      if (!(await hasPermission(user.id, 'files:download'))) {
+        return reply.status(403).send({ error: 'Missing required permission: files:download' });
+      }
+
+      const invoice = await getInvoiceDetail(id);
+
+      if (!invoice) {
+        return reply.status(404).send({ error: 'Invoice not found' });
+      }
+
+      if (!(await canAccessDivision(user, invoice.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const file = invoice.invoice_file_id ? await getFile(invoice.invoice_file_id) : null;
+
+      if (!file) {
+        return reply.status(404).send({ error: 'No invoice document attached' });
+      }
+
+      return {
+        file,
+        download_url: await getStorage().createDownloadUrl(
+          file.storage_key,
+          DOCUMENT_DOWNLOAD_URL_TTL_SECONDS,
+        ),
+        expires_in: DOCUMENT_DOWNLOAD_URL_TTL_SECONDS,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching invoice document:');
+      return reply.status(500).send({ error: 'Failed to fetch invoice document' });
+    }
+  });
+}
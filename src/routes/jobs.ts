@@ -0,0 +1,48 @@
+// routes/jobs.ts
+// Background job trigger for deployments without a long-running process (serverless). The
+// platform's cron calls it on a schedule (see vercel.json) in place of the server's worker.
+
+import crypto from 'crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { runQueuedExportJobs } from '../lib/export-jobs';
+import { queueDueReports } from '../lib/report-scheduler';
+
+// Leaves headroom under the function timeout; jobs still queued wait for the next call
+const RUN_BUDGET_MS = 45000;
+
+// Vercel Cron sends the project's CRON_SECRET as a bearer token. Without a secret configured
+// the trigger is disabled.
+function isCronRequest(request: FastifyRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const provided = Buffer.from(request.headers.authorization ?? '');
+
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+export async function jobRoutes(fastify: FastifyInstance) {
+  // Queue scheduled reports that are due, then run queued exports (report runs included)
+  // until the queue is empty or the time budget is spent
+  fastify.get('/run', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!isCronRequest(request)) {
+        return reply.status(401).send({ error: 'Unauthorized' });
+      }
+
+      const deadline = Date.now() + RUN_BUDGET_MS;
+      const reportsQueued = await queueDueReports(fastify.log);
+      const exportsRun = await runQueuedExportJobs(fastify.log, deadline);
+
+      return { reports_queued: reportsQueued, exports_run: exportsRun };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error running background jobs:');
+      return reply.status(500).send({ error: 'Failed to run background jobs' });
+    }
+  });
+}
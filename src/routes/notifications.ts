@@ -0,0 +1,129 @@
+// routes/notifications.ts
+// Notification inbox routes for Fastify
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import sql, { createFilterBuilder } from '../lib/db';
+import { requireAuth, isValidUUID } from '../lib/auth';
+import { NOTIFICATION_COLUMNS, formatNotification } from '../lib/notifications';
+
+const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+export async function notificationRoutes(fastify: FastifyInstance) {
+  // List the caller's notifications, newest first
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const query = request.query as {
+        unread?: string;
+        page?: string;
+        limit?: string;
+      };
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      const filters = createFilterBuilder(['deleted_at IS NULL']);
+      filters.add(`user_id = ${filters.param(user.id)}`);
+
+      if (query.unread === 'true') {
+        filters.add('read_at IS NULL');
+      }
+
+      const whereClause = filters.toString();
+
+      const [{ count }] = await sql(
+        `SELECT COUNT(*) as count FROM notifications ${whereClause}`,
+        [...filters.params],
+      );
+
+      const [{ count: unreadCount }] = await sql`
+        SELECT COUNT(*) as count FROM notifications
+        WHERE user_id = ${user.id} AND read_at IS NULL AND deleted_at IS NULL
+      `;
+
+      const rows = await sql(`
+        SELECT ${NOTIFICATION_COLUMNS}
+        FROM notifications
+        ${whereClause}
+        ORDER BY created_at DESC
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
+
+      return {
+        notifications: rows.map(formatNotification),
+        unread_count: parseInt(unreadCount),
+        pagination: {
+          current_page: page,
+          total_pages: Math.ceil(parseInt(count) / limit),
+          total_count: parseInt(count),
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching notifications:');
+      return reply.status(500).send({ error: 'Failed to fetch notifications' });
+    }
+  });
+
+  // Mark every unread notification as read
+  fastify.post('/read-all', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      const updated = await sql`
+        UPDATE notifications
+        SET read_at = NOW()
+        WHERE user_id = ${user.id} AND read_at IS NULL AND deleted_at IS NULL
+        RETURNING id
+      `;
+
+      return { message: 'Notifications marked as read', updated_count: updated.length };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error marking notifications as read:');
+      return reply.status(500).send({ error: 'Failed to mark notifications as read' });
+    }
+  });
+
+  // Mark one notification as read
+  fastify.post('/:id/read', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid notification ID format' });
+      }
+
+      // Reading an already read notification keeps its original read time
+      const [row] = await sql(`
+        UPDATE notifications
+        SET read_at = COALESCE(read_at, NOW())
+        WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL
+        RETURNING ${NOTIFICATION_COLUMNS}
+      `, [id, user.id]);
+
+      if (!row) {
+        return reply.status(404).send({ error: 'Notification not found' });
+      }
+
+      return { notification: formatNotification(row) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error marking notification as read:');
+      return reply.status(500).send({ error: 'Failed to mark notification as read' });
+    }
+  });
+}
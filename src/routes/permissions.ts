@@ -194,7 +194,7 @@ export async function permissionRoutes(fastify: FastifyInstance) {
 
       if (existingByResourceAction) {
         return reply.status(400).send({ 
-          error: 'Permission for this resource and action combination already exists' 
+          error: 'Permission for this resource and action combination already exists', 
         });
       }
 
@@ -288,7 +288,7 @@ export async function permissionRoutes(fastify: FastifyInstance) {
         `;
         if (resourceActionExists) {
           return reply.status(400).send({ 
-            error: 'Permission for this resource and action combination already exists' 
+            error: 'Permission for this resource and action combination already exists', 
           });
         }
       }
@@ -369,7 +369,7 @@ export async function permissionRoutes(fastify: FastifyInstance) {
       if (parseInt(rolesWithPermission.count) > 0) {
         return reply.status(400).send({ 
           error: 'Cannot delete permission that is assigned to roles',
-          assigned_roles: parseInt(rolesWithPermission.count)
+          assigned_roles: parseInt(rolesWithPermission.count),
         });
       }
 
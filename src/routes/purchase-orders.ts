@@ -3,120 +3,250 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import sql, { withCreateAudit, withUpdateAudit } from '../lib/db';
-import { requireAuth, requireRole, isValidUUID } from '../lib/auth';
+import sql, {
+  withCreateAudit,
+  withUpdateAudit,
+  withSoftDelete,
+  createFilterBuilder,
+} from '../lib/db';
+import {
+  requireAuth,
+  requireRole,
+  isValidUUID,
+  canAccessDivision,
+  canApprovePurchaseOrder,
+  getAuthenticatedUser,
+  hasPermission,
+} from '../lib/auth';
+import {
+  EDITABLE_PO_STATUSES,
+  PURCHASE_ORDER_COLUMNS,
+  PURCHASE_ORDER_FROM,
+  PURCHASE_ORDER_SELECT,
+  ExistingPOLine,
+  PurchaseOrderListQuery,
+  applyPurchaseOrderFilters,
+  calculateTotalValueCents,
+  diffPurchaseOrderLines,
+  formatPurchaseOrder,
+  getPurchaseOrderDetail,
+} from '../lib/purchase-orders';
+import {
+  CURRENT_APPROVAL_TASK_JOIN,
+  applyApproverFilters,
+  buildApprovalTaskQueries,
+  getApprovalChain,
+  getApprovalTaskError,
+  getCurrentApprovalTask,
+  summarizeApprovalChain,
+} from '../lib/approvals';
+import { checkBudgetForSubmission } from '../lib/budgets';
+import { getPurchaseOrderHistory } from '../lib/audit';
+import { FieldChange, POLineChange } from '../lib/types';
 
 // Validation schemas
+const poLineSchema = z.object({
+  line_no: z.number().int().min(1),
+  sku: z.string().max(255).optional(),
+  description: z.string().optional(),
+  qty: z.number().positive().refine(
+    (qty) => Math.abs(qty * 100 - Math.round(qty * 100)) < 1e-6,
+    { message: 'Quantity supports at most 2 decimal places' },
+  ),
+  unit_price_cents: z.number().int().min(0),
+});
+
+const attachmentSchema = z.object({
+  fileId: z.string().uuid().optional(),
+  filename: z.string().min(1),
+  originalName: z.string().optional(),
+  url: z.string().min(1),
+  size: z.number().int().min(0),
+  mimeType: z.string().optional(),
+  uploadedAt: z.string(),
+  uploadedBy: z.string(),
+});
+
+function checkUniqueLineNumbers(lines: { line_no: number }[], ctx: z.RefinementCtx) {
+  const lineNumbers = lines.map((line) => line.line_no);
+  if (new Set(lineNumbers).size !== lineNumbers.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['lines'],
+      message: 'Line numbers must be unique',
+    });
+  }
+}
+
 const createPurchaseOrderSchema = z.object({
-  po_number: z.string().min(1).max(100),
-  supplier_id: z.string().uuid(),
-  status: z.enum(['draft', 'pending', 'approved', 'ordered', 'received', 'cancelled']).default('draft'),
-  order_date: z.string().transform((str) => new Date(str)),
-  expected_delivery_date: z.string().transform((str) => new Date(str)).optional(),
-  total_amount: z.number().min(0),
-  currency: z.string().length(3).default('USD'),
-  notes: z.string().optional(),
-  items: z.array(z.object({
-    description: z.string().min(1),
-    quantity: z.number().min(1),
-    unit_price: z.number().min(0),
-    total_price: z.number().min(0),
-    notes: z.string().optional(),
-  })),
+  supplier_id: z.string().uuid().optional(),
+  order_type: z.enum(['single', 'rolling']).default('single'),
+  delivery_address_id: z.string().uuid().optional(),
+  order_end_date: z.string().date().optional(),
+  tags: z.array(z.string()).optional(),
+  comments: z.string().optional(),
+  attachments: z.array(attachmentSchema).optional(),
+  lines: z.array(poLineSchema).min(1),
+}).superRefine((data, ctx) => {
+  checkUniqueLineNumbers(data.lines, ctx);
+  if (data.order_type === 'rolling' && !data.order_end_date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['order_end_date'],
+      message: 'Rolling orders require an order end date',
+    });
+  }
+});
+
+const updatePurchaseOrderSchema = z.object({
+  supplier_id: z.string().uuid().optional(),
+  order_type: z.enum(['single', 'rolling']).optional(),
+  delivery_address_id: z.string().uuid().optional(),
+  order_end_date: z.string().date().optional(),
+  tags: z.array(z.string()).optional(),
+  comments: z.string().optional(),
+  attachments: z.array(attachmentSchema).optional(),
+  lines: z.array(poLineSchema).min(1).optional(),
+}).superRefine((data, ctx) => {
+  if (data.lines) {
+    checkUniqueLineNumbers(data.lines, ctx);
+  }
 });
 
+const poLineJsonSchema = {
+  type: 'object',
+  required: ['line_no', 'qty', 'unit_price_cents'],
+  properties: {
+    line_no: { type: 'integer', minimum: 1 },
+    sku: { type: 'string', maxLength: 255 },
+    description: { type: 'string' },
+    qty: { type: 'number', exclusiveMinimum: 0 },
+    unit_price_cents: { type: 'integer', minimum: 0 },
+  },
+};
+
+const approvePurchaseOrderSchema = z.object({
+  comments: z.string().max(2000).optional(),
+});
+
+const rejectPurchaseOrderSchema = z.object({
+  reason: z.string().trim().min(1).max(2000),
+});
+
+// Allowed manual status transitions. Submission, approval and rejection go through
+// the dedicated /submit, /approve and /reject actions; delivered, invoiced and exceptions
+// are only reached by receiving goods and matching invoices.
+const validTransitions: Record<string, string[]> = {
+  draft: [],
+  submitted: [],
+  rejected: ['draft'],
+  approved: [],
+  delivered: [],
+  exceptions: [],
+  invoiced: [], // Final state
+};
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+  },
+  required: ['id'],
+};
 
+// Header fields that PUT /:id may change, compared when building the change summary
+const editableHeaderFields = [
+  'supplier_id',
+  'order_type',
+  'delivery_address_id',
+  'order_end_date',
+  'tags',
+  'attachments',
+  'comments',
+] as const;
+
+// Check that referenced supplier and delivery address exist and are active
+async function validatePurchaseOrderReferences(data: {
+  supplier_id?: string;
+  delivery_address_id?: string;
+}): Promise<string | null> {
+  if (data.supplier_id) {
+    const [supplier] = await sql`
+      SELECT id, is_active FROM suppliers WHERE id = ${data.supplier_id} AND deleted_at IS NULL
+    `;
+
+    if (!supplier) {
+      return 'Supplier not found';
+    }
+
+    if (!supplier.is_active) {
+      return 'Supplier is inactive';
+    }
+  }
+
+  if (data.delivery_address_id) {
+    const [address] = await sql`
+      SELECT id, is_active FROM delivery_addresses
+      WHERE id = ${data.delivery_address_id} AND deleted_at IS NULL
+    `;
+
+    if (!address) {
+      return 'Delivery address not found';
+    }
+
+    if (!address.is_active) {
+      return 'Delivery address is inactive';
+    }
+  }
+
+  return null;
+}
 
 export async function purchaseOrderRoutes(fastify: FastifyInstance) {
   // Get all purchase orders
   fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const user = requireAuth(request);
-      requireRole(user, ['admin', 'manager', 'user']);
-
-      const query = request.query as {
-        status?: string;
-        supplier_id?: string;
-        from_date?: string;
-        to_date?: string;
-        search?: string;
+      requireRole(user, ['admin', 'manager', 'basic']);
+
+      const query = request.query as PurchaseOrderListQuery & {
         page?: string;
         limit?: string;
       };
 
-      const page = parseInt(query.page || '1');
-      const limit = Math.min(parseInt(query.limit || '50'), 100);
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
       const offset = (page - 1) * limit;
 
       // Build where conditions
-      let whereConditions = sql`WHERE po.deleted_at IS NULL`;
-      
-      if (query.status) {
-        whereConditions = sql`${whereConditions} AND po.status = ${query.status}`;
-      }
-      
-      if (query.supplier_id && isValidUUID(query.supplier_id)) {
-        whereConditions = sql`${whereConditions} AND po.supplier_id = ${query.supplier_id}`;
-      }
-      
-      if (query.from_date) {
-        whereConditions = sql`${whereConditions} AND po.order_date >= ${new Date(query.from_date)}`;
-      }
-      
-      if (query.to_date) {
-        whereConditions = sql`${whereConditions} AND po.order_date <= ${new Date(query.to_date)}`;
-      }
-      
-      if (query.search) {
-        whereConditions = sql`${whereConditions} AND (
-          po.po_number ILIKE ${'%' + query.search + '%'} OR
-          po.notes ILIKE ${'%' + query.search + '%'} OR
-          s.name ILIKE ${'%' + query.search + '%'}
-        )`;
-      }
-
-      const purchaseOrders = await sql`
-        SELECT 
-          po.id,
-          po.po_number,
-          po.status,
-          po.order_date,
-          po.expected_delivery_date,
-          po.total_amount,
-          po.currency,
-          po.notes,
-          po.created_at,
-          po.updated_at,
-          json_build_object(
-            'id', s.id,
-            'name', s.name,
-            'contact_email', s.contact_email,
-            'contact_phone', s.contact_phone
-          ) as supplier,
-          COUNT(poi.id) as item_count
-        FROM purchase_orders po
-        LEFT JOIN suppliers s ON po.supplier_id = s.id AND s.deleted_at IS NULL
-        LEFT JOIN purchase_order_items poi ON po.id = poi.purchase_order_id AND poi.deleted_at IS NULL
-        ${whereConditions}
-        GROUP BY po.id, po.po_number, po.status, po.order_date, po.expected_delivery_date, 
-                 po.total_amount, po.currency, po.notes, po.created_at, po.updated_at,
-                 s.id, s.name, s.contact_email, s.contact_phone
-        ORDER BY po.order_date DESC, po.created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `;
+      const filters = createFilterBuilder(['po.deleted_at IS NULL']);
+      const filterError = await applyPurchaseOrderFilters(filters, user, query);
+
+      if (filterError) {
+        return reply.status(filterError.status).send({ error: filterError.error });
+      }
+
+      const whereClause = filters.toString();
 
       // Get total count for pagination
-      const [{ count: totalCount }] = await sql`
+      const [{ count: totalCount }] = await sql(`
         SELECT COUNT(*) as count
         FROM purchase_orders po
         LEFT JOIN suppliers s ON po.supplier_id = s.id AND s.deleted_at IS NULL
-        ${whereConditions}
-      `;
+        ${whereClause}
+      `, [...filters.params]);
+
+      const purchaseOrders = await sql(`
+        ${PURCHASE_ORDER_SELECT}
+        ${whereClause}
+        ORDER BY po.created_at DESC
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
 
       const totalPages = Math.ceil(parseInt(totalCount) / limit);
 
       return {
-        purchase_orders: purchaseOrders,
+        purchase_orders: purchaseOrders.map(formatPurchaseOrder),
         pagination: {
           current_page: page,
           total_pages: totalPages,
@@ -131,21 +261,119 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
     }
   });
 
-  // Get purchase order by ID
-  fastify.get('/:id', {
+  // Submitted purchase orders waiting on the caller's sign-off
+  fastify.get('/inbox', {
     schema: {
-      params: {
+      querystring: {
         type: 'object',
         properties: {
-          id: { type: 'string', format: 'uuid' },
+          sort: { type: 'string', enum: ['age', 'amount'] },
+          order: { type: 'string', enum: ['asc', 'desc'] },
         },
-        required: ['id'],
       },
     },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      // Fresh lookup so the approver's current spending limit is applied
+      const user = await getAuthenticatedUser(request);
+
+      if (!(await hasPermission(user.id, 'pos:approve'))) {
+        return reply.status(403).send({ error: 'Missing required permission: pos:approve' });
+      }
+
+      const query = request.query as PurchaseOrderListQuery & {
+        sort?: 'age' | 'amount';
+        order?: 'asc' | 'desc';
+        page?: string;
+        limit?: string;
+      };
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      // Oldest first by age, largest first by amount, unless told otherwise
+      const sort = query.sort ?? 'age';
+      const order = query.order ?? (sort === 'age' ? 'asc' : 'desc');
+      const orderBy = sort === 'amount'
+        ? `po.total_value_cents ${order}, po.submitted_at ASC`
+        : `po.submitted_at ${order}, po.total_value_cents DESC`;
+
+      const filters = createFilterBuilder(['po.deleted_at IS NULL', "po.status = 'submitted'"]);
+      const filterError = await applyPurchaseOrderFilters(filters, user, {
+        ...query,
+        status: undefined,
+      });
+
+      if (filterError) {
+        return reply.status(filterError.status).send({ error: filterError.error });
+      }
+
+      applyApproverFilters(filters, user);
+
+      const whereClause = filters.toString();
+
+      const divisionCounts = await sql(`
+        SELECT po.division_id, d.name as division_name, COUNT(*) as count,
+               COALESCE(SUM(po.total_value_cents), 0) as total_value_cents
+        ${PURCHASE_ORDER_FROM}
+        ${CURRENT_APPROVAL_TASK_JOIN}
+        LEFT JOIN divisions d ON po.division_id = d.id
+        ${whereClause}
+        GROUP BY po.division_id, d.name
+        ORDER BY d.name
+      `, [...filters.params]);
+
+      const purchaseOrders = await sql(`
+        SELECT ${PURCHASE_ORDER_COLUMNS},
+          json_build_object(
+            'id', task.id,
+            'step_order', task.step_order,
+            'name', task.name
+          ) as current_step
+        ${PURCHASE_ORDER_FROM}
+        ${CURRENT_APPROVAL_TASK_JOIN}
+        ${whereClause}
+        ORDER BY ${orderBy}
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
+
+      const totalCount = divisionCounts.reduce((total, row) => total + Number(row.count), 0);
+
+      return {
+        purchase_orders: purchaseOrders.map((row) => ({
+          ...formatPurchaseOrder(row),
+          current_step: row.current_step,
+        })),
+        counts_by_division: divisionCounts.map((row) => ({
+          division_id: row.division_id,
+          division_name: row.division_name,
+          count: Number(row.count),
+          total_value_cents: Number(row.total_value_cents),
+        })),
+        pagination: {
+          current_page: page,
+          total_pages: Math.ceil(totalCount / limit),
+          total_count: totalCount,
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching approval inbox:');
+      return reply.status(500).send({ error: 'Failed to fetch approval inbox' });
+    }
+  });
+
+  // Get purchase order by ID
+  fastify.get('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const user = requireAuth(request);
-      requireRole(user, ['admin', 'manager', 'user']);
+      requireRole(user, ['admin', 'manager', 'basic']);
 
       const { id } = request.params as { id: string };
 
@@ -153,57 +381,16 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
         return reply.status(400).send({ error: 'Invalid purchase order ID format' });
       }
 
-      const [purchaseOrder] = await sql`
-        SELECT 
-          po.id,
-          po.po_number,
-          po.status,
-          po.order_date,
-          po.expected_delivery_date,
-          po.total_amount,
-          po.currency,
-          po.notes,
-          po.created_at,
-          po.updated_at,
-          json_build_object(
-            'id', s.id,
-            'name', s.name,
-            'contact_name', s.contact_name,
-            'contact_email', s.contact_email,
-            'contact_phone', s.contact_phone,
-            'address', s.address,
-            'city', s.city,
-            'state', s.state,
-            'zip_code', s.zip_code,
-            'country', s.country
-          ) as supplier,
-          COALESCE(
-            json_agg(
-              json_build_object(
-                'id', poi.id,
-                'description', poi.description,
-                'quantity', poi.quantity,
-                'unit_price', poi.unit_price,
-                'total_price', poi.total_price,
-                'notes', poi.notes
-              ) ORDER BY poi.created_at
-            ) FILTER (WHERE poi.id IS NOT NULL),
-            '[]'::json
-          ) as items
-        FROM purchase_orders po
-        LEFT JOIN suppliers s ON po.supplier_id = s.id AND s.deleted_at IS NULL
-        LEFT JOIN purchase_order_items poi ON po.id = poi.purchase_order_id AND poi.deleted_at IS NULL
-        WHERE po.id = ${id} AND po.deleted_at IS NULL
-        GROUP BY po.id, po.po_number, po.status, po.order_date, po.expected_delivery_date,
-                 po.total_amount, po.currency, po.notes, po.created_at, po.updated_at,
-                 s.id, s.name, s.contact_name, s.contact_email, s.contact_phone,
-                 s.address, s.city, s.state, s.zip_code, s.country
-      `;
+      const purchaseOrder = await getPurchaseOrderDetail(id);
 
       if (!purchaseOrder) {
         return reply.status(404).send({ error: 'Purchase order not found' });
       }
 
+      if (!(await canAccessDivision(user, purchaseOrder.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
       return { purchase_order: purchaseOrder };
 
     } catch (error) {
@@ -217,34 +404,19 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
     schema: {
       body: {
         type: 'object',
-        required: ['po_number', 'supplier_id', 'order_date', 'total_amount', 'items'],
+        required: ['lines'],
         properties: {
-          po_number: { type: 'string', minLength: 1, maxLength: 100 },
           supplier_id: { type: 'string', format: 'uuid' },
-          status: {
-            type: 'string',
-            enum: ['draft', 'pending', 'approved', 'ordered', 'received', 'cancelled'],
-            default: 'draft',
-          },
-          order_date: { type: 'string', format: 'date-time' },
-          expected_delivery_date: { type: 'string', format: 'date-time' },
-          total_amount: { type: 'number', minimum: 0 },
-          currency: { type: 'string', minLength: 3, maxLength: 3 },
-          notes: { type: 'string' },
-          items: {
+          order_type: { type: 'string', enum: ['single', 'rolling'], default: 'single' },
+          delivery_address_id: { type: 'string', format: 'uuid' },
+          order_end_date: { type: 'string', format: 'date' },
+          tags: { type: 'array', items: { type: 'string' } },
+          comments: { type: 'string' },
+          attachments: { type: 'array', items: { type: 'object' } },
+          lines: {
             type: 'array',
             minItems: 1,
-            items: {
-              type: 'object',
-              required: ['description', 'quantity', 'unit_price', 'total_price'],
-              properties: {
-                description: { type: 'string', minLength: 1 },
-                quantity: { type: 'number', minimum: 1 },
-                unit_price: { type: 'number', minimum: 0 },
-                total_price: { type: 'number', minimum: 0 },
-                notes: { type: 'string' },
-              },
-            },
+            items: poLineJsonSchema,
           },
         },
       },
@@ -252,86 +424,552 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const user = requireAuth(request);
-      requireRole(user, ['admin', 'manager']);
+      requireRole(user, ['admin', 'manager', 'basic']);
 
       const data = createPurchaseOrderSchema.parse(request.body);
 
-      // Check if PO number already exists
+      // Purchase orders are raised against the requester's division
+      if (!user.division_id) {
+        return reply.status(400).send({ error: 'User is not assigned to a division' });
+      }
+
+      // Verify supplier and delivery address
+      const referenceError = await validatePurchaseOrderReferences(data);
+      if (referenceError) {
+        return reply.status(400).send({ error: referenceError });
+      }
+
+      // Create purchase order and its lines in a single transaction
+      const poData = withCreateAudit({
+        division_id: user.division_id,
+        supplier_id: data.supplier_id ?? null,
+        order_type: data.order_type,
+        status: 'draft',
+        total_value_cents: calculateTotalValueCents(data.lines),
+        delivery_address_id: data.delivery_address_id ?? null,
+        order_end_date: data.order_end_date ?? null,
+        tags: data.tags ? JSON.stringify(data.tags) : null,
+        attachments: data.attachments ? JSON.stringify(data.attachments) : null,
+        comments: data.comments ?? null,
+      }, user.id);
+
+      const lineData = data.lines.map((line) => withCreateAudit({
+        po_id: poData.id,
+        line_no: line.line_no,
+        sku: line.sku ?? null,
+        description: line.description ?? null,
+        qty: line.qty,
+        unit_price_cents: line.unit_price_cents,
+      }, user.id));
+
+      await sql.transaction([
+        sql`
+          INSERT INTO purchase_orders (
+            id, division_id, supplier_id, order_type, status, total_value_cents,
+            delivery_address_id, order_end_date, tags, attachments, comments,
+            created_at, updated_at, created_by, updated_by
+          ) VALUES (
+            ${poData.id}, ${poData.division_id}, ${poData.supplier_id}, ${poData.order_type},
+            ${poData.status}, ${poData.total_value_cents}, ${poData.delivery_address_id},
+            ${poData.order_end_date}, ${poData.tags}::jsonb, ${poData.attachments}::jsonb,
+            ${poData.comments}, ${poData.created_at}, ${poData.updated_at},
+            ${poData.created_by}, ${poData.updated_by}
+          )
+        `,
+        ...lineData.map((line) => sql`
+          INSERT INTO po_lines (
+            id, po_id, line_no, sku, description, qty, unit_price_cents,
+            created_at, updated_at, created_by, updated_by
+          ) VALUES (
+            ${line.id}, ${line.po_id}, ${line.line_no}, ${line.sku}, ${line.description},
+            ${line.qty}, ${line.unit_price_cents}, ${line.created_at}, ${line.updated_at},
+            ${line.created_by}, ${line.updated_by}
+          )
+        `),
+      ]);
+
+      const purchaseOrder = await getPurchaseOrderDetail(poData.id);
+
+      return reply.status(201).send({ purchase_order: purchaseOrder });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error creating purchase order:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to create purchase order' });
+    }
+  });
+
+  // Update purchase order header and lines
+  fastify.put('/:id', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          supplier_id: { type: 'string', format: 'uuid' },
+          order_type: { type: 'string', enum: ['single', 'rolling'] },
+          delivery_address_id: { type: 'string', format: 'uuid' },
+          order_end_date: { type: 'string', format: 'date' },
+          tags: { type: 'array', items: { type: 'string' } },
+          comments: { type: 'string' },
+          attachments: { type: 'array', items: { type: 'object' } },
+          lines: {
+            type: 'array',
+            minItems: 1,
+            items: poLineJsonSchema,
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      requireRole(user, ['admin', 'manager', 'basic']);
+
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid purchase order ID format' });
+      }
+
+      const data = updatePurchaseOrderSchema.parse(request.body);
+
       const [existingPO] = await sql`
-        SELECT id FROM purchase_orders WHERE po_number = ${data.po_number} AND deleted_at IS NULL
+        SELECT
+          id, division_id, created_by, status, supplier_id, order_type, delivery_address_id,
+          order_end_date::text as order_end_date, tags, attachments, comments, total_value_cents
+        FROM purchase_orders
+        WHERE id = ${id} AND deleted_at IS NULL
       `;
 
-      if (existingPO) {
-        return reply.status(400).send({ error: 'Purchase order number already exists' });
+      if (!existingPO) {
+        return reply.status(404).send({ error: 'Purchase order not found' });
       }
 
-      // Verify supplier exists
-      const [supplier] = await sql`
-        SELECT id FROM suppliers WHERE id = ${data.supplier_id} AND deleted_at IS NULL
-      `;
+      if (!(await canAccessDivision(user, existingPO.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
 
-      if (!supplier) {
-        return reply.status(400).send({ error: 'Supplier not found' });
+      // Basic users may only edit their own purchase orders
+      if (user.role === 'basic' && existingPO.created_by !== user.id) {
+        return reply.status(403).send({ error: 'Forbidden' });
       }
 
-      // Create purchase order
-      const poData = withCreateAudit({
-        po_number: data.po_number,
-        supplier_id: data.supplier_id,
-        status: data.status,
-        order_date: data.order_date,
-        expected_delivery_date: data.expected_delivery_date,
-        total_amount: data.total_amount,
-        currency: data.currency,
-        notes: data.notes,
+      if (!EDITABLE_PO_STATUSES.includes(existingPO.status)) {
+        return reply.status(400).send({
+          error: `Purchase orders in ${existingPO.status} status cannot be edited`,
+        });
+      }
+
+      const referenceError = await validatePurchaseOrderReferences(data);
+      if (referenceError) {
+        return reply.status(400).send({ error: referenceError });
+      }
+
+      const orderType = data.order_type ?? existingPO.order_type;
+      const orderEndDate = data.order_end_date ?? existingPO.order_end_date;
+
+      if (orderType === 'rolling' && !orderEndDate) {
+        return reply.status(400).send({ error: 'Rolling orders require an order end date' });
+      }
+
+      // Header changes
+      const fieldChanges: Record<string, FieldChange> = {};
+      for (const field of editableHeaderFields) {
+        if (data[field] === undefined) {
+          continue;
+        }
+        const from = existingPO[field] ?? null;
+        const to = data[field];
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+          fieldChanges[field] = { from, to };
+        }
+      }
+
+      const header = { ...existingPO, ...data };
+      const queries = [];
+
+      // Line changes
+      let lineChanges: POLineChange[] = [];
+      let totalValueCents = Number(existingPO.total_value_cents);
+
+      if (data.lines) {
+        const storedLines = await sql`
+          SELECT id, line_no, sku, description, qty, unit_price_cents, deleted_at
+          FROM po_lines
+          WHERE po_id = ${id}
+        `;
+
+        const diff = diffPurchaseOrderLines(
+          storedLines.map((line) => ({
+            ...line,
+            qty: Number(line.qty),
+            unit_price_cents: Number(line.unit_price_cents),
+          }) as ExistingPOLine),
+          data.lines,
+        );
+
+        for (const line of diff.inserts) {
+          const lineData = withCreateAudit({
+            po_id: id,
+            line_no: line.line_no,
+            sku: line.sku ?? null,
+            description: line.description ?? null,
+            qty: line.qty,
+            unit_price_cents: line.unit_price_cents,
+          }, user.id);
+
+          queries.push(sql`
+            INSERT INTO po_lines (
+              id, po_id, line_no, sku, description, qty, unit_price_cents,
+              created_at, updated_at, created_by, updated_by
+            )
+            SELECT
+              ${lineData.id}, ${lineData.po_id}, ${lineData.line_no}, ${lineData.sku},
+              ${lineData.description}, ${lineData.qty}, ${lineData.unit_price_cents},
+              ${lineData.created_at}, ${lineData.updated_at}, ${lineData.created_by},
+              ${lineData.updated_by}
+            WHERE EXISTS (
+              SELECT 1 FROM purchase_orders
+              WHERE id = ${id} AND status IN ('draft', 'rejected') AND deleted_at IS NULL
+            )
+          `);
+        }
+
+        for (const { id: lineId, line } of diff.updates) {
+          const lineData = withUpdateAudit({
+            sku: line.sku ?? null,
+            description: line.description ?? null,
+            qty: line.qty,
+            unit_price_cents: line.unit_price_cents,
+          }, user.id);
+
+          // Restored lines also clear deleted_at
+          queries.push(sql`
+            UPDATE po_lines
+            SET sku = ${lineData.sku},
+                description = ${lineData.description},
+                qty = ${lineData.qty},
+                unit_price_cents = ${lineData.unit_price_cents},
+                deleted_at = NULL,
+                updated_at = ${lineData.updated_at},
+                updated_by = ${lineData.updated_by}
+            WHERE id = ${lineId} AND EXISTS (
+              SELECT 1 FROM purchase_orders
+              WHERE id = ${id} AND status IN ('draft', 'rejected') AND deleted_at IS NULL
+            )
+          `);
+        }
+
+        for (const { id: lineId } of diff.removals) {
+          const deleteData = withSoftDelete(user.id);
+
+          queries.push(sql`
+            UPDATE po_lines
+            SET deleted_at = ${deleteData.deleted_at},
+                updated_at = ${deleteData.updated_at},
+                updated_by = ${deleteData.updated_by}
+            WHERE id = ${lineId} AND EXISTS (
+              SELECT 1 FROM purchase_orders
+              WHERE id = ${id} AND status IN ('draft', 'rejected') AND deleted_at IS NULL
+            )
+          `);
+        }
+
+        lineChanges = diff.changes;
+        totalValueCents = calculateTotalValueCents(data.lines);
+      }
+
+      const poData = withUpdateAudit({
+        supplier_id: header.supplier_id ?? null,
+        order_type: orderType,
+        delivery_address_id: header.delivery_address_id ?? null,
+        order_end_date: orderEndDate ?? null,
+        tags: header.tags ? JSON.stringify(header.tags) : null,
+        attachments: header.attachments ? JSON.stringify(header.attachments) : null,
+        comments: header.comments ?? null,
+        total_value_cents: totalValueCents,
       }, user.id);
 
-      const [newPO] = await sql`
-        INSERT INTO purchase_orders (
-          id, po_number, supplier_id, status, order_date, expected_delivery_date,
-          total_amount, currency, notes, created_at, updated_at, created_by, updated_by
-        ) VALUES (
-          ${poData.id}, ${poData.po_number}, ${poData.supplier_id}, ${poData.status},
-          ${poData.order_date}, ${poData.expected_delivery_date}, ${poData.total_amount},
-          ${poData.currency}, ${poData.notes}, ${poData.created_at}, ${poData.updated_at},
-          ${poData.created_by}, ${poData.updated_by}
-        ) RETURNING id, po_number, status, order_date, expected_delivery_date, 
-                   total_amount, currency, notes, created_at, updated_at
+      // The header update runs first and only while the PO is still editable; it locks the
+      // row, so a submit or approval cannot slip in before the line changes land. Line
+      // queries carry the same guard so nothing is written when the status has moved on.
+      queries.unshift(sql`
+        UPDATE purchase_orders
+        SET supplier_id = ${poData.supplier_id},
+            order_type = ${poData.order_type},
+            delivery_address_id = ${poData.delivery_address_id},
+            order_end_date = ${poData.order_end_date},
+            tags = ${poData.tags}::jsonb,
+            attachments = ${poData.attachments}::jsonb,
+            comments = ${poData.comments},
+            total_value_cents = ${poData.total_value_cents},
+            updated_at = ${poData.updated_at},
+            updated_by = ${poData.updated_by}
+        WHERE id = ${id} AND status IN ('draft', 'rejected') AND deleted_at IS NULL
+        RETURNING id
+      `);
+
+      const [[updated]] = await sql.transaction(queries);
+
+      if (!updated) {
+        return reply.status(409).send({ error: 'Purchase order status changed, please retry' });
+      }
+
+      const purchaseOrder = await getPurchaseOrderDetail(id);
+
+      return {
+        purchase_order: purchaseOrder,
+        changes: {
+          fields: fieldChanges,
+          lines: lineChanges,
+          total_value_cents: {
+            from: Number(existingPO.total_value_cents),
+            to: totalValueCents,
+          },
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error updating purchase order:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to update purchase order' });
+    }
+  });
+
+  // Submit purchase order for approval
+  fastify.post('/:id/submit', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid purchase order ID format' });
+      }
+
+      if (!(await hasPermission(user.id, 'pos:submit'))) {
+        return reply.status(403).send({ error: 'Missing required permission: pos:submit' });
+      }
+
+      const purchaseOrder = await getPurchaseOrderDetail(id);
+
+      if (!purchaseOrder) {
+        return reply.status(404).send({ error: 'Purchase order not found' });
+      }
+
+      if (!(await canAccessDivision(user, purchaseOrder.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      // Basic users may only submit their own purchase orders
+      if (user.role === 'basic' && purchaseOrder.created_by !== user.id) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (!EDITABLE_PO_STATUSES.includes(purchaseOrder.status)) {
+        return reply.status(400).send({
+          error: `Purchase orders in ${purchaseOrder.status} status cannot be submitted`,
+        });
+      }
+
+      if (!purchaseOrder.supplier_id) {
+        return reply.status(400).send({ error: 'A supplier is required before submission' });
+      }
+
+      if (!purchaseOrder.lines || purchaseOrder.lines.length === 0) {
+        return reply.status(400).send({ error: 'Purchase order has no lines' });
+      }
+
+      // Overrunning the division's budget for the period is either refused or flagged,
+      // depending on the budget's enforcement setting
+      const budgetCheck = await checkBudgetForSubmission(
+        purchaseOrder.division_id,
+        purchaseOrder.total_value_cents,
+      );
+
+      if (budgetCheck?.exceeded && budgetCheck.budget.enforcement === 'block') {
+        return reply.status(400).send({
+          error: 'Purchase order would exceed the division budget',
+          budget: budgetCheck,
+        });
+      }
+
+      const updateData = withUpdateAudit({ status: 'submitted' }, user.id);
+
+      // Submit the PO and open a new round of approval tasks together. The status update
+      // runs first so it holds the PO's row lock while the tasks are written.
+      const approvalQueries = await buildApprovalTaskQueries(
+        id,
+        purchaseOrder.division_id,
+        purchaseOrder.total_value_cents,
+        user.id,
+        updateData.updated_at,
+      );
+
+      const [[submitted]] = await sql.transaction([
+        sql`
+          UPDATE purchase_orders
+          SET status = ${updateData.status},
+              submitted_at = ${updateData.updated_at},
+              rejection_reason = NULL,
+              approved_by = NULL,
+              approved_at = NULL,
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${id} AND status IN ('draft', 'rejected') AND deleted_at IS NULL
+          RETURNING id
+        `,
+        ...approvalQueries,
+      ]);
+
+      if (!submitted) {
+        return reply.status(409).send({ error: 'Purchase order status changed, please retry' });
+      }
+
+      return {
+        purchase_order: await getPurchaseOrderDetail(id),
+        approvals: await getApprovalChain(id),
+        budget_warning: budgetCheck?.exceeded ? budgetCheck : undefined,
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error submitting purchase order:');
+      return reply.status(500).send({ error: 'Failed to submit purchase order' });
+    }
+  });
+
+  // Sign off the current approval step; the PO is approved once every step has signed off
+  fastify.post('/:id/approve', {
+    schema: {
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          comments: { type: 'string', maxLength: 2000 },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      // Fresh lookup so the approver's current spending limit is enforced
+      const user = await getAuthenticatedUser(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid purchase order ID format' });
+      }
+
+      const { comments } = approvePurchaseOrderSchema.parse(request.body ?? {});
+
+      if (!(await hasPermission(user.id, 'pos:approve'))) {
+        return reply.status(403).send({ error: 'Missing required permission: pos:approve' });
+      }
+
+      const [existingPO] = await sql`
+        SELECT id, division_id, status, total_value_cents
+        FROM purchase_orders WHERE id = ${id} AND deleted_at IS NULL
       `;
 
-      // Create purchase order items
-      const items = [];
-      for (const item of data.items) {
-        const itemData = withCreateAudit({
-          purchase_order_id: newPO.id,
-          description: item.description,
-          quantity: item.quantity,
-          unit_price: item.unit_price,
-          total_price: item.total_price,
-          notes: item.notes,
-        }, user.id);
-
-        const [newItem] = await sql`
-          INSERT INTO purchase_order_items (
-            id, purchase_order_id, description, quantity, unit_price, total_price, notes,
-            created_at, updated_at, created_by, updated_by
-          ) VALUES (
-            ${itemData.id}, ${itemData.purchase_order_id}, ${itemData.description},
-            ${itemData.quantity}, ${itemData.unit_price}, ${itemData.total_price}, ${itemData.notes},
-            ${itemData.created_at}, ${itemData.updated_at}, ${itemData.created_by}, ${itemData.updated_by}
-          ) RETURNING id, description, quantity, unit_price, total_price, notes
-        `;
+      if (!existingPO) {
+        return reply.status(404).send({ error: 'Purchase order not found' });
+      }
 
-        items.push(newItem);
+      if (!(await canAccessDivision(user, existingPO.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
       }
 
-      return reply.status(201).send({ 
-        purchase_order: { ...newPO, items } 
-      });
+      if (existingPO.status !== 'submitted') {
+        return reply.status(400).send({
+          error: `Purchase orders in ${existingPO.status} status cannot be approved`,
+        });
+      }
+
+      const chain = await getApprovalChain(id);
+      const task = getCurrentApprovalTask(chain);
+
+      if (!task) {
+        return reply.status(409).send({ error: 'Purchase order has no pending approval step' });
+      }
+
+      const taskError = getApprovalTaskError(user, task, chain);
+      if (taskError) {
+        return reply.status(403).send({ error: taskError });
+      }
+
+      // Every signer must be able to approve the full total, not just the last one
+      const totalValueCents = Number(existingPO.total_value_cents);
+      if (!canApprovePurchaseOrder(user, totalValueCents)) {
+        return reply.status(403).send({
+          error: 'Purchase order total exceeds your spending limit',
+          total_value_cents: totalValueCents,
+          spending_limit_cents: Number(user.spending_limit_cents),
+        });
+      }
+
+      const updateData = withUpdateAudit({ status: 'approved' }, user.id);
+
+      const [[signedOff]] = await sql.transaction([
+        sql`
+          UPDATE po_approvals
+          SET status = 'approved',
+              acted_by = ${user.id},
+              acted_at = ${updateData.updated_at},
+              comments = ${comments ?? null},
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${task.id} AND status = 'pending'
+          RETURNING id
+        `,
+        // Only flips once no step in the round is left unapproved
+        sql`
+          UPDATE purchase_orders
+          SET status = ${updateData.status},
+              approved_by = ${user.id},
+              approved_at = ${updateData.updated_at},
+              rejection_reason = NULL,
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${id} AND status = 'submitted' AND deleted_at IS NULL
+            AND NOT EXISTS (
+              SELECT 1 FROM po_approvals
+              WHERE po_id = ${id} AND round = ${task.round} AND status <> 'approved'
+            )
+        `,
+      ]);
+
+      if (!signedOff) {
+        return reply.status(409).send({ error: 'Approval step already actioned, please retry' });
+      }
+
+      const approvals = await getApprovalChain(id);
+
+      return {
+        purchase_order: await getPurchaseOrderDetail(id),
+        approvals,
+        approval_summary: summarizeApprovalChain(approvals),
+      };
 
     } catch (error) {
-      fastify.log.error(error, 'Error creating purchase order:');
-      
+      fastify.log.error(error, 'Error approving purchase order:');
+
       if (error instanceof z.ZodError) {
         return reply.status(400).send({
           error: 'Validation error',
@@ -339,27 +977,215 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
         });
       }
 
-      return reply.status(500).send({ error: 'Failed to create purchase order' });
+      return reply.status(500).send({ error: 'Failed to approve purchase order' });
     }
   });
 
-  // Update purchase order status
-  fastify.patch('/:id/status', {
+  // Reject a submitted purchase order
+  fastify.post('/:id/reject', {
     schema: {
-      params: {
+      params: idParamsSchema,
+      body: {
         type: 'object',
+        required: ['reason'],
         properties: {
-          id: { type: 'string', format: 'uuid' },
+          reason: { type: 'string', minLength: 1, maxLength: 2000 },
         },
-        required: ['id'],
       },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid purchase order ID format' });
+      }
+
+      const { reason } = rejectPurchaseOrderSchema.parse(request.body);
+
+      if (!(await hasPermission(user.id, 'pos:reject'))) {
+        return reply.status(403).send({ error: 'Missing required permission: pos:reject' });
+      }
+
+      const [existingPO] = await sql`
+        SELECT id, division_id, status FROM purchase_orders WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!existingPO) {
+        return reply.status(404).send({ error: 'Purchase order not found' });
+      }
+
+      if (!(await canAccessDivision(user, existingPO.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      if (existingPO.status !== 'submitted') {
+        return reply.status(400).send({
+          error: `Purchase orders in ${existingPO.status} status cannot be rejected`,
+        });
+      }
+
+      const chain = await getApprovalChain(id);
+      const task = getCurrentApprovalTask(chain);
+
+      if (!task) {
+        return reply.status(409).send({ error: 'Purchase order has no pending approval step' });
+      }
+
+      const taskError = getApprovalTaskError(user, task, chain);
+      if (taskError) {
+        return reply.status(403).send({ error: taskError });
+      }
+
+      const updateData = withUpdateAudit({ status: 'rejected', rejection_reason: reason }, user.id);
+
+      // A rejection at any step ends the round: later steps are cancelled
+      const [[rejectedStep]] = await sql.transaction([
+        sql`
+          UPDATE po_approvals
+          SET status = 'rejected',
+              acted_by = ${user.id},
+              acted_at = ${updateData.updated_at},
+              comments = ${reason},
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${task.id} AND status = 'pending'
+          RETURNING id
+        `,
+        sql`
+          UPDATE po_approvals
+          SET status = 'cancelled',
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE po_id = ${id} AND round = ${task.round} AND status = 'pending'
+            AND EXISTS (SELECT 1 FROM po_approvals WHERE id = ${task.id} AND status = 'rejected')
+        `,
+        sql`
+          UPDATE purchase_orders
+          SET status = ${updateData.status},
+              rejection_reason = ${updateData.rejection_reason},
+              approved_by = NULL,
+              approved_at = NULL,
+              updated_at = ${updateData.updated_at},
+              updated_by = ${updateData.updated_by}
+          WHERE id = ${id} AND status = 'submitted' AND deleted_at IS NULL
+            AND EXISTS (SELECT 1 FROM po_approvals WHERE id = ${task.id} AND status = 'rejected')
+        `,
+      ]);
+
+      if (!rejectedStep) {
+        return reply.status(409).send({ error: 'Approval step already actioned, please retry' });
+      }
+
+      return {
+        purchase_order: await getPurchaseOrderDetail(id),
+        approvals: await getApprovalChain(id),
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error rejecting purchase order:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to reject purchase order' });
+    }
+  });
+
+  // Get the approval chain's progress for a purchase order
+  fastify.get('/:id/approvals', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid purchase order ID format' });
+      }
+
+      const [purchaseOrder] = await sql`
+        SELECT id, division_id, status FROM purchase_orders WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!purchaseOrder) {
+        return reply.status(404).send({ error: 'Purchase order not found' });
+      }
+
+      if (!(await canAccessDivision(user, purchaseOrder.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      const approvals = await getApprovalChain(id);
+
+      return {
+        po_id: purchaseOrder.id,
+        po_status: purchaseOrder.status,
+        approvals,
+        summary: summarizeApprovalChain(approvals),
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching purchase order approvals:');
+      return reply.status(500).send({ error: 'Failed to fetch purchase order approvals' });
+    }
+  });
+
+  // Timeline of everything that happened to a purchase order, from the audit log
+  fastify.get('/:id/history', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid purchase order ID format' });
+      }
+
+      const [purchaseOrder] = await sql`
+        SELECT id, division_id FROM purchase_orders WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!purchaseOrder) {
+        return reply.status(404).send({ error: 'Purchase order not found' });
+      }
+
+      if (!(await canAccessDivision(user, purchaseOrder.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
+
+      return {
+        po_id: purchaseOrder.id,
+        history: await getPurchaseOrderHistory(id),
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching purchase order history:');
+      return reply.status(500).send({ error: 'Failed to fetch purchase order history' });
+    }
+  });
+
+  // Update purchase order status
+  fastify.patch('/:id/status', {
+    schema: {
+      params: idParamsSchema,
       body: {
         type: 'object',
         required: ['status'],
         properties: {
           status: {
             type: 'string',
-            enum: ['draft', 'pending', 'approved', 'ordered', 'received', 'cancelled'],
+            enum: ['draft'],
           },
         },
       },
@@ -378,40 +1204,40 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
 
       // Check if purchase order exists
       const [existingPO] = await sql`
-        SELECT id, status as current_status FROM purchase_orders WHERE id = ${id} AND deleted_at IS NULL
+        SELECT id, division_id, status as current_status
+        FROM purchase_orders WHERE id = ${id} AND deleted_at IS NULL
       `;
 
       if (!existingPO) {
         return reply.status(404).send({ error: 'Purchase order not found' });
       }
 
-      // Validate status transition (basic rules)
-      const validTransitions: Record<string, string[]> = {
-        draft: ['pending', 'cancelled'],
-        pending: ['approved', 'cancelled'],
-        approved: ['ordered', 'cancelled'],
-        ordered: ['received', 'cancelled'],
-        received: [], // Final state
-        cancelled: [], // Final state
-      };
+      if (!(await canAccessDivision(user, existingPO.division_id))) {
+        return reply.status(403).send({ error: 'Forbidden' });
+      }
 
-      if (!validTransitions[existingPO.current_status].includes(status)) {
-        return reply.status(400).send({ 
-          error: `Invalid status transition from ${existingPO.current_status} to ${status}` 
+      if (!validTransitions[existingPO.current_status]?.includes(status)) {
+        return reply.status(400).send({
+          error: `Invalid status transition from ${existingPO.current_status} to ${status}`,
         });
       }
 
       // Update status
       const updateData = withUpdateAudit({ status }, user.id);
-      
-      await sql`
-        UPDATE purchase_orders 
+
+      const [updated] = await sql`
+        UPDATE purchase_orders
         SET status = ${updateData.status},
             updated_at = ${updateData.updated_at},
             updated_by = ${updateData.updated_by}
-        WHERE id = ${id}
+        WHERE id = ${id} AND status = ${existingPO.current_status}
+        RETURNING id
       `;
 
+      if (!updated) {
+        return reply.status(409).send({ error: 'Purchase order status changed, please retry' });
+      }
+
       return { message: `Purchase order status updated to ${status}` };
 
     } catch (error) {
@@ -419,4 +1245,4 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
       return reply.status(500).send({ error: 'Failed to update purchase order status' });
     }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,537 @@
+// routes/reports.ts
+// Scheduled report definition routes for Fastify
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sql, { createFilterBuilder, withCreateAudit, withSoftDelete, withUpdateAudit } from '../lib/db';
+import {
+  requireAuth,
+  isValidUUID,
+  canAccessDivision,
+  getActiveUser,
+  hasPermission,
+} from '../lib/auth';
+import { CronParseError, getNextCronTime } from '../lib/cron';
+import { EXPORT_COLUMNS, formatExport } from '../lib/exports';
+import { notifyExportWorker } from '../lib/export-jobs';
+import {
+  REPORT_DEFINITION_COLUMNS,
+  canReceiveReport,
+  formatReportDefinition,
+  getReportDefinition,
+  queueReportExport,
+} from '../lib/reports';
+import { AuthenticatedUser, ReportDefinition, ReportParameters } from '../lib/types';
+
+// Recipients per report, to keep delivery to one inbox-and-email pass per run
+const MAX_REPORT_RECIPIENTS = 50;
+
+// Validation schemas
+const reportParametersSchema = z.object({
+  period: z.enum([
+    'last_7_days',
+    'last_30_days',
+    'this_month',
+    'last_month',
+    'last_quarter',
+    'this_year',
+    'last_year',
+  ]).optional(),
+  status: z.string().optional(),
+  supplier_id: z.string().uuid().optional(),
+  division_id: z.string().uuid().optional(),
+  include_descendants: z.enum(['true', 'false']).optional(),
+  order_type: z.enum(['single', 'rolling']).optional(),
+  search: z.string().max(255).optional(),
+}).strict();
+
+const createReportSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  report_type: z.enum(['purchase_orders', 'spend_by_supplier']),
+  format: z.enum(['csv', 'json']).default('csv'),
+  parameters: reportParametersSchema.default({}),
+  schedule: z.string().trim().min(1).max(100),
+  delivery_channels: z.array(z.enum(['inbox', 'email'])).min(1).default(['inbox']),
+  recipient_ids: z.array(z.string().uuid()).min(1).max(MAX_REPORT_RECIPIENTS).optional(),
+  is_active: z.boolean().default(true),
+});
+
+const updateReportSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  report_type: z.enum(['purchase_orders', 'spend_by_supplier']).optional(),
+  format: z.enum(['csv', 'json']).optional(),
+  parameters: reportParametersSchema.optional(),
+  schedule: z.string().trim().min(1).max(100).optional(),
+  delivery_channels: z.array(z.enum(['inbox', 'email'])).min(1).optional(),
+  recipient_ids: z.array(z.string().uuid()).min(1).max(MAX_REPORT_RECIPIENTS).optional(),
+  is_active: z.boolean().optional(),
+});
+
+const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+function nextRunOrError(schedule: string): { error: string } | { nextRunAt: Date } {
+  try {
+    return { nextRunAt: getNextCronTime(schedule) };
+  } catch (error) {
+    if (error instanceof CronParseError) {
+      return { error: `Invalid schedule: ${error.message}` };
+    }
+    throw error;
+  }
+}
+
+// Reports run with the owner's access, so the owner may only filter on divisions they can
+// access and may only share them with active users who can see everything they cover
+async function checkReportAccess(
+  user: AuthenticatedUser,
+  parameters: ReportParameters,
+  recipientIds: string[],
+): Promise<{ status: number; error: string } | null> {
+  if (parameters.division_id && !(await canAccessDivision(user, parameters.division_id))) {
+    return { status: 403, error: 'Forbidden' };
+  }
+
+  for (const recipientId of new Set(recipientIds)) {
+    const recipient = await getActiveUser(recipientId);
+
+    if (!recipient) {
+      return { status: 400, error: 'One or more recipients not found or inactive' };
+    }
+
+    if (!(await canReceiveReport(user, recipient, parameters))) {
+      return {
+        status: 403,
+        error: 'Recipients must have access to everything the report covers',
+      };
+    }
+  }
+
+  return null;
+}
+
+// Loads a report definition the caller owns (admins may act on any); returns an error reply
+// payload otherwise
+async function loadReport(
+  user: AuthenticatedUser,
+  id: string,
+  permission: string,
+): Promise<{ status: number; error: string } | { report: ReportDefinition }> {
+  if (!isValidUUID(id)) {
+    return { status: 400, error: 'Invalid report ID format' };
+  }
+
+  if (!(await hasPermission(user.id, permission))) {
+    return { status: 403, error: `Missing required permission: ${permission}` };
+  }
+
+  const report = await getReportDefinition(id);
+
+  if (!report) {
+    return { status: 404, error: 'Report not found' };
+  }
+
+  if (user.role !== 'admin' && report.owner_id !== user.id) {
+    return { status: 403, error: 'Forbidden' };
+  }
+
+  return { report };
+}
+
+export async function reportRoutes(fastify: FastifyInstance) {
+  // List report definitions: the caller's own, or every report for admins
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+
+      if (!(await hasPermission(user.id, 'reports:view'))) {
+        return reply.status(403).send({ error: 'Missing required permission: reports:view' });
+      }
+
+      const query = request.query as {
+        is_active?: string;
+        page?: string;
+        limit?: string;
+      };
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      const filters = createFilterBuilder(['deleted_at IS NULL']);
+
+      if (user.role !== 'admin') {
+        filters.add(`owner_id = ${filters.param(user.id)}`);
+      }
+
+      if (query.is_active !== undefined) {
+        filters.add(`is_active = ${filters.param(query.is_active === 'true')}`);
+      }
+
+      const whereClause = filters.toString();
+
+      const [{ count }] = await sql(
+        `SELECT COUNT(*) as count FROM report_definitions ${whereClause}`,
+        [...filters.params],
+      );
+
+      const rows = await sql(`
+        SELECT ${REPORT_DEFINITION_COLUMNS}
+        FROM report_definitions
+        ${whereClause}
+        ORDER BY name
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
+
+      return {
+        reports: rows.map(formatReportDefinition),
+        pagination: {
+          current_page: page,
+          total_pages: Math.ceil(parseInt(count) / limit),
+          total_count: parseInt(count),
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching reports:');
+      return reply.status(500).send({ error: 'Failed to fetch reports' });
+    }
+  });
+
+  // Save a scheduled report definition
+  fastify.post('/', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['name', 'report_type', 'schedule'],
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 255 },
+          report_type: { type: 'string', enum: ['purchase_orders', 'spend_by_supplier'] },
+          format: { type: 'string', enum: ['csv', 'json'] },
+          parameters: { type: 'object' },
+          schedule: { type: 'string', minLength: 1, maxLength: 100 },
+          delivery_channels: {
+            type: 'array',
+            items: { type: 'string', enum: ['inbox', 'email'] },
+          },
+          recipient_ids: { type: 'array', items: { type: 'string', format: 'uuid' } },
+          is_active: { type: 'boolean' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const data = createReportSchema.parse(request.body);
+
+      for (const permission of ['reports:schedule', 'pos:read']) {
+        if (!(await hasPermission(user.id, permission))) {
+          return reply.status(403).send({ error: `Missing required permission: ${permission}` });
+        }
+      }
+
+      const nextRun = nextRunOrError(data.schedule);
+      if ('error' in nextRun) {
+        return reply.status(400).send({ error: nextRun.error });
+      }
+
+      const recipientIds = [...new Set(data.recipient_ids ?? [user.id])];
+      const accessError = await checkReportAccess(user, data.parameters, recipientIds);
+      if (accessError) {
+        return reply.status(accessError.status).send({ error: accessError.error });
+      }
+
+      const reportData = withCreateAudit({
+        owner_id: user.id,
+        name: data.name,
+        report_type: data.report_type,
+        format: data.format,
+        parameters: JSON.stringify(data.parameters),
+        schedule: data.schedule,
+        delivery_channels: [...new Set(data.delivery_channels)],
+        recipient_ids: recipientIds,
+        is_active: data.is_active,
+        next_run_at: nextRun.nextRunAt,
+      }, user.id);
+
+      const [row] = await sql(`
+        INSERT INTO report_definitions (
+          id, owner_id, name, report_type, format, parameters, schedule, delivery_channels,
+          recipient_ids, is_active, next_run_at, created_at, updated_at, created_by, updated_by
+        ) VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        RETURNING ${REPORT_DEFINITION_COLUMNS}
+      `, [
+        reportData.id,
+        reportData.owner_id,
+        reportData.name,
+        reportData.report_type,
+        reportData.format,
+        reportData.parameters,
+        reportData.schedule,
+        reportData.delivery_channels,
+        reportData.recipient_ids,
+        reportData.is_active,
+        reportData.next_run_at,
+        reportData.created_at,
+        reportData.updated_at,
+        reportData.created_by,
+        reportData.updated_by,
+      ]);
+
+      return reply.status(201).send({ report: formatReportDefinition(row) });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error creating report:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to create report' });
+    }
+  });
+
+  // Get a report definition
+  fastify.get('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      const result = await loadReport(user, id, 'reports:view');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      return { report: result.report };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching report:');
+      return reply.status(500).send({ error: 'Failed to fetch report' });
+    }
+  });
+
+  // Update a report definition
+  fastify.put('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+      const data = updateReportSchema.parse(request.body);
+
+      const result = await loadReport(user, id, 'reports:schedule');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const { report } = result;
+      const merged = {
+        name: data.name ?? report.name,
+        report_type: data.report_type ?? report.report_type,
+        format: data.format ?? report.format,
+        parameters: data.parameters ?? report.parameters,
+        schedule: data.schedule ?? report.schedule,
+        delivery_channels: [...new Set(data.delivery_channels ?? report.delivery_channels)],
+        recipient_ids: [...new Set(data.recipient_ids ?? report.recipient_ids)],
+        is_active: data.is_active ?? report.is_active,
+      };
+
+      // The next run moves when the schedule changes or a paused report is resumed
+      let nextRunAt = report.next_run_at ? new Date(report.next_run_at) : null;
+
+      if (data.schedule !== undefined || (data.is_active && !report.is_active) || !nextRunAt) {
+        const nextRun = nextRunOrError(merged.schedule);
+        if ('error' in nextRun) {
+          return reply.status(400).send({ error: nextRun.error });
+        }
+        nextRunAt = nextRun.nextRunAt;
+      }
+
+      // Access is checked against the owner, whose permissions the report runs with
+      if (data.parameters !== undefined || data.recipient_ids !== undefined) {
+        const owner = report.owner_id === user.id ? user : await getActiveUser(report.owner_id);
+
+        if (!owner) {
+          return reply.status(409).send({ error: 'Report owner is no longer active' });
+        }
+
+        const accessError = await checkReportAccess(
+          owner,
+          merged.parameters,
+          merged.recipient_ids,
+        );
+        if (accessError) {
+          return reply.status(accessError.status).send({ error: accessError.error });
+        }
+      }
+
+      const updateData = withUpdateAudit(merged, user.id);
+
+      const [row] = await sql(`
+        UPDATE report_definitions
+        SET name = $2, report_type = $3, format = $4, parameters = $5::jsonb, schedule = $6,
+            delivery_channels = $7, recipient_ids = $8, is_active = $9, next_run_at = $10,
+            updated_at = $11, updated_by = $12
+        WHERE id = $1 AND deleted_at IS NULL
+        RETURNING ${REPORT_DEFINITION_COLUMNS}
+      `, [
+        id,
+        updateData.name,
+        updateData.report_type,
+        updateData.format,
+        JSON.stringify(updateData.parameters),
+        updateData.schedule,
+        updateData.delivery_channels,
+        updateData.recipient_ids,
+        updateData.is_active,
+        nextRunAt,
+        updateData.updated_at,
+        updateData.updated_by,
+      ]);
+
+      if (!row) {
+        return reply.status(404).send({ error: 'Report not found' });
+      }
+
+      return { report: formatReportDefinition(row) };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error updating report:');
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      return reply.status(500).send({ error: 'Failed to update report' });
+    }
+  });
+
+  // Delete a report definition; past runs stay available until they expire
+  fastify.delete('/:id', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      const result = await loadReport(user, id, 'reports:schedule');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const deleteData = withSoftDelete(user.id);
+
+      await sql`
+        UPDATE report_definitions
+        SET deleted_at = ${deleteData.deleted_at},
+            updated_at = ${deleteData.updated_at},
+            updated_by = ${deleteData.updated_by}
+        WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      return { message: 'Report deleted successfully' };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error deleting report:');
+      return reply.status(500).send({ error: 'Failed to delete report' });
+    }
+  });
+
+  // Run a report now, outside its schedule; recipients receive it as usual
+  fastify.post('/:id/run', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+
+      const result = await loadReport(user, id, 'reports:schedule');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const exportId = await queueReportExport(result.report);
+
+      // Generated like any other export, by the worker or the serverless job trigger
+      notifyExportWorker();
+
+      const [row] = await sql(`SELECT ${EXPORT_COLUMNS} FROM exports WHERE id = $1`, [exportId]);
+
+      return reply.status(202).send({ export: formatExport(row) });
+
+    } catch (error) {
+      fastify.log.error(error, 'Error running report:');
+      return reply.status(500).send({ error: 'Failed to run report' });
+    }
+  });
+
+  // List a report's past runs
+  fastify.get('/:id/runs', {
+    schema: {
+      params: idParamsSchema,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      const { id } = request.params as { id: string };
+      const query = request.query as { page?: string; limit?: string };
+
+      const result = await loadReport(user, id, 'reports:view');
+      if ('error' in result) {
+        return reply.status(result.status).send({ error: result.error });
+      }
+
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 100);
+      const offset = (page - 1) * limit;
+
+      const [{ count }] = await sql`
+        SELECT COUNT(*) as count FROM exports WHERE report_id = ${id}
+      `;
+
+      const rows = await sql(`
+        SELECT ${EXPORT_COLUMNS}
+        FROM exports
+        WHERE report_id = $1
+        ORDER BY generated_at DESC
+        LIMIT $2 OFFSET $3
+      `, [id, limit, offset]);
+
+      return {
+        runs: rows.map(formatExport),
+        pagination: {
+          current_page: page,
+          total_pages: Math.ceil(parseInt(count) / limit),
+          total_count: parseInt(count),
+          per_page: limit,
+        },
+      };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error fetching report runs:');
+      return reply.status(500).send({ error: 'Failed to fetch report runs' });
+    }
+  });
+}
@@ -444,7 +444,7 @@ export async function roleRoutes(fastify: FastifyInstance) {
       if (parseInt(usersWithRole.count) > 0) {
         return reply.status(400).send({ 
           error: 'Cannot delete role that is assigned to users',
-          assigned_users: parseInt(usersWithRole.count)
+          assigned_users: parseInt(usersWithRole.count),
         });
       }
 
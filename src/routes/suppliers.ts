@@ -446,7 +446,7 @@ export async function supplierRoutes(fastify: FastifyInstance) {
       if (parseInt(activePO.count) > 0) {
         return reply.status(400).send({ 
           error: 'Cannot delete supplier with active purchase orders',
-          active_purchase_orders: parseInt(activePO.count)
+          active_purchase_orders: parseInt(activePO.count),
         });
       }
 
@@ -515,7 +515,7 @@ export async function supplierRoutes(fastify: FastifyInstance) {
 
       return { 
         message: `Supplier ${newActiveStatus ? 'activated' : 'deactivated'} successfully`,
-        is_active: newActiveStatus 
+        is_active: newActiveStatus, 
       };
 
     } catch (error) {
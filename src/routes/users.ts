@@ -3,8 +3,23 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import sql, { withCreateAudit, withUpdateAudit, withSoftDelete, getPaginationParams, formatPaginationResponse } from '../lib/db';
-import { requireAuth, requireRole, hashPassword, isValidUUID } from '../lib/auth';
+import sql, {
+  withCreateAudit,
+  withUpdateAudit,
+  withSoftDelete,
+  getPaginationParams,
+  formatPaginationResponse,
+  createFilterBuilder,
+} from '../lib/db';
+import {
+  requireAuth,
+  requireRole,
+  hashPassword,
+  isValidUUID,
+  canAccessDivision,
+  applyDivisionScope,
+} from '../lib/auth';
+import { revokeUserSessions } from '../lib/sessions';
 
 // Validation schemas
 const createUserSchema = z.object({
@@ -31,6 +46,7 @@ const querySchema = z.object({
   limit: z.string().transform(Number).default('20'),
   role: z.enum(['basic', 'manager', 'admin']).optional(),
   division_id: z.string().uuid().optional(),
+  include_descendants: z.enum(['true', 'false']).optional(),
   search: z.string().optional(),
 });
 
@@ -45,6 +61,7 @@ export async function userRoutes(fastify: FastifyInstance) {
           limit: { type: 'string' },
           role: { type: 'string', enum: ['basic', 'manager', 'admin'] },
           division_id: { type: 'string', format: 'uuid' },
+          include_descendants: { type: 'string', enum: ['true', 'false'] },
           search: { type: 'string' },
         },
       },
@@ -57,155 +74,46 @@ export async function userRoutes(fastify: FastifyInstance) {
       const query = querySchema.parse(request.query);
       const { page, limit, offset } = getPaginationParams({ page: query.page, limit: query.limit });
 
-      // Build dynamic query based on filters
-      let users, countResult;
-
-      if (query.role && query.division_id && query.search) {
-        const searchPattern = `%${query.search}%`;
-        users = await sql`
-          SELECT 
-            u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents, 
-            u.is_active, u.created_at, u.updated_at,
-            d.name as division_name
-          FROM users u
-          LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
-          WHERE u.deleted_at IS NULL 
-            AND u.role = ${query.role}
-            AND u.division_id = ${query.division_id}
-            AND (u.name ILIKE ${searchPattern} OR u.email ILIKE ${searchPattern})
-          ORDER BY u.created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `;
-        countResult = await sql`
-          SELECT COUNT(*) as count FROM users u
-          WHERE u.deleted_at IS NULL 
-            AND u.role = ${query.role}
-            AND u.division_id = ${query.division_id}
-            AND (u.name ILIKE ${searchPattern} OR u.email ILIKE ${searchPattern})
-        `;
-      } else if (query.role && query.division_id) {
-        users = await sql`
-          SELECT 
-            u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents, 
-            u.is_active, u.created_at, u.updated_at,
-            d.name as division_name
-          FROM users u
-          LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
-          WHERE u.deleted_at IS NULL AND u.role = ${query.role} AND u.division_id = ${query.division_id}
-          ORDER BY u.created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `;
-        countResult = await sql`
-          SELECT COUNT(*) as count FROM users u
-          WHERE u.deleted_at IS NULL AND u.role = ${query.role} AND u.division_id = ${query.division_id}
-        `;
-      } else if (query.role && query.search) {
-        const searchPattern = `%${query.search}%`;
-        users = await sql`
-          SELECT 
-            u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents, 
-            u.is_active, u.created_at, u.updated_at,
-            d.name as division_name
-          FROM users u
-          LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
-          WHERE u.deleted_at IS NULL 
-            AND u.role = ${query.role}
-            AND (u.name ILIKE ${searchPattern} OR u.email ILIKE ${searchPattern})
-          ORDER BY u.created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `;
-        countResult = await sql`
-          SELECT COUNT(*) as count FROM users u
-          WHERE u.deleted_at IS NULL 
-            AND u.role = ${query.role}
-            AND (u.name ILIKE ${searchPattern} OR u.email ILIKE ${searchPattern})
-        `;
-      } else if (query.division_id && query.search) {
-        const searchPattern = `%${query.search}%`;
-        users = await sql`
-          SELECT 
-            u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents, 
-            u.is_active, u.created_at, u.updated_at,
-            d.name as division_name
-          FROM users u
-          LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
-          WHERE u.deleted_at IS NULL 
-            AND u.division_id = ${query.division_id}
-            AND (u.name ILIKE ${searchPattern} OR u.email ILIKE ${searchPattern})
-          ORDER BY u.created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `;
-        countResult = await sql`
-          SELECT COUNT(*) as count FROM users u
-          WHERE u.deleted_at IS NULL 
-            AND u.division_id = ${query.division_id}
-            AND (u.name ILIKE ${searchPattern} OR u.email ILIKE ${searchPattern})
-        `;
-      } else if (query.role) {
-        users = await sql`
-          SELECT 
-            u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents, 
-            u.is_active, u.created_at, u.updated_at,
-            d.name as division_name
-          FROM users u
-          LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
-          WHERE u.deleted_at IS NULL AND u.role = ${query.role}
-          ORDER BY u.created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `;
-        countResult = await sql`
-          SELECT COUNT(*) as count FROM users u WHERE u.deleted_at IS NULL AND u.role = ${query.role}
-        `;
-      } else if (query.division_id) {
-        users = await sql`
-          SELECT 
-            u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents, 
-            u.is_active, u.created_at, u.updated_at,
-            d.name as division_name
-          FROM users u
-          LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
-          WHERE u.deleted_at IS NULL AND u.division_id = ${query.division_id}
-          ORDER BY u.created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `;
-        countResult = await sql`
-          SELECT COUNT(*) as count FROM users u WHERE u.deleted_at IS NULL AND u.division_id = ${query.division_id}
-        `;
-      } else if (query.search) {
-        const searchPattern = `%${query.search}%`;
-        users = await sql`
-          SELECT 
-            u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents, 
-            u.is_active, u.created_at, u.updated_at,
-            d.name as division_name
-          FROM users u
-          LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
-          WHERE u.deleted_at IS NULL AND (u.name ILIKE ${searchPattern} OR u.email ILIKE ${searchPattern})
-          ORDER BY u.created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `;
-        countResult = await sql`
-          SELECT COUNT(*) as count FROM users u
-          WHERE u.deleted_at IS NULL AND (u.name ILIKE ${searchPattern} OR u.email ILIKE ${searchPattern})
-        `;
-      } else {
-        users = await sql`
-          SELECT 
-            u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents, 
-            u.is_active, u.created_at, u.updated_at,
-            d.name as division_name
-          FROM users u
-          LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
-          WHERE u.deleted_at IS NULL
-          ORDER BY u.created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `;
-        countResult = await sql`
-          SELECT COUNT(*) as count FROM users u WHERE u.deleted_at IS NULL
-        `;
+      const filters = createFilterBuilder(['u.deleted_at IS NULL']);
+
+      if (query.division_id) {
+        const scopeError = await applyDivisionScope(filters, 'u.division_id', user, {
+          divisionId: query.division_id,
+          includeDescendants: query.include_descendants === 'true',
+        });
+
+        if (scopeError) {
+          return reply.status(scopeError.status).send({ error: scopeError.error });
+        }
       }
 
-      const [{ count }] = countResult;
+      if (query.role) {
+        filters.add(`u.role = ${filters.param(query.role)}`);
+      }
+
+      if (query.search) {
+        const searchParam = filters.param(`%${query.search}%`);
+        filters.add(`(u.name ILIKE ${searchParam} OR u.email ILIKE ${searchParam})`);
+      }
+
+      const whereClause = filters.toString();
+
+      const [{ count }] = await sql(
+        `SELECT COUNT(*) as count FROM users u ${whereClause}`,
+        [...filters.params],
+      );
+
+      const users = await sql(`
+        SELECT
+          u.id, u.email, u.name, u.role, u.division_id, u.spending_limit_cents,
+          u.is_active, u.created_at, u.updated_at,
+          d.name as division_name
+        FROM users u
+        LEFT JOIN divisions d ON u.division_id = d.id AND d.deleted_at IS NULL
+        ${whereClause}
+        ORDER BY u.created_at DESC
+        LIMIT ${filters.param(limit)} OFFSET ${filters.param(offset)}
+      `, filters.params);
 
       return formatPaginationResponse(users, parseInt(count), page, limit);
 
@@ -258,7 +166,7 @@ export async function userRoutes(fastify: FastifyInstance) {
 
       // Additional role check for managers
       if (user.role === 'manager' && user.id !== id) {
-        if (targetUser.division_id !== user.division_id) {
+        if (!targetUser.division_id || !(await canAccessDivision(user, targetUser.division_id))) {
           return reply.status(403).send({ error: 'Forbidden' });
         }
       }
@@ -327,15 +235,16 @@ export async function userRoutes(fastify: FastifyInstance) {
         is_active: true,
       }, user.id);
 
+      // Accounts created by an administrator count as verified
       const [newUser] = await sql`
         INSERT INTO users (
           id, email, password_hash, name, role, division_id, spending_limit_cents,
-          is_active, created_at, updated_at, created_by, updated_by
+          is_active, email_verified_at, created_at, updated_at, created_by, updated_by
         ) VALUES (
           ${userData.id}, ${userData.email}, ${userData.password_hash}, ${userData.name},
           ${userData.role}, ${userData.division_id}, ${userData.spending_limit_cents},
-          ${userData.is_active}, ${userData.created_at}, ${userData.updated_at},
-          ${userData.created_by}, ${userData.updated_by}
+          ${userData.is_active}, ${userData.created_at}, ${userData.created_at},
+          ${userData.updated_at}, ${userData.created_by}, ${userData.updated_by}
         ) RETURNING id, email, name, role, division_id, spending_limit_cents, is_active, created_at
       `;
 
@@ -395,7 +304,7 @@ export async function userRoutes(fastify: FastifyInstance) {
 
       // Manager role check
       if (user.role === 'manager' && user.id !== id) {
-        if (targetUser.division_id !== user.division_id) {
+        if (!targetUser.division_id || !(await canAccessDivision(user, targetUser.division_id))) {
           return reply.status(403).send({ error: 'Forbidden' });
         }
       }
@@ -411,7 +320,7 @@ export async function userRoutes(fastify: FastifyInstance) {
       }
 
       // Hash password if provided
-      let updateData: any = { ...data };
+      const updateData: any = { ...data };
       if (data.password) {
         updateData.password_hash = await hashPassword(data.password);
         delete updateData.password;
@@ -454,6 +363,15 @@ export async function userRoutes(fastify: FastifyInstance) {
         `;
       }
 
+      // A new password signs the user out everywhere else
+      if (userData.password_hash) {
+        await revokeUserSessions(
+          id,
+          'password_changed',
+          user.id === id ? user.session_id : undefined,
+        );
+      }
+
       return { user: updatedUser };
 
     } catch (error) {
@@ -519,4 +437,44 @@ export async function userRoutes(fastify: FastifyInstance) {
       return reply.status(500).send({ error: 'Failed to delete user' });
     }
   });
+
+  // Sign a user out of every session; their access tokens stop working immediately
+  fastify.post('/:id/revoke-sessions', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+        required: ['id'],
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = requireAuth(request);
+      requireRole(user, ['admin']);
+
+      const { id } = request.params as { id: string };
+
+      if (!isValidUUID(id)) {
+        return reply.status(400).send({ error: 'Invalid user ID format' });
+      }
+
+      const [targetUser] = await sql`
+        SELECT id FROM users WHERE id = ${id} AND deleted_at IS NULL
+      `;
+
+      if (!targetUser) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+
+      const revokedCount = await revokeUserSessions(id, 'admin_revoked');
+
+      return { message: 'Sessions revoked successfully', revoked_count: revokedCount };
+
+    } catch (error) {
+      fastify.log.error(error, 'Error revoking user sessions:');
+      return reply.status(500).send({ error: 'Failed to revoke user sessions' });
+    }
+  });
 }
\ No newline at end of file
@@ -62,57 +62,57 @@ const deliveryAddresses = [
 
 const permissions = [
   // User Management
-  { name: "users:read", description: "View users", resource: "users", action: "read" },
-  { name: "users:write", description: "Create and update users", resource: "users", action: "write" },
-  { name: "users:delete", description: "Delete users", resource: "users", action: "delete" },
+  { name: 'users:read', description: 'View users', resource: 'users', action: 'read' },
+  { name: 'users:write', description: 'Create and update users', resource: 'users', action: 'write' },
+  { name: 'users:delete', description: 'Delete users', resource: 'users', action: 'delete' },
   
   // Role Management
-  { name: "roles:read", description: "View roles", resource: "roles", action: "read" },
-  { name: "roles:write", description: "Create and update roles", resource: "roles", action: "write" },
-  { name: "roles:delete", description: "Delete roles", resource: "roles", action: "delete" },
+  { name: 'roles:read', description: 'View roles', resource: 'roles', action: 'read' },
+  { name: 'roles:write', description: 'Create and update roles', resource: 'roles', action: 'write' },
+  { name: 'roles:delete', description: 'Delete roles', resource: 'roles', action: 'delete' },
   
   // Purchase Order Management
-  { name: "pos:read", description: "View purchase orders", resource: "pos", action: "read" },
-  { name: "pos:write", description: "Create and update purchase orders", resource: "pos", action: "write" },
-  { name: "pos:delete", description: "Delete purchase orders", resource: "pos", action: "delete" },
-  { name: "pos:approve", description: "Approve purchase orders", resource: "pos", action: "approve" },
-  { name: "pos:reject", description: "Reject purchase orders", resource: "pos", action: "reject" },
-  { name: "pos:submit", description: "Submit purchase orders", resource: "pos", action: "submit" },
+  { name: 'pos:read', description: 'View purchase orders', resource: 'pos', action: 'read' },
+  { name: 'pos:write', description: 'Create and update purchase orders', resource: 'pos', action: 'write' },
+  { name: 'pos:delete', description: 'Delete purchase orders', resource: 'pos', action: 'delete' },
+  { name: 'pos:approve', description: 'Approve purchase orders', resource: 'pos', action: 'approve' },
+  { name: 'pos:reject', description: 'Reject purchase orders', resource: 'pos', action: 'reject' },
+  { name: 'pos:submit', description: 'Submit purchase orders', resource: 'pos', action: 'submit' },
   
   // Supplier Management
-  { name: "suppliers:read", description: "View suppliers", resource: "suppliers", action: "read" },
-  { name: "suppliers:write", description: "Create and update suppliers", resource: "suppliers", action: "write" },
-  { name: "suppliers:delete", description: "Delete suppliers", resource: "suppliers", action: "delete" },
+  { name: 'suppliers:read', description: 'View suppliers', resource: 'suppliers', action: 'read' },
+  { name: 'suppliers:write', description: 'Create and update suppliers', resource: 'suppliers', action: 'write' },
+  { name: 'suppliers:delete', description: 'Delete suppliers', resource: 'suppliers', action: 'delete' },
   
   // Delivery Management
-  { name: "deliveries:read", description: "View deliveries", resource: "deliveries", action: "read" },
-  { name: "deliveries:write", description: "Create and update deliveries", resource: "deliveries", action: "write" },
-  { name: "deliveries:delete", description: "Delete deliveries", resource: "deliveries", action: "delete" },
+  { name: 'deliveries:read', description: 'View deliveries', resource: 'deliveries', action: 'read' },
+  { name: 'deliveries:write', description: 'Create and update deliveries', resource: 'deliveries', action: 'write' },
+  { name: 'deliveries:delete', description: 'Delete deliveries', resource: 'deliveries', action: 'delete' },
   
   // Invoice Management
-  { name: "invoices:read", description: "View invoices", resource: "invoices", action: "read" },
-  { name: "invoices:write", description: "Create and update invoices", resource: "invoices", action: "write" },
-  { name: "invoices:delete", description: "Delete invoices", resource: "invoices", action: "delete" },
+  { name: 'invoices:read', description: 'View invoices', resource: 'invoices', action: 'read' },
+  { name: 'invoices:write', description: 'Create and update invoices', resource: 'invoices', action: 'write' },
+  { name: 'invoices:delete', description: 'Delete invoices', resource: 'invoices', action: 'delete' },
   
   // Division Management
-  { name: "divisions:read", description: "View divisions", resource: "divisions", action: "read" },
-  { name: "divisions:write", description: "Create and update divisions", resource: "divisions", action: "write" },
-  { name: "divisions:delete", description: "Delete divisions", resource: "divisions", action: "delete" },
+  { name: 'divisions:read', description: 'View divisions', resource: 'divisions', action: 'read' },
+  { name: 'divisions:write', description: 'Create and update divisions', resource: 'divisions', action: 'write' },
+  { name: 'divisions:delete', description: 'Delete divisions', resource: 'divisions', action: 'delete' },
   
   // Delivery Address Management
-  { name: "delivery_addresses:read", description: "View delivery addresses", resource: "delivery_addresses", action: "read" },
-  { name: "delivery_addresses:write", description: "Create and update delivery addresses", resource: "delivery_addresses", action: "write" },
-  { name: "delivery_addresses:delete", description: "Delete delivery addresses", resource: "delivery_addresses", action: "delete" },
+  { name: 'delivery_addresses:read', description: 'View delivery addresses', resource: 'delivery_addresses', action: 'read' },
+  { name: 'delivery_addresses:write', description: 'Create and update delivery addresses', resource: 'delivery_addresses', action: 'write' },
+  { name: 'delivery_addresses:delete', description: 'Delete delivery addresses', resource: 'delivery_addresses', action: 'delete' },
   
   // Admin Functions
-  { name: "admin:overview", description: "View admin overview", resource: "admin", action: "overview" },
-  { name: "admin:audit", description: "View audit logs", resource: "admin", action: "audit" },
-  { name: "admin:export", description: "Export data", resource: "admin", action: "export" },
+  { name: 'admin:overview', description: 'View admin overview', resource: 'admin', action: 'overview' },
+  { name: 'admin:audit', description: 'View audit logs', resource: 'admin', action: 'audit' },
+  { name: 'admin:export', description: 'Export data', resource: 'admin', action: 'export' },
   
   // File Management
-  { name: "files:upload", description: "Upload files", resource: "files", action: "upload" },
-  { name: "files:download", description: "Download files", resource: "files", action: "download" },
-  { name: "files:delete", description: "Delete files", resource: "files", action: "delete" },
+  { name: 'files:upload', description: 'Upload files', resource: 'files', action: 'upload' },
+  { name: 'files:download', description: 'Download files', resource: 'files', action: 'download' },
+  { name: 'files:delete', description: 'Delete files', resource: 'files', action: 'delete' },
 ];
 
 const roles = [
@@ -336,12 +336,12 @@ async function seedDatabase() {
       const [newUser] = await sql`
         INSERT INTO users (
           id, email, password_hash, name, role, division_id, spending_limit_cents, 
-          is_active, created_at, updated_at, created_by, updated_by
+          is_active, email_verified_at, created_at, updated_at, created_by, updated_by
         ) VALUES (
           ${adminData.id}, ${adminData.email}, ${adminData.password_hash}, ${adminData.name}, 
           ${adminData.role}, ${adminData.division_id}, ${adminData.spending_limit_cents}, 
-          ${adminData.is_active}, ${adminData.created_at}, ${adminData.updated_at}, 
-          ${adminData.created_by}, ${adminData.updated_by}
+          ${adminData.is_active}, ${adminData.created_at}, ${adminData.created_at}, 
+          ${adminData.updated_at}, ${adminData.created_by}, ${adminData.updated_by}
         ) RETURNING id
       `;
 
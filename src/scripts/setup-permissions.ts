@@ -9,106 +9,106 @@ const permissionCategories = {
   users: {
     name: 'User Management',
     permissions: [
-      { name: "users:read", description: "View users and user profiles", action: "read" },
-      { name: "users:write", description: "Create and update user accounts", action: "write" },
-      { name: "users:delete", description: "Delete or deactivate users", action: "delete" },
-      { name: "users:impersonate", description: "Login as another user", action: "impersonate" },
-      { name: "users:roles", description: "Assign roles to users", action: "roles" },
-    ]
+      { name: 'users:read', description: 'View users and user profiles', action: 'read' },
+      { name: 'users:write', description: 'Create and update user accounts', action: 'write' },
+      { name: 'users:delete', description: 'Delete or deactivate users', action: 'delete' },
+      { name: 'users:impersonate', description: 'Login as another user', action: 'impersonate' },
+      { name: 'users:roles', description: 'Assign roles to users', action: 'roles' },
+    ],
   },
   roles: {
     name: 'Role Management',
     permissions: [
-      { name: "roles:read", description: "View roles and permissions", action: "read" },
-      { name: "roles:write", description: "Create and update roles", action: "write" },
-      { name: "roles:delete", description: "Delete roles", action: "delete" },
-      { name: "roles:assign", description: "Assign permissions to roles", action: "assign" },
-    ]
+      { name: 'roles:read', description: 'View roles and permissions', action: 'read' },
+      { name: 'roles:write', description: 'Create and update roles', action: 'write' },
+      { name: 'roles:delete', description: 'Delete roles', action: 'delete' },
+      { name: 'roles:assign', description: 'Assign permissions to roles', action: 'assign' },
+    ],
   },
   pos: {
     name: 'Purchase Orders',
     permissions: [
-      { name: "pos:read", description: "View purchase orders", action: "read" },
-      { name: "pos:write", description: "Create and update purchase orders", action: "write" },
-      { name: "pos:delete", description: "Delete purchase orders", action: "delete" },
-      { name: "pos:submit", description: "Submit purchase orders for approval", action: "submit" },
-      { name: "pos:approve", description: "Approve purchase orders", action: "approve" },
-      { name: "pos:reject", description: "Reject purchase orders", action: "reject" },
-      { name: "pos:cancel", description: "Cancel purchase orders", action: "cancel" },
-      { name: "pos:match", description: "Match invoices to purchase orders", action: "match" },
-    ]
+      { name: 'pos:read', description: 'View purchase orders', action: 'read' },
+      { name: 'pos:write', description: 'Create and update purchase orders', action: 'write' },
+      { name: 'pos:delete', description: 'Delete purchase orders', action: 'delete' },
+      { name: 'pos:submit', description: 'Submit purchase orders for approval', action: 'submit' },
+      { name: 'pos:approve', description: 'Approve purchase orders', action: 'approve' },
+      { name: 'pos:reject', description: 'Reject purchase orders', action: 'reject' },
+      { name: 'pos:cancel', description: 'Cancel purchase orders', action: 'cancel' },
+      { name: 'pos:match', description: 'Match invoices to purchase orders', action: 'match' },
+    ],
   },
   suppliers: {
     name: 'Supplier Management',
     permissions: [
-      { name: "suppliers:read", description: "View supplier information", action: "read" },
-      { name: "suppliers:write", description: "Create and update suppliers", action: "write" },
-      { name: "suppliers:delete", description: "Delete or deactivate suppliers", action: "delete" },
-    ]
+      { name: 'suppliers:read', description: 'View supplier information', action: 'read' },
+      { name: 'suppliers:write', description: 'Create and update suppliers', action: 'write' },
+      { name: 'suppliers:delete', description: 'Delete or deactivate suppliers', action: 'delete' },
+    ],
   },
   deliveries: {
     name: 'Delivery Management',
     permissions: [
-      { name: "deliveries:read", description: "View delivery records", action: "read" },
-      { name: "deliveries:write", description: "Create and update deliveries", action: "write" },
-      { name: "deliveries:delete", description: "Delete delivery records", action: "delete" },
-      { name: "deliveries:receive", description: "Mark items as received", action: "receive" },
-    ]
+      { name: 'deliveries:read', description: 'View delivery records', action: 'read' },
+      { name: 'deliveries:write', description: 'Create and update deliveries', action: 'write' },
+      { name: 'deliveries:delete', description: 'Delete delivery records', action: 'delete' },
+      { name: 'deliveries:receive', description: 'Mark items as received', action: 'receive' },
+    ],
   },
   invoices: {
     name: 'Invoice Management',
     permissions: [
-      { name: "invoices:read", description: "View invoices", action: "read" },
-      { name: "invoices:write", description: "Create and update invoices", action: "write" },
-      { name: "invoices:delete", description: "Delete invoices", action: "delete" },
-      { name: "invoices:approve", description: "Approve invoices for payment", action: "approve" },
-      { name: "invoices:pay", description: "Mark invoices as paid", action: "pay" },
-    ]
+      { name: 'invoices:read', description: 'View invoices', action: 'read' },
+      { name: 'invoices:write', description: 'Create and update invoices', action: 'write' },
+      { name: 'invoices:delete', description: 'Delete invoices', action: 'delete' },
+      { name: 'invoices:approve', description: 'Approve invoices for payment', action: 'approve' },
+      { name: 'invoices:pay', description: 'Mark invoices as paid', action: 'pay' },
+    ],
   },
   divisions: {
     name: 'Division Management',
     permissions: [
-      { name: "divisions:read", description: "View organizational divisions", action: "read" },
-      { name: "divisions:write", description: "Create and update divisions", action: "write" },
-      { name: "divisions:delete", description: "Delete divisions", action: "delete" },
-    ]
+      { name: 'divisions:read', description: 'View organizational divisions', action: 'read' },
+      { name: 'divisions:write', description: 'Create and update divisions', action: 'write' },
+      { name: 'divisions:delete', description: 'Delete divisions', action: 'delete' },
+    ],
   },
   delivery_addresses: {
     name: 'Delivery Addresses',
     permissions: [
-      { name: "delivery_addresses:read", description: "View delivery addresses", action: "read" },
-      { name: "delivery_addresses:write", description: "Create and update delivery addresses", action: "write" },
-      { name: "delivery_addresses:delete", description: "Delete delivery addresses", action: "delete" },
-    ]
+      { name: 'delivery_addresses:read', description: 'View delivery addresses', action: 'read' },
+      { name: 'delivery_addresses:write', description: 'Create and update delivery addresses', action: 'write' },
+      { name: 'delivery_addresses:delete', description: 'Delete delivery addresses', action: 'delete' },
+    ],
   },
   files: {
     name: 'File Management',
     permissions: [
-      { name: "files:upload", description: "Upload files and attachments", action: "upload" },
-      { name: "files:download", description: "Download files and attachments", action: "download" },
-      { name: "files:delete", description: "Delete files and attachments", action: "delete" },
-      { name: "files:manage", description: "Manage file storage and organization", action: "manage" },
-    ]
+      { name: 'files:upload', description: 'Upload files and attachments', action: 'upload' },
+      { name: 'files:download', description: 'Download files and attachments', action: 'download' },
+      { name: 'files:delete', description: 'Delete files and attachments', action: 'delete' },
+      { name: 'files:manage', description: 'Manage file storage and organization', action: 'manage' },
+    ],
   },
   admin: {
     name: 'Administration',
     permissions: [
-      { name: "admin:overview", description: "View system overview and dashboard", action: "overview" },
-      { name: "admin:audit", description: "View audit logs and system activity", action: "audit" },
-      { name: "admin:export", description: "Export system data", action: "export" },
-      { name: "admin:config", description: "Modify system configuration", action: "config" },
-      { name: "admin:maintenance", description: "Perform system maintenance", action: "maintenance" },
-    ]
+      { name: 'admin:overview', description: 'View system overview and dashboard', action: 'overview' },
+      { name: 'admin:audit', description: 'View audit logs and system activity', action: 'audit' },
+      { name: 'admin:export', description: 'Export system data', action: 'export' },
+      { name: 'admin:config', description: 'Modify system configuration', action: 'config' },
+      { name: 'admin:maintenance', description: 'Perform system maintenance', action: 'maintenance' },
+    ],
   },
   reports: {
     name: 'Reporting',
     permissions: [
-      { name: "reports:view", description: "View standard reports", action: "view" },
-      { name: "reports:create", description: "Create custom reports", action: "create" },
-      { name: "reports:export", description: "Export reports in various formats", action: "export" },
-      { name: "reports:schedule", description: "Schedule automated reports", action: "schedule" },
-    ]
-  }
+      { name: 'reports:view', description: 'View standard reports', action: 'view' },
+      { name: 'reports:create', description: 'Create custom reports', action: 'create' },
+      { name: 'reports:export', description: 'Export reports in various formats', action: 'export' },
+      { name: 'reports:schedule', description: 'Schedule automated reports', action: 'schedule' },
+    ],
+  },
 };
 
 // Role definitions with detailed permission assignments
@@ -119,7 +119,7 @@ const roleDefinitions = [
     is_system_role: true,
     color: '#dc2626', // Red
     permissions: Object.values(permissionCategories)
-      .flatMap(category => category.permissions.map(p => p.name))
+      .flatMap(category => category.permissions.map(p => p.name)),
   },
   {
     name: 'Admin',
@@ -149,7 +149,7 @@ const roleDefinitions = [
       'admin:overview', 'admin:audit', 'admin:export',
       // Reporting
       ...permissionCategories.reports.permissions.map(p => p.name),
-    ]
+    ],
   },
   {
     name: 'Manager',
@@ -177,7 +177,7 @@ const roleDefinitions = [
       'admin:overview',
       // Standard reporting
       'reports:view', 'reports:create', 'reports:export',
-    ]
+    ],
   },
   {
     name: 'Senior User',
@@ -203,7 +203,7 @@ const roleDefinitions = [
       'files:upload', 'files:download',
       // Basic reporting
       'reports:view', 'reports:export',
-    ]
+    ],
   },
   {
     name: 'Basic User',
@@ -227,7 +227,7 @@ const roleDefinitions = [
       'files:upload', 'files:download',
       // View reports
       'reports:view',
-    ]
+    ],
   },
   {
     name: 'Read Only',
@@ -246,8 +246,8 @@ const roleDefinitions = [
       'files:download',
       'admin:overview',
       'reports:view',
-    ]
-  }
+    ],
+  },
 ];
 
 async function setupPermissions() {
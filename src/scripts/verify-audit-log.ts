@@ -0,0 +1,45 @@
+// scripts/verify-audit-log.ts
+// Verifies the audit log hash chain and reports the first broken link
+
+import 'dotenv/config';
+import sql from '../lib/db';
+import { verifyAuditChain } from '../lib/audit';
+
+async function verifyAuditLog(): Promise<boolean> {
+  console.log('🔎 Verifying audit log hash chain...');
+
+  await sql`SELECT 1`;
+  console.log('✅ Database connection successful');
+
+  const result = await verifyAuditChain((checkedCount) => {
+    console.log(`  ⏳ ${checkedCount} entries checked`);
+  });
+
+  if (result.head) {
+    console.log(`📌 Chain head: seq ${result.head.seq}, hash ${result.head.hash}`);
+  }
+
+  if (result.first_broken_link) {
+    const link = result.first_broken_link;
+    console.error(`❌ Broken link at seq ${link.seq} (entry ${link.id}): ${link.reason}`);
+    console.error(`   ${result.checked_count} entries before it are intact`);
+    return false;
+  }
+
+  console.log(`✅ All ${result.checked_count} entries are intact`);
+  return true;
+}
+
+// Run verification if called directly; exits 2 when the chain is broken
+if (import.meta.url === `file://${process.argv[1]}`) {
+  verifyAuditLog()
+    .then((valid) => {
+      process.exit(valid ? 0 : 2);
+    })
+    .catch((error) => {
+      console.error('💥 Audit log verification failed:', error);
+      process.exit(1);
+    });
+}
+
+export default verifyAuditLog;
@@ -1,47 +1,57 @@
-import { build } from './app'
+import { build } from './app';
+import { startExportWorker, stopExportWorker } from './lib/export-jobs';
+import { startReportScheduler, stopReportScheduler } from './lib/report-scheduler';
 
 // Environment configuration
-const PORT = parseInt(process.env.PORT || '3002')
-const HOST = process.env.HOST || '0.0.0.0' // Bind to all interfaces for better connectivity
+const PORT = parseInt(process.env.PORT || '3002');
+const HOST = process.env.HOST || '0.0.0.0'; // Bind to all interfaces for better connectivity
 
 // Start server
 async function start() {
   try {
-    const fastify = await build()
+    const fastify = await build();
     
-    await fastify.listen({ port: PORT, host: HOST })
-    console.log(`🚀 Hogan RO API v2 running on http://${HOST}:${PORT}`)
-    console.log(`📚 API Documentation available at http://${HOST}:${PORT}/docs`)
+    await fastify.listen({ port: PORT, host: HOST });
+    console.log(`🚀 Hogan RO API v2 running on http://${HOST}:${PORT}`);
+    console.log(`📚 API Documentation available at http://${HOST}:${PORT}/docs`);
+
+    // Background jobs need a long-lived process; serverless deployments use the job trigger
+    startExportWorker(fastify.log);
+    startReportScheduler(fastify.log);
     
-    return fastify
+    return fastify;
   } catch (err) {
-    console.error(err)
-    process.exit(1)
+    console.error(err);
+    process.exit(1);
   }
 }
 
 // Start the server and handle shutdown
-let fastifyInstance: any = null
+let fastifyInstance: any = null;
 
 async function main() {
-  fastifyInstance = await start()
+  fastifyInstance = await start();
 }
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('\n🛑 Received SIGINT, shutting down gracefully...')
+  console.log('\n🛑 Received SIGINT, shutting down gracefully...');
+  await stopReportScheduler();
+  await stopExportWorker();
   if (fastifyInstance) {
-    await fastifyInstance.close()
+    await fastifyInstance.close();
   }
-  process.exit(0)
-})
+  process.exit(0);
+});
 
 process.on('SIGTERM', async () => {
-  console.log('\n🛑 Received SIGTERM, shutting down gracefully...')
+  console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
+  await stopReportScheduler();
+  await stopExportWorker();
   if (fastifyInstance) {
-    await fastifyInstance.close()
+    await fastifyInstance.close();
   }
-  process.exit(0)
-})
+  process.exit(0);
+});
 
-main().catch(console.error)
\ No newline at end of file
+main().catch(console.error);
\ No newline at end of file